@@ -1,44 +1,44 @@
-module.exports = {
-  expo: {
-    name: "foodnsap",
-    slug: "foodnsap",
-    version: "1.0.0",
-    orientation: "portrait",
-    icon: "./assets/images/icon.png",
-    scheme: "myapp",
-    userInterfaceStyle: "automatic",
-    splash: {
-      image: "./assets/images/splash.png",
-      resizeMode: "contain",
-      backgroundColor: "#ffffff"
+// Builds on app.json (name, scheme, plugins, ...) and adds the settings of the active profile.
+// APP_PROFILE picks the backend: "development" (default), "staging" or "production".
+// Values come from the environment, with .env.<profile> filling in anything not already set, e.g.
+//   APP_PROFILE=staging npx expo start
+// services/config.ts validates them at startup and shows an error screen when something is missing.
+const profile = process.env.APP_PROFILE || "development";
+require("dotenv").config({ path: `.env.${profile}` });
+
+module.exports = ({ config }) => ({
+  ...config,
+  // Non-production builds are labelled so they are easy to tell apart on a device
+  name: profile === "production" ? config.name : `${config.name} (${profile})`,
+  extra: {
+    ...config.extra,
+    profile,
+    supabase: {
+      url: process.env.EXPO_PUBLIC_SUPABASE_URL,
+      anonKey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY
     },
-    assetBundlePatterns: [
-      "**/*"
-    ],
-    ios: {
-      supportsTablet: true
+    // Vision provider used by analyzeFoodImage: "backend" (the analyze-food endpoint, which
+    // holds the OpenAI key), "openai-compatible" (a local model) or "stub".
+    // Use "stub" to run the camera → results → save flow offline (CI, dev without a backend).
+    // Never put an OpenAI key in an EXPO_PUBLIC_ variable: it would ship inside the app.
+    vision: {
+      provider: process.env.EXPO_PUBLIC_VISION_PROVIDER || "backend",
+      // Defaults to the analyze-food Supabase edge function; set to the local dev server in development
+      endpointUrl: process.env.EXPO_PUBLIC_ANALYSIS_ENDPOINT_URL,
+      model: process.env.EXPO_PUBLIC_VISION_MODEL,
+      baseUrl: process.env.EXPO_PUBLIC_VISION_BASE_URL,
+      stubFixture: process.env.EXPO_PUBLIC_VISION_STUB_FIXTURE,
+      // Per attempt; requests are retried with backoff on 429, 5xx and network failures
+      timeoutMs: process.env.EXPO_PUBLIC_VISION_TIMEOUT_MS,
+      maxRetries: process.env.EXPO_PUBLIC_VISION_MAX_RETRIES
     },
-    android: {
-      adaptiveIcon: {
-        foregroundImage: "./assets/images/adaptive-icon.png",
-        backgroundColor: "#ffffff"
-      }
+    // Product database used by barcode scanning: "openfoodfacts" or "fixture" (offline, tests)
+    products: {
+      provider: process.env.EXPO_PUBLIC_PRODUCTS_PROVIDER || "openfoodfacts",
+      baseUrl: process.env.EXPO_PUBLIC_PRODUCTS_BASE_URL
     },
-    web: {
-      bundler: "metro",
-      favicon: "./assets/images/favicon.png"
-    },
-    plugins: [
-      "expo-router"
-    ],
-    extra: {
-      // Using the API key from .env file
-      openaiApiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY,
-      supabaseUrl: "your_supabase_url_here",
-      supabaseAnon: "your_supabase_anon_key_here",
-      eas: {
-        projectId: "your-project-id"
-      }
+    eas: {
+      projectId: "your-project-id"
     }
   }
-};
\ No newline at end of file
+});
@@ -0,0 +1,97 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useCardColors } from '@/hooks/useCardColors';
+import { useAuth } from '@/src/services/AuthContext';
+import { AuthRedirectParams, hasAuthRedirectParams, parseAuthRedirectUrl } from '@/src/services/authRedirect';
+import * as Linking from 'expo-linking';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
+
+// Opened by magic links and sign-up confirmation links (foodnsap://auth-callback?code=...)
+export default function AuthCallbackScreen() {
+  const params = useLocalSearchParams<Record<string, string>>();
+  // The #fragment of older links never reaches the route params, so read the raw URL too
+  const url = Linking.useURL();
+  const { completeEmailLink } = useAuth();
+  const router = useRouter();
+  const colors = useCardColors();
+  const [error, setError] = useState<string | undefined>();
+  // Links are single use, so handle one once even when the params or the URL change again
+  const isHandled = useRef(false);
+
+  useEffect(() => {
+    if (isHandled.current) return;
+
+    const linkParams: AuthRedirectParams = { ...params, ...(url ? parseAuthRedirectUrl(url) : {}) };
+    if (!hasAuthRedirectParams(linkParams)) {
+      // Still waiting for the initial URL
+      if (!url) return;
+      setError('This link is missing its sign-in details. Request a new one.');
+      return;
+    }
+
+    isHandled.current = true;
+    (async () => {
+      const { result, error } = await completeEmailLink(linkParams);
+      if (error) {
+        setError(error.message || 'This link is invalid or has expired. Request a new one.');
+        return;
+      }
+      router.replace(result === 'recovery' ? '/(auth)/reset-password' : '/(tabs)');
+    })();
+  }, [url, params, completeEmailLink, router]);
+
+  return (
+    <ThemedView style={styles.container}>
+      {error ? (
+        <>
+          <ThemedText style={styles.title} accessibilityRole="header">Could not sign you in</ThemedText>
+          <ThemedText style={styles.message}>{error}</ThemedText>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.accent }]}
+            onPress={() => router.replace('/(auth)/login')}
+            accessibilityRole="button"
+          >
+            <ThemedText style={[styles.buttonText, { color: colors.onAccent }]}>Back to Sign In</ThemedText>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <ActivityIndicator size="large" color={colors.accent} accessibilityLabel="Signing you in" />
+          <ThemedText style={styles.message}>Signing you in...</ThemedText>
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 15,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 24,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,218 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useCardColors } from '@/hooks/useCardColors';
+import { useAuth } from '@/src/services/AuthContext';
+import * as Haptics from 'expo-haptics';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, KeyboardAvoidingView, Platform, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+const CODE_LENGTH = 6;
+
+// Passwordless sign-in: the email has a magic link that opens the app, and the same
+// 6-digit code for when the link is opened on another device
+export default function EmailSignInScreen() {
+  const { status, sendSignInEmail, verifySignInCode, continueAsGuest } = useAuth();
+  const router = useRouter();
+  const colors = useCardColors();
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [sentTo, setSentTo] = useState<string | undefined>();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSend = async () => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      Alert.alert('Check Your Email', 'Please enter a valid email address.');
+      return;
+    }
+
+    setIsBusy(true);
+    const { error } = await sendSignInEmail(email);
+    setIsBusy(false);
+
+    if (error) {
+      Alert.alert('Email Not Sent', error.message || 'There was a problem sending your sign-in email. Please try again.');
+      return;
+    }
+    setSentTo(email.trim());
+    setCode('');
+  };
+
+  const handleVerify = async () => {
+    if (!sentTo || code.length !== CODE_LENGTH) return;
+
+    setIsBusy(true);
+    const { error } = await verifySignInCode(sentTo, code);
+    setIsBusy(false);
+
+    if (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Code Not Accepted', 'That code is wrong or has expired. Check the latest email or send a new one.');
+      return;
+    }
+    // RootLayoutNav moves a signed in user out of the (auth) group
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  // Meals logged as a guest stay on the device and move to the account after signing up
+  const handleContinueAsGuest = async () => {
+    setIsBusy(true);
+    const { error } = await continueAsGuest();
+    setIsBusy(false);
+
+    if (error) {
+      Alert.alert('Guest Mode Unavailable', 'We could not start guest mode. Check your connection and try again.');
+    }
+  };
+
+  const handleChangeCode = (text: string) => {
+    setCode(text.replace(/\D/g, '').slice(0, CODE_LENGTH));
+  };
+
+  return (
+    <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <ThemedView style={styles.container}>
+        <ThemedText style={styles.title} accessibilityRole="header">Sign In with Email</ThemedText>
+
+        {!sentTo ? (
+          <>
+            <ThemedText style={styles.message}>We&apos;ll email you a sign-in link and a code. No password needed.</ThemedText>
+            <TextInput
+              style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="you@example.com"
+              placeholderTextColor={colors.mutedText}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoComplete="email"
+              textContentType="emailAddress"
+              autoFocus
+              returnKeyType="send"
+              onSubmitEditing={handleSend}
+              accessibilityLabel="Email address"
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.accent }, isBusy && styles.disabledButton]}
+              onPress={handleSend}
+              disabled={isBusy}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: isBusy }}
+            >
+              {isBusy ? (
+                <ActivityIndicator color={colors.onAccent} />
+              ) : (
+                <ThemedText style={[styles.buttonText, { color: colors.onAccent }]}>Email Me a Link</ThemedText>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <ThemedText style={styles.message}>
+              Tap the link we sent to {sentTo}, or enter the {CODE_LENGTH}-digit code from the email.
+            </ThemedText>
+            <TextInput
+              style={[styles.input, styles.codeInput, { color: colors.text, borderColor: colors.border }]}
+              value={code}
+              onChangeText={handleChangeCode}
+              placeholder={'0'.repeat(CODE_LENGTH)}
+              placeholderTextColor={colors.mutedText}
+              keyboardType="number-pad"
+              autoComplete="one-time-code"
+              textContentType="oneTimeCode"
+              autoFocus
+              maxLength={CODE_LENGTH}
+              onSubmitEditing={handleVerify}
+              accessibilityLabel={`${CODE_LENGTH}-digit sign-in code`}
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.accent }, (isBusy || code.length !== CODE_LENGTH) && styles.disabledButton]}
+              onPress={handleVerify}
+              disabled={isBusy || code.length !== CODE_LENGTH}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: isBusy || code.length !== CODE_LENGTH }}
+            >
+              {isBusy ? (
+                <ActivityIndicator color={colors.onAccent} />
+              ) : (
+                <ThemedText style={[styles.buttonText, { color: colors.onAccent }]}>Sign In</ThemedText>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSend} disabled={isBusy} style={styles.linkButton} accessibilityRole="button">
+              <ThemedText style={[styles.linkText, { color: colors.accent }]}>Send a new email</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setSentTo(undefined)} style={styles.linkButton} accessibilityRole="button">
+              <ThemedText style={[styles.linkText, { color: colors.accent }]}>Use a different email</ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity onPress={() => router.back()} style={styles.linkButton} accessibilityRole="button">
+          <ThemedText style={[styles.linkText, { color: colors.secondaryText }]}>Sign in with a password instead</ThemedText>
+        </TouchableOpacity>
+        {/* Guests reach this screen from the profile tab to create their account */}
+        {status !== 'guest' && (
+          <TouchableOpacity onPress={handleContinueAsGuest} disabled={isBusy} style={styles.linkButton} accessibilityRole="button">
+            <ThemedText style={[styles.linkText, { color: colors.secondaryText }]}>Continue without an account</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    lineHeight: 30,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 15,
+    marginBottom: 16,
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  linkButton: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  linkText: {
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,199 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useCardColors } from '@/hooks/useCardColors';
+import { useAuth } from '@/src/services/AuthContext';
+import { AuthRedirectParams, hasAuthRedirectParams, parseAuthRedirectUrl } from '@/src/services/authRedirect';
+import * as Haptics from 'expo-haptics';
+import * as Linking from 'expo-linking';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, KeyboardAvoidingView, Platform, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Opened by the password reset email (foodnsap://reset-password?code=...). The link signs
+// the user in with a recovery session, which is then allowed to set a new password.
+export default function ResetPasswordScreen() {
+  const params = useLocalSearchParams<Record<string, string>>();
+  const url = Linking.useURL();
+  const { session, completeEmailLink, updatePassword } = useAuth();
+  const router = useRouter();
+  const colors = useCardColors();
+  const [isVerifying, setIsVerifying] = useState(() => hasAuthRedirectParams(params));
+  const [linkError, setLinkError] = useState<string | undefined>();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const isLinkHandled = useRef(false);
+
+  useEffect(() => {
+    if (isLinkHandled.current) return;
+    const linkParams: AuthRedirectParams = { ...params, ...(url ? parseAuthRedirectUrl(url) : {}) };
+    // Reached from the auth callback, the session already exists
+    if (!hasAuthRedirectParams(linkParams)) return;
+
+    isLinkHandled.current = true;
+    setIsVerifying(true);
+    completeEmailLink(linkParams).then(({ error }) => {
+      if (error) {
+        setLinkError(error.message || 'This reset link is invalid or has expired. Request a new one.');
+      }
+      setIsVerifying(false);
+    });
+  }, [url, params, completeEmailLink]);
+
+  const passwordProblem =
+    password.length < MIN_PASSWORD_LENGTH
+      ? `Use at least ${MIN_PASSWORD_LENGTH} characters.`
+      : password !== confirmation
+        ? 'The passwords do not match.'
+        : undefined;
+
+  const handleSave = async () => {
+    if (passwordProblem) {
+      Alert.alert('Choose a Password', passwordProblem);
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await updatePassword(password);
+    setIsSaving(false);
+
+    if (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Password Not Changed', error.message || 'There was a problem saving your new password. Please try again.');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    Alert.alert('Password Changed', 'Your new password is saved.', [
+      { text: 'OK', onPress: () => router.replace('/(tabs)') },
+    ]);
+  };
+
+  if (isVerifying) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.accent} accessibilityLabel="Checking your reset link" />
+      </ThemedView>
+    );
+  }
+
+  if (linkError || !session) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText style={styles.title} accessibilityRole="header">Reset Link Not Valid</ThemedText>
+        <ThemedText style={styles.message}>
+          {linkError || 'Open the link from your password reset email on this device to choose a new password.'}
+        </ThemedText>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.accent }]}
+          onPress={() => router.replace('/(auth)/login')}
+          accessibilityRole="button"
+        >
+          <ThemedText style={[styles.buttonText, { color: colors.onAccent }]}>Back to Sign In</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <ThemedView style={styles.container}>
+        <ThemedText style={styles.title} accessibilityRole="header">Choose a New Password</ThemedText>
+        {session.user?.email && <ThemedText style={styles.message}>for {session.user.email}</ThemedText>}
+
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          value={password}
+          onChangeText={setPassword}
+          placeholder="New password"
+          placeholderTextColor={colors.mutedText}
+          secureTextEntry
+          autoFocus
+          autoComplete="new-password"
+          textContentType="newPassword"
+          accessibilityLabel="New password"
+        />
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          value={confirmation}
+          onChangeText={setConfirmation}
+          placeholder="Confirm new password"
+          placeholderTextColor={colors.mutedText}
+          secureTextEntry
+          autoComplete="new-password"
+          textContentType="newPassword"
+          returnKeyType="done"
+          onSubmitEditing={handleSave}
+          accessibilityLabel="Confirm new password"
+        />
+
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.accent }, (isSaving || !!passwordProblem) && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={isSaving}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: isSaving || !!passwordProblem }}
+        >
+          {isSaving ? (
+            <ActivityIndicator color={colors.onAccent} />
+          ) : (
+            <ThemedText style={[styles.buttonText, { color: colors.onAccent }]}>Save Password</ThemedText>
+          )}
+        </TouchableOpacity>
+      </ThemedView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    lineHeight: 30,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 15,
+    marginBottom: 16,
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  button: {
+    marginTop: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
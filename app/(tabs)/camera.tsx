@@ -5,7 +5,6 @@ import { useIsFocused } from '@react-navigation/native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
 import * as MediaLibrary from 'expo-media-library';
-import * as Speech from 'expo-speech';
 import * as Haptics from 'expo-haptics';
 import { Ionicons } from '@expo/vector-icons';
 import { ThemedView } from '@/components/ThemedView';
@@ -13,6 +12,8 @@ import { ThemedText } from '@/components/ThemedText';
 import { CameraOverlay } from '@/src/components/camera/CameraOverlay';
 import { CameraControls } from '@/src/components/camera/CameraControls';
 import { ImagePreview } from '@/src/components/camera/ImagePreview';
+import { CaptureMode, CaptureModeSelector } from '@/src/components/camera/CaptureModeSelector';
+import { lookupProduct, PRODUCT_BARCODE_TYPES } from '@/services/products';
 import { processImageForAI, saveImageToGallery, getRecentPhotos } from '@/src/utils/imageProcessor';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
@@ -31,6 +32,9 @@ export default function CameraScreen() {
   // Camera states
   const [flashMode, setFlashMode] = useState<'on' | 'off' | 'auto'>('off');
   const [isCapturing, setIsCapturing] = useState(false);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('photo');
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+  const lastScannedBarcode = useRef<string | null>(null);
   
   // Image states
   const [capturedImage, setCapturedImage] = useState<{
@@ -212,10 +216,11 @@ export default function CameraScreen() {
       // Process the image for AI analysis
       const processedImageUri = await processImageForAI(capturedImage.uri);
       
-      // Navigate to results screen with the processed image URI
+      // Navigate to results screen with the processed image URI; label mode
+      // reads the nutrition facts table instead of estimating the food
       router.push({
         pathname: "/results",
-        params: { imageUri: processedImageUri }
+        params: { imageUri: processedImageUri, mode: captureMode }
       });
     } catch (error) {
       console.error("Error analyzing image:", error);
@@ -226,11 +231,54 @@ export default function CameraScreen() {
   
 
   
+  // Look up a scanned barcode; a known product skips the photo analysis entirely
+  const handleBarcodeScanned = async ({ data }: { data: string }) => {
+    // The scanner fires continuously while the code stays in view
+    if (isLookingUpBarcode || lastScannedBarcode.current === data) return;
+    lastScannedBarcode.current = data;
+    
+    try {
+      setIsLookingUpBarcode(true);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      
+      const product = await lookupProduct(data);
+      if (product) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        router.push({
+          pathname: "/results",
+          params: { barcode: data }
+        });
+        return;
+      }
+      
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      Alert.alert(
+        "Product Not Found",
+        "We couldn't find this barcode. Take a photo of the food instead.",
+        [{ text: "OK", onPress: () => setCaptureMode('photo') }]
+      );
+    } catch (error) {
+      console.error("Error looking up barcode:", error);
+      Alert.alert(
+        "Lookup Failed",
+        "We couldn't look up this product right now. Take a photo of the food instead.",
+        [{ text: "OK", onPress: () => setCaptureMode('photo') }]
+      );
+    } finally {
+      setIsLookingUpBarcode(false);
+    }
+  };
+  
+  // Allow the same code to be scanned again after switching modes or coming back to the tab
+  useEffect(() => {
+    lastScannedBarcode.current = null;
+  }, [captureMode, isFocused]);
+  
   // Render loading state while permissions are being checked
   if (hasCameraPermission === null) {
     return (
       <ThemedView style={styles.container}>
-        <ActivityIndicator size="large" color="#4A90E2" />
+        <ActivityIndicator size="large" color="#4A90E2" accessibilityLabel="Requesting camera permissions" />
         <ThemedText style={styles.permissionText}>Requesting camera permissions...</ThemedText>
       </ThemedView>
     );
@@ -246,6 +294,8 @@ export default function CameraScreen() {
         <TouchableOpacity 
           style={styles.permissionButton}
           onPress={requestPermission}
+          accessibilityRole="button"
+          accessibilityLabel="Grant camera permission"
         >
           <ThemedText style={styles.permissionButtonText}>Grant Permission</ThemedText>
         </TouchableOpacity>
@@ -274,10 +324,14 @@ export default function CameraScreen() {
         <CameraView
           ref={cameraRef}
           style={styles.camera}
+          accessible
+          accessibilityLabel={captureMode === 'barcode' ? 'Barcode scanner viewfinder' : 'Camera viewfinder'}
           facing="back"
           videoStabilizationMode="off"
           zoom={0}
           flash={flashMode}
+          barcodeScannerSettings={captureMode === 'barcode' ? { barcodeTypes: [...PRODUCT_BARCODE_TYPES] } : undefined}
+          onBarcodeScanned={captureMode === 'barcode' && !isLookingUpBarcode ? handleBarcodeScanned : undefined}
         />
       ) : (
         <View style={styles.camera} />
@@ -289,14 +343,42 @@ export default function CameraScreen() {
           {/* Camera overlay with guides */}
           <CameraOverlay showGuide={showGuide} />
           
-          {/* Camera controls */}
-          <CameraControls
-            onCapture={takePicture}
-            onFlashToggle={handleFlashToggle}
-            onGalleryOpen={handleGalleryOpen}
-            flashMode={flashMode}
-            isCapturing={isCapturing}
-          />
+          {/* Food photo, nutrition label or barcode capture */}
+          <CaptureModeSelector mode={captureMode} onModeChange={setCaptureMode} />
+          
+          {/* No photo to take: type or dictate the meal instead */}
+          <TouchableOpacity
+            style={styles.describeButton}
+            onPress={() => router.push('/describe')}
+            accessibilityRole="button"
+            accessibilityLabel="Describe your meal"
+            accessibilityHint="Log a meal by typing or dictating what you ate"
+          >
+            <Ionicons name="create-outline" size={18} color="#fff" />
+            <ThemedText style={styles.describeButtonText} maxFontSizeMultiplier={1.5}>Describe</ThemedText>
+          </TouchableOpacity>
+          
+          {captureMode === 'barcode' ? (
+            <View style={styles.barcodeHint} accessibilityLiveRegion="polite">
+              {isLookingUpBarcode ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Ionicons name="barcode-outline" size={28} color="#fff" />
+              )}
+              <ThemedText style={styles.barcodeHintText}>
+                {isLookingUpBarcode ? 'Looking up product...' : 'Point the camera at the barcode'}
+              </ThemedText>
+            </View>
+          ) : (
+            /* Camera controls */
+            <CameraControls
+              onCapture={takePicture}
+              onFlashToggle={handleFlashToggle}
+              onGalleryOpen={handleGalleryOpen}
+              flashMode={flashMode}
+              isCapturing={isCapturing}
+            />
+          )}
           
           {/* Grid toggle button removed */}
         </View>
@@ -330,6 +412,38 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  describeButton: {
+    position: 'absolute',
+    top: 110,
+    right: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  describeButtonText: {
+    color: '#fff',
+    marginLeft: 6,
+    fontSize: 14,
+  },
+  barcodeHint: {
+    position: 'absolute',
+    bottom: 60,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+  },
+  barcodeHintText: {
+    color: '#fff',
+    marginLeft: 8,
+    fontSize: 15,
+  },
   guideToggleButton: {
     position: 'absolute',
     top: 20,
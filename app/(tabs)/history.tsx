@@ -0,0 +1,222 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { DaySectionHeader } from '@/components/history/DaySectionHeader';
+import {
+  countActiveFilters,
+  HistoryFilterPanel,
+  HistoryFilters,
+  NO_HISTORY_FILTERS,
+} from '@/components/history/HistoryFilterPanel';
+import { MealHistoryRow } from '@/components/history/MealHistoryRow';
+import { PendingMealsBanner } from '@/components/meals/PendingMealsBanner';
+import { useCardColors } from '@/hooks/useCardColors';
+import { useMealHistory } from '@/hooks/useMealHistory';
+import { MealSearchFilters } from '@/services/meals';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, RefreshControl, SectionList, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function HistoryScreen() {
+  const colors = useCardColors();
+  const router = useRouter();
+  const [searchText, setSearchText] = useState('');
+  const [debouncedText, setDebouncedText] = useState('');
+  const [filters, setFilters] = useState<HistoryFilters>(NO_HISTORY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedText(searchText.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const searchFilters = useMemo<MealSearchFilters>(
+    () => ({
+      text: debouncedText || undefined,
+      fromDay: filters.fromDay,
+      toDay: filters.toDay,
+      mealTypes: filters.mealTypes,
+      minCalories: filters.minCalories,
+      maxCalories: filters.maxCalories,
+    }),
+    [debouncedText, filters]
+  );
+
+  const { days, timeZone, hasMore, isLoading, isLoadingMore, error, refresh, loadMore } = useMealHistory(searchFilters);
+  const sections = useMemo(() => days.map(day => ({ ...day, key: day.day, data: day.meals })), [days]);
+
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = activeFilterCount > 0 || !!debouncedText;
+
+  const emptyMessage = error
+    ? `${error}. Pull down to retry.`
+    : isFiltered
+      ? 'No meals match your search.'
+      : 'No meals yet. Meals you save will appear here.';
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.headerTitle} accessibilityRole="header">History</ThemedText>
+
+      <View style={styles.searchRow}>
+        <View style={[styles.searchField, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Ionicons name="search" size={18} color={colors.mutedText} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            value={searchText}
+            onChangeText={setSearchText}
+            placeholder="Search meals"
+            placeholderTextColor={colors.mutedText}
+            returnKeyType="search"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            accessibilityLabel="Search meals by name"
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.filterButton, { borderColor: activeFilterCount > 0 ? colors.accent : colors.border }]}
+          onPress={() => setShowFilters(shown => !shown)}
+          accessibilityRole="button"
+          accessibilityLabel={activeFilterCount > 0 ? `Filters, ${activeFilterCount} active` : 'Filters'}
+          accessibilityState={{ expanded: showFilters }}
+        >
+          <Ionicons name="options-outline" size={20} color={activeFilterCount > 0 ? colors.accent : colors.text} />
+          {activeFilterCount > 0 && (
+            <ThemedText style={[styles.filterCount, { color: colors.accent }]}>{activeFilterCount}</ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {showFilters && timeZone && (
+        <>
+          <HistoryFilterPanel filters={filters} timeZone={timeZone} onChange={setFilters} />
+          {activeFilterCount > 0 && (
+            <TouchableOpacity onPress={() => setFilters(NO_HISTORY_FILTERS)} style={styles.clearButton} accessibilityRole="button">
+              <ThemedText style={[styles.clearText, { color: colors.accent }]}>Clear filters</ThemedText>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={meal => meal.id}
+        renderItem={({ item }) => (
+          <MealHistoryRow
+            meal={item}
+            timeZone={timeZone as string}
+            onPress={meal => router.push({ pathname: '/meal/[id]', params: { id: meal.id } })}
+          />
+        )}
+        renderSectionHeader={({ section }) => (
+          <DaySectionHeader day={section.day} timeZone={timeZone as string} totals={section.totals} />
+        )}
+        stickySectionHeadersEnabled
+        ListHeaderComponent={<PendingMealsBanner />}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.loading} color={colors.accent} accessibilityLabel="Loading meals" />
+          ) : (
+            <ThemedText style={[styles.emptyText, { color: colors.secondaryText }]}>{emptyMessage}</ThemedText>
+          )
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <ActivityIndicator style={styles.footer} color={colors.accent} />
+          ) : error && days.length > 0 ? (
+            <TouchableOpacity style={styles.footer} onPress={loadMore} accessibilityRole="button">
+              <ThemedText style={[styles.emptyText, styles.footerText, { color: colors.secondaryText }]}>
+                Could not load more meals. Tap to retry.
+              </ThemedText>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.footer} />
+          )
+        }
+        onEndReached={() => {
+          if (hasMore) loadMore();
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={<RefreshControl refreshing={isLoading && days.length > 0} onRefresh={refresh} />}
+        keyboardDismissMode="on-drag"
+        contentContainerStyle={styles.listContent}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    lineHeight: 34,
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  searchField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    fontSize: 16,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+  },
+  filterCount: {
+    marginLeft: 4,
+    fontWeight: '600',
+  },
+  clearButton: {
+    alignSelf: 'flex-end',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  clearText: {
+    fontSize: 14,
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 40,
+    marginHorizontal: 32,
+  },
+  footer: {
+    height: 40,
+    marginVertical: 8,
+  },
+  footerText: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,118 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { DailyProgressCard } from '@/components/dashboard/DailyProgressCard';
+import { PendingMealsBanner } from '@/components/meals/PendingMealsBanner';
+import { useCardColors } from '@/hooks/useCardColors';
+import { useDailyProgress } from '@/hooks/useDailyProgress';
+import { startOfDay } from '@/services/timeZone';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import { ActivityIndicator, RefreshControl, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+export default function DashboardScreen() {
+  const { progress, isLoading, error, refresh } = useDailyProgress();
+  const router = useRouter();
+  const colors = useCardColors();
+
+  // Goals or the time zone may have changed in Profile since the tab was last shown
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const dateLabel = progress
+    ? startOfDay(progress.day, progress.timeZone).toLocaleDateString([], {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric',
+        timeZone: progress.timeZone,
+      })
+    : '';
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={isLoading && !!progress} onRefresh={refresh} />}
+      >
+        <ThemedText style={styles.headerTitle} accessibilityRole="header">Today</ThemedText>
+        {!!dateLabel && <ThemedText style={styles.date}>{dateLabel}</ThemedText>}
+
+        <PendingMealsBanner />
+
+        {progress ? (
+          <>
+            <DailyProgressCard progress={progress} />
+            <ThemedText style={[styles.hint, { color: colors.secondaryText }]}>
+              {progress.mealCount === 0
+                ? 'No meals logged yet today.'
+                : progress.mealCount === 1
+                  ? '1 meal logged today.'
+                  : `${progress.mealCount} meals logged today.`}
+            </ThemedText>
+            {!progress.hasCustomGoals && (
+              <TouchableOpacity onPress={() => router.push('/(tabs)/profile')} accessibilityRole="button">
+                <ThemedText style={[styles.hint, { color: colors.accent }]}>
+                  Using default goals. Set your own in Profile.
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.reportsLink}
+              onPress={() => router.push('/reports')}
+              accessibilityRole="button"
+              accessibilityHint="Opens weekly and monthly reports"
+            >
+              <ThemedText style={[styles.hint, { color: colors.accent }]}>See weekly and monthly reports</ThemedText>
+            </TouchableOpacity>
+          </>
+        ) : isLoading ? (
+          <ActivityIndicator style={styles.loading} color={colors.accent} accessibilityLabel="Loading today's meals" />
+        ) : (
+          <TouchableOpacity onPress={refresh} accessibilityRole="button" accessibilityLabel="Retry loading today's meals">
+            <ThemedText style={[styles.hint, { color: colors.secondaryText }]}>
+              {error || 'Could not load today\'s meals'}. Tap to retry.
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 100,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    lineHeight: 34,
+    alignSelf: 'flex-start',
+    marginHorizontal: '2.5%',
+  },
+  date: {
+    alignSelf: 'flex-start',
+    marginHorizontal: '2.5%',
+    marginTop: 4,
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  hint: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  reportsLink: {
+    marginTop: 8,
+  },
+});
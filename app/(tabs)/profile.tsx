@@ -0,0 +1,150 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { BodyMetricsCard } from '@/components/profile/BodyMetricsCard';
+import { BuildInfoCard } from '@/components/profile/BuildInfoCard';
+import { DailyGoalsCard } from '@/components/profile/DailyGoalsCard';
+import { GuestAccountCard } from '@/components/profile/GuestAccountCard';
+import { UsageSummaryCard } from '@/components/profile/UsageSummaryCard';
+import { WeightLogCard } from '@/components/profile/WeightLogCard';
+import { useAnalysisUsage } from '@/hooks/useAnalysisUsage';
+import { useProfile } from '@/hooks/useProfile';
+import { useWeightLog } from '@/hooks/useWeightLog';
+import { getAppConfig } from '@/services/config';
+import { getMealRepository } from '@/services/meals';
+import { recalculatedGoals } from '@/services/profile';
+import { useAuth } from '@/src/services/AuthContext';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+export default function ProfileScreen() {
+  const { status, user, signOut } = useAuth();
+  const { usage, isLoading, error, refresh } = useAnalysisUsage();
+  const { profile, isLoading: isProfileLoading, updateProfile } = useProfile();
+  const weightLog = useWeightLog();
+  const router = useRouter();
+  const config = getAppConfig();
+  const isGuest = status === 'guest';
+  const [guestMealCount, setGuestMealCount] = useState<number | null>(null);
+
+  // Analyses made since the tab was last shown should be reflected
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+      if (isGuest) {
+        getMealRepository()
+          .list()
+          .then(meals => setGuestMealCount(meals.length))
+          .catch(err => console.error('Error counting guest meals:', err));
+      }
+    }, [refresh, isGuest])
+  );
+
+  // Targets from the calculator follow the user's weight, after they confirm the new numbers
+  const handleLogWeight = async (weightKg: number) => {
+    const previousWeightKg = weightLog.entries[0]?.weightKg ?? null;
+    await weightLog.logWeight(weightKg);
+    if (!profile) return;
+
+    const goals = recalculatedGoals(profile.body, profile.goals, previousWeightKg, weightKg);
+    if (!goals) return;
+    Alert.alert(
+      'Update Your Targets?',
+      `At ${weightKg} kg your suggested targets are ${goals.calories} kcal, ${goals.protein} g protein, ` +
+        `${goals.carbs} g carbs and ${goals.fat} g fat.`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Update',
+          onPress: () =>
+            updateProfile({ goals }).catch(err => {
+              console.error('Error updating goals:', err);
+              Alert.alert('Goals Not Saved', 'There was a problem saving your goals. Please try again.');
+            }),
+        },
+      ]
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <ThemedText style={styles.headerTitle} accessibilityRole="header">Profile</ThemedText>
+        {user?.email && <ThemedText style={styles.email}>{user.email}</ThemedText>}
+
+        {isGuest && (
+          <GuestAccountCard mealCount={guestMealCount} onCreateAccount={() => router.push('/(auth)/email-sign-in')} />
+        )}
+
+        <DailyGoalsCard profile={profile} isLoading={isProfileLoading} onSave={updateProfile} />
+
+        <BodyMetricsCard
+          body={profile?.body ?? null}
+          weightKg={weightLog.entries[0]?.weightKg ?? null}
+          onSave={updateProfile}
+        />
+
+        <WeightLogCard
+          entries={weightLog.entries}
+          isLoading={weightLog.isLoading}
+          error={weightLog.error}
+          onRetry={weightLog.refresh}
+          onLog={handleLogWeight}
+          onDelete={weightLog.deleteWeight}
+        />
+
+        <UsageSummaryCard usage={usage} isLoading={isLoading} error={error} onRetry={refresh} />
+
+        {/* Store builds hide it; every other build shows which backend it talks to */}
+        {(__DEV__ || config.profile !== 'production') && <BuildInfoCard config={config} />}
+
+        <TouchableOpacity
+          style={styles.signOutButton}
+          onPress={signOut}
+          accessibilityRole="button"
+          accessibilityLabel={isGuest ? 'Leave guest mode' : 'Sign out'}
+        >
+          <ThemedText style={styles.signOutText}>{isGuest ? 'Leave Guest Mode' : 'Sign Out'}</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 100,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    lineHeight: 34,
+    alignSelf: 'flex-start',
+    marginHorizontal: '2.5%',
+  },
+  email: {
+    alignSelf: 'flex-start',
+    marginHorizontal: '2.5%',
+    marginTop: 4,
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+  signOutButton: {
+    width: '95%',
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#8E8E93',
+  },
+  signOutText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -3,48 +3,96 @@ import { useFonts } from 'expo-font';
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
-import { AuthProvider, useAuth } from '@/src/services/AuthContext';
-import { useEffect } from 'react';
+import { ConfigErrorScreen } from '@/components/config/ConfigErrorScreen';
+import { loadAppConfig } from '@/services/config';
+import { SessionExpiredModal } from '@/components/auth/SessionExpiredModal';
+import { UndoDeleteBar } from '@/components/meals/UndoDeleteBar';
+import { AuthProvider, AuthStatus, useAuth } from '@/src/services/AuthContext';
+import { setMealQueueOwner, startMealQueueSync } from '@/services/mealQueue';
+import { migrateGuestMeals, setGuestMode } from '@/services/meals';
+import { migrateGuestProfile, setProfileGuestMode } from '@/services/profile';
+import { useEffect, useRef } from 'react';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
 
+// Screens opened by emailed links; they sign the user in and then navigate themselves
+const AUTH_LINK_SCREENS = ['auth-callback', 'reset-password'];
+
 // This component handles redirecting users based on authentication state
 function RootLayoutNav() {
-  const { user, isLoading } = useAuth();
+  const { status, user } = useAuth();
   const segments = useSegments();
   const router = useRouter();
+  const previousStatus = useRef<AuthStatus>('loading');
+  // Read when the status changes; navigating on its own must not trigger a redirect
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
 
+  // Declared first so every effect below already reads and writes meals in the right place
+  const userId = user?.id ?? null;
   useEffect(() => {
-    // Skip navigation logic while auth is still loading
-    if (isLoading) {
-      console.log('Auth is still loading, skipping navigation logic');
-      return;
-    }
+    setGuestMode(status === 'guest');
+    setProfileGuestMode(status === 'guest');
+    setMealQueueOwner(userId ? { userId, isGuest: status === 'guest' } : null);
+  }, [status, userId]);
+
+  useEffect(() => {
+    const previous = previousStatus.current;
+    previousStatus.current = status;
 
-    const inAuthGroup = segments[0] === '(auth)';
-    console.log('Navigation check:', { 
-      user: user ? 'Logged in' : 'Not logged in', 
-      inAuthGroup, 
-      currentSegment: segments[0] 
-    });
+    // Only react to real transitions, including the first status after loading
+    if (status === previous || status === 'loading') return;
+    // An expired session is renewed in place by SessionExpiredModal, so the current screen
+    // and anything unsaved on it stay put
+    if (status === 'expired') return;
 
-    if (!user && !inAuthGroup) {
+    const [group, screen] = segmentsRef.current as string[];
+    const inAuthGroup = group === '(auth)';
+    const onAuthLinkScreen = inAuthGroup && AUTH_LINK_SCREENS.includes(screen);
+    console.log('Auth transition:', { from: previous, to: status, currentSegment: group });
+
+    if (status === 'signedOut' && !inAuthGroup) {
       // Redirect to login if not logged in and not already in auth group
-      console.log('Redirecting to login');
       router.replace('/(auth)/login');
-    } else if (user && inAuthGroup) {
+    } else if ((status === 'signedIn' || status === 'guest') && inAuthGroup && !onAuthLinkScreen) {
       // Redirect to tabs if logged in and in auth group
-      console.log('User is logged in, redirecting to tabs');
       router.replace('/(tabs)');
     }
-  }, [user, isLoading, segments, router]);
+
+    // Meals logged as a guest move to the account; the client ids make a retry after a
+    // failure or an interrupted launch skip the meals that already made it. The guest's
+    // goals, body metrics and weigh-ins follow.
+    if (status === 'signedIn') {
+      migrateGuestMeals()
+        .then(count => {
+          if (count > 0) console.log('Guest meals moved to the account:', count);
+        })
+        .catch(error => console.error('Error migrating guest meals:', error));
+      migrateGuestProfile().catch(error => console.error('Error migrating guest profile:', error));
+    }
+  }, [status, router]);
+
+  // Upload meals saved while offline once we have a session and connectivity;
+  // signing back in after an expired session flushes whatever was queued meanwhile,
+  // and a guest who signs up restarts the sync so the queue goes to the new account
+  const syncUserId = status === 'signedIn' || status === 'guest' ? user.id : null;
+  useEffect(() => {
+    if (!syncUserId) return;
+    return startMealQueueSync();
+  }, [syncUserId]);
 
   return (
-    <Stack>
-      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-      <Stack.Screen name="+not-found" />
-    </Stack>
+    <>
+      <Stack>
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+        <Stack.Screen name="meal/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="reports" options={{ headerShown: false }} />
+        <Stack.Screen name="+not-found" />
+      </Stack>
+      <UndoDeleteBar />
+      <SessionExpiredModal />
+    </>
   );
 }
 
@@ -59,6 +107,17 @@ export default function RootLayout() {
     return null;
   }
 
+  // Fail fast: without a valid configuration nothing else can work
+  const { error: configError } = loadAppConfig();
+  if (configError) {
+    return (
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <ConfigErrorScreen error={configError} />
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    );
+  }
+
   return (
     <AuthProvider>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
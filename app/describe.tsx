@@ -0,0 +1,230 @@
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useDictation } from '@/hooks/useDictation';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useRouter } from 'expo-router';
+import React, { useRef, useState } from 'react';
+import { KeyboardAvoidingView, Platform, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+const EXAMPLES = ['Two eggs and toast with butter', 'Chicken caesar salad', 'A large latte and a blueberry muffin'];
+
+// Log a meal without a photo by typing or dictating what was eaten
+export default function DescribeMealScreen() {
+  const [description, setDescription] = useState('');
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  // What was typed before dictation started; the transcript is added after it
+  const typedText = useRef('');
+  const dictation = useDictation(transcript => setDescription([typedText.current, transcript].filter(Boolean).join(' ')));
+
+  const canAnalyze = description.trim().length > 0;
+
+  const toggleDictation = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (dictation.isListening) {
+      dictation.stop();
+      return;
+    }
+    typedText.current = description.trim();
+    dictation.start();
+  };
+
+  const handleAnalyze = () => {
+    if (!canAnalyze) return;
+    if (dictation.isListening) dictation.stop();
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    // The results screen runs the text analysis and handles editing and saving
+    router.push({
+      pathname: '/results',
+      params: { description: description.trim() },
+    });
+  };
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle} accessibilityRole="header">Describe Your Meal</ThemedText>
+        <View style={styles.placeholderButton} />
+      </View>
+
+      <View style={styles.content}>
+        <ThemedText style={styles.hint}>
+          What did you eat? Include amounts when you know them.
+          {dictation.isAvailable ? ' Tap the microphone to say it instead.' : ''}
+        </ThemedText>
+
+        <View>
+          <TextInput
+            style={[styles.input, dictation.isAvailable && styles.inputWithDictation, { color: colors.text, borderColor: colors.icon }]}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="e.g. two eggs and toast with butter"
+            placeholderTextColor={colors.icon}
+            multiline
+            autoFocus
+            maxLength={500}
+            returnKeyType="done"
+            blurOnSubmit
+            onSubmitEditing={handleAnalyze}
+            accessibilityLabel="Meal description"
+            accessibilityHint="Type or dictate what you ate"
+          />
+          {dictation.isAvailable && (
+            <TouchableOpacity
+              style={[styles.dictationButton, dictation.isListening && styles.dictationButtonActive]}
+              onPress={toggleDictation}
+              accessibilityRole="button"
+              accessibilityLabel={dictation.isListening ? 'Stop dictating' : 'Dictate meal description'}
+              accessibilityState={{ busy: dictation.isListening }}
+            >
+              <Ionicons name={dictation.isListening ? 'stop' : 'mic-outline'} size={22} color={dictation.isListening ? 'white' : '#4A90E2'} />
+            </TouchableOpacity>
+          )}
+        </View>
+        {dictation.isListening && <ThemedText style={styles.dictationStatus}>Listening…</ThemedText>}
+        {dictation.error && <ThemedText style={styles.dictationError}>{dictation.error}</ThemedText>}
+
+        <View style={styles.examples}>
+          {EXAMPLES.map(example => (
+            <TouchableOpacity
+              key={example}
+              style={styles.exampleChip}
+              onPress={() => setDescription(example)}
+              accessibilityRole="button"
+              accessibilityLabel={`Use example: ${example}`}
+            >
+              <ThemedText style={styles.exampleText}>{example}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.analyzeButton, !canAnalyze && styles.analyzeButtonDisabled]}
+          onPress={handleAnalyze}
+          disabled={!canAnalyze}
+          accessibilityRole="button"
+          accessibilityLabel="Analyze meal"
+          accessibilityState={{ disabled: !canAnalyze }}
+        >
+          <Ionicons name="sparkles-outline" size={20} color="white" />
+          <ThemedText style={styles.analyzeButtonText}>Analyze Meal</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  placeholderButton: {
+    width: 40,
+    height: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  hint: {
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  input: {
+    minHeight: 120,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  inputWithDictation: {
+    paddingRight: 52,
+  },
+  dictationButton: {
+    position: 'absolute',
+    right: 8,
+    bottom: 8,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(74, 144, 226, 0.15)',
+  },
+  dictationButtonActive: {
+    backgroundColor: '#FF6B6B',
+  },
+  dictationStatus: {
+    fontSize: 14,
+    marginTop: 8,
+    opacity: 0.7,
+  },
+  dictationError: {
+    fontSize: 14,
+    marginTop: 8,
+    color: '#FF6B6B',
+  },
+  examples: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  exampleChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(142, 142, 147, 0.15)',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  exampleText: {
+    fontSize: 14,
+  },
+  analyzeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: '#4A90E2',
+  },
+  analyzeButtonDisabled: {
+    opacity: 0.5,
+  },
+  analyzeButtonText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 16,
+    marginLeft: 8,
+  },
+});
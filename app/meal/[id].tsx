@@ -0,0 +1,504 @@
+import { FoodAnalysisCard } from '@/components/food/FoodAnalysisCard';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useCardColors } from '@/hooks/useCardColors';
+import { FoodAnalysisResult } from '@/services/aiVisionService';
+import { AnalysisEdits, applyEdits, createInitialEdits, hasEdits, totalGrams } from '@/services/analysisEdits';
+import {
+  canReanalyzeMeal,
+  deleteMeal,
+  editedMealChanges,
+  getMealRepository,
+  Meal,
+  mealAsResult,
+  reanalyzeMeal,
+} from '@/services/meals';
+import { getUserTimeZone } from '@/services/profile';
+import { dayKey, timeOfDay, zonedTime } from '@/services/timeZone';
+import { AnalysisAuthError, AnalysisQuotaError, isAbortError } from '@/services/vision/errors';
+import { hasBlockingIssues } from '@/services/vision/validation';
+import { useAuth } from '@/src/services/AuthContext';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Image } from 'expo-image';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+// A saved meal: its photo, its numbers and when it was eaten, all editable, plus re-running
+// the AI and deleting it. Everything goes through the meal repository, so totals elsewhere follow.
+export default function MealDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const colors = useCardColors();
+  const { refreshSession } = useAuth();
+  const [meal, setMeal] = useState<Meal | null>(null);
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  // What the form edits: the saved meal, or a fresh AI analysis of it
+  const [base, setBase] = useState<FoodAnalysisResult | undefined>();
+  const [edits, setEdits] = useState<AnalysisEdits | undefined>();
+  const [isReanalysis, setIsReanalysis] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [dayText, setDayText] = useState('');
+  const [timeText, setTimeText] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+  const [isPhotoOpen, setIsPhotoOpen] = useState(false);
+  // Cancels a re-analysis still running when the user leaves
+  const requestController = useRef<AbortController | null>(null);
+
+  const resetForm = (loaded: Meal, zone: string) => {
+    const result = mealAsResult(loaded);
+    setBase(result);
+    setEdits(createInitialEdits(result));
+    setIsReanalysis(false);
+    setIsEditing(false);
+    setDayText(dayKey(loaded.mealTime, zone));
+    setTimeText(timeOfDay(loaded.mealTime, zone));
+  };
+
+  const load = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const [loaded, zone] = await Promise.all([getMealRepository().get(id), getUserTimeZone()]);
+      setMeal(loaded);
+      setTimeZone(zone);
+      if (loaded) {
+        resetForm(loaded, zone);
+      }
+    } catch (err: any) {
+      console.error('Error loading meal:', err);
+      setError(err?.message || 'Could not load this meal');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => () => requestController.current?.abort(), []);
+
+  const editedResult = useMemo(() => (base && edits ? applyEdits(base, edits) : base), [base, edits]);
+
+  // The time typed in, read in the user's time zone; null while it is not a whole date and time
+  const editedMealTime = useMemo(() => {
+    const match = TIME_PATTERN.exec(timeText.trim());
+    if (!timeZone || !DAY_PATTERN.test(dayText.trim()) || !match) return null;
+    const mealTime = zonedTime(dayText.trim(), Number(match[1]), Number(match[2]), timeZone);
+    return Number.isNaN(mealTime.getTime()) ? null : mealTime;
+  }, [dayText, timeText, timeZone]);
+
+  const isMealTimeChanged =
+    !!meal && !!timeZone && (dayText.trim() !== dayKey(meal.mealTime, timeZone) || timeText.trim() !== timeOfDay(meal.mealTime, timeZone));
+  const isChanged = isReanalysis || isMealTimeChanged || (!!base && !!edits && hasEdits(base, edits));
+
+  const runReanalysis = async () => {
+    if (!meal) return;
+    requestController.current?.abort();
+    requestController.current = new AbortController();
+    const { signal } = requestController.current;
+
+    try {
+      setIsAnalyzing(true);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      const result = await reanalyzeMeal(meal, { signal });
+      if (signal.aborted) return;
+      setBase(result);
+      setEdits(createInitialEdits(result));
+      setIsReanalysis(true);
+      setIsEditing(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.error('Error re-analyzing meal:', err);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      if (err instanceof AnalysisAuthError) {
+        refreshSession();
+      }
+      Alert.alert(
+        'Analysis Error',
+        err instanceof AnalysisQuotaError
+          ? 'You have used all your AI analyses for now. Your meal has not changed.'
+          : 'There was a problem analyzing this meal again. Your meal has not changed.'
+      );
+    } finally {
+      if (!signal.aborted) {
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  const handleReanalyze = () => {
+    Alert.alert(
+      'Re-analyze Meal',
+      meal?.source === 'text'
+        ? 'Run a fresh AI analysis of this meal from its name? Nothing is saved until you tap Save Changes.'
+        : 'Run a fresh AI analysis of this photo? Nothing is saved until you tap Save Changes.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Re-analyze', onPress: runReanalysis },
+      ]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!meal || !base || !edits || !editedResult) return;
+
+    if (isMealTimeChanged && !editedMealTime) {
+      Alert.alert('Check the Time', 'Enter the date as YYYY-MM-DD and the time as HH:MM, e.g. 2025-06-10 and 13:30.');
+      return;
+    }
+    if (isMealTimeChanged && editedMealTime && editedMealTime.getTime() > Date.now()) {
+      Alert.alert('Check the Time', 'A meal cannot be eaten in the future.');
+      return;
+    }
+    if (hasBlockingIssues(editedResult.issues)) {
+      Alert.alert('Error', 'This analysis is incomplete and cannot be saved. Please retry the analysis.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      // The typed time has no seconds, so an untouched meal time is left exactly as it was
+      await getMealRepository().update(meal.id, {
+        ...editedMealChanges(meal, base, edits, isReanalysis),
+        ...(isMealTimeChanged && editedMealTime ? { mealTime: editedMealTime.toISOString() } : {}),
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (err: any) {
+      console.error('Error updating meal:', err);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Not Saved', err?.message || 'There was a problem saving your changes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (meal && timeZone) {
+      resetForm(meal, timeZone);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!meal) return;
+    Alert.alert('Delete Meal', `Delete ${meal.name}? You can undo this for a few seconds.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            requestController.current?.abort();
+            await deleteMeal(meal);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            router.back();
+          } catch (err: any) {
+            console.error('Error deleting meal:', err);
+            Alert.alert('Not Deleted', err?.message || 'There was a problem deleting this meal. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const isBusy = isAnalyzing || isSaving;
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton} accessibilityRole="button" accessibilityLabel="Go back">
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle} accessibilityRole="header">Meal</ThemedText>
+        <View style={styles.headerActions}>
+          {meal && canReanalyzeMeal(meal) ? (
+            <TouchableOpacity
+              onPress={handleReanalyze}
+              disabled={isBusy}
+              style={styles.headerButton}
+              accessibilityRole="button"
+              accessibilityLabel="Re-analyze with AI"
+              accessibilityHint="Runs a fresh analysis you can review before saving"
+            >
+              <Ionicons name="sparkles-outline" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.placeholderButton} />
+          )}
+          {meal ? (
+            <TouchableOpacity
+              onPress={handleDelete}
+              disabled={isBusy}
+              style={styles.headerButton}
+              accessibilityRole="button"
+              accessibilityLabel="Delete meal"
+            >
+              <Ionicons name="trash-outline" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.placeholderButton} />
+          )}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color={colors.accent} accessibilityLabel="Loading meal" />
+      ) : !meal ? (
+        <TouchableOpacity onPress={error ? load : () => router.back()} accessibilityRole="button">
+          <ThemedText style={[styles.message, { color: colors.secondaryText }]}>
+            {error ? `${error}. Tap to retry.` : 'This meal no longer exists.'}
+          </ThemedText>
+        </TouchableOpacity>
+      ) : (
+        <ScrollView contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+          {meal.thumbnailUrl && (
+            <TouchableOpacity
+              style={styles.photoButton}
+              onPress={() => setIsPhotoOpen(true)}
+              accessibilityRole="imagebutton"
+              accessibilityLabel={`Photo of ${meal.name}`}
+              accessibilityHint="Opens the photo full screen"
+            >
+              <Image source={{ uri: meal.thumbnailUrl }} style={styles.photo} contentFit="cover" cachePolicy="memory-disk" />
+            </TouchableOpacity>
+          )}
+
+          {isReanalysis && !isAnalyzing && (
+            <View style={[styles.notice, { backgroundColor: colors.warningBackground }]} accessibilityRole="alert">
+              <Ionicons name="sparkles-outline" size={20} color={colors.warningText} />
+              <ThemedText style={[styles.noticeText, { color: colors.warningText }]}>
+                New AI estimate. Save to replace the numbers on record, or discard to keep them.
+              </ThemedText>
+            </View>
+          )}
+
+          <FoodAnalysisCard
+            result={editedResult}
+            isLoading={isAnalyzing}
+            edits={edits}
+            onEditsChange={setEdits}
+            estimatedGrams={base ? totalGrams(base) : 0}
+            isEditing={isEditing}
+            onEditingChange={setIsEditing}
+          />
+
+          <View style={[styles.card, { backgroundColor: colors.surface }]}>
+            <ThemedText style={styles.cardTitle} accessibilityRole="header">Eaten</ThemedText>
+            <View style={styles.timeRow}>
+              <TextInput
+                style={[styles.input, styles.dayInput, { color: colors.text, borderColor: colors.border }]}
+                value={dayText}
+                onChangeText={setDayText}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={colors.mutedText}
+                maxLength={10}
+                accessibilityLabel="Date eaten, year month day"
+              />
+              <TextInput
+                style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                value={timeText}
+                onChangeText={setTimeText}
+                placeholder="HH:MM"
+                placeholderTextColor={colors.mutedText}
+                maxLength={5}
+                accessibilityLabel="Time eaten, 24 hour clock"
+              />
+            </View>
+            <ThemedText style={[styles.hint, { color: colors.secondaryText }]}>{timeZone}</ThemedText>
+          </View>
+
+          {isChanged && (
+            <View style={styles.actionButtonsContainer}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.secondaryButton, { borderColor: colors.accent }]}
+                onPress={handleDiscard}
+                disabled={isBusy}
+                accessibilityRole="button"
+              >
+                <ThemedText style={[styles.actionButtonText, { color: colors.accent }]}>Discard</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: colors.accent }, isBusy && styles.disabledButton]}
+                onPress={handleSave}
+                disabled={isBusy}
+                accessibilityRole="button"
+                accessibilityLabel={isSaving ? 'Saving changes' : 'Save changes'}
+                accessibilityState={{ disabled: isBusy, busy: isSaving }}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color={colors.onAccent} />
+                ) : (
+                  <ThemedText style={[styles.actionButtonText, { color: colors.onAccent }]}>Save Changes</ThemedText>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      {meal?.thumbnailUrl && (
+        <Modal visible={isPhotoOpen} animationType="fade" onRequestClose={() => setIsPhotoOpen(false)}>
+          <TouchableOpacity
+            style={styles.photoViewer}
+            onPress={() => setIsPhotoOpen(false)}
+            accessibilityRole="button"
+            accessibilityLabel="Close photo"
+          >
+            <Image source={{ uri: meal.thumbnailUrl }} style={styles.fullPhoto} contentFit="contain" cachePolicy="memory-disk" />
+          </TouchableOpacity>
+        </Modal>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  placeholderButton: {
+    width: 40,
+    height: 40,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  message: {
+    textAlign: 'center',
+    marginTop: 40,
+    marginHorizontal: 32,
+  },
+  contentContainer: {
+    alignItems: 'center',
+    paddingBottom: 40,
+  },
+  photoButton: {
+    width: '95%',
+    marginBottom: 8,
+  },
+  photo: {
+    width: '100%',
+    height: 220,
+    borderRadius: 12,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '95%',
+    marginVertical: 8,
+    padding: 12,
+    borderRadius: 8,
+  },
+  noticeText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+  },
+  card: {
+    width: '95%',
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  dayInput: {
+    flex: 2,
+    marginRight: 8,
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  actionButtonsContainer: {
+    flexDirection: 'row',
+    width: '95%',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  photoViewer: {
+    flex: 1,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+  },
+  fullPhoto: {
+    width: '100%',
+    height: '100%',
+  },
+});
@@ -0,0 +1,213 @@
+import { CalorieTrendCard } from '@/components/reports/CalorieTrendCard';
+import { FrequentFoodsCard } from '@/components/reports/FrequentFoodsCard';
+import { MacroSplitCard } from '@/components/reports/MacroSplitCard';
+import { ReportAveragesCard } from '@/components/reports/ReportAveragesCard';
+import { StreaksCard } from '@/components/reports/StreaksCard';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useCardColors } from '@/hooks/useCardColors';
+import { useNutritionReport } from '@/hooks/useNutritionReport';
+import { formatPeriodLabel, ReportPeriodKind, shareReportImage, shareReportPdf } from '@/services/reports';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useRef, useState } from 'react';
+import { ActivityIndicator, Alert, RefreshControl, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+const PERIOD_KINDS: [ReportPeriodKind, string][] = [
+  ['week', 'Week'],
+  ['month', 'Month'],
+];
+
+// Weekly and monthly summaries of the saved meals, shareable as an image or a PDF
+export default function ReportsScreen() {
+  const router = useRouter();
+  const colors = useCardColors();
+  const [kind, setKind] = useState<ReportPeriodKind>('week');
+  // 0 is the current week or month, -1 the one before and so on
+  const [offset, setOffset] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const { report, isLoading, error, refresh } = useNutritionReport(kind, offset);
+  // The part of the screen captured for the image export
+  const reportRef = useRef<View>(null);
+
+  const selectKind = (next: ReportPeriodKind) => {
+    setKind(next);
+    setOffset(0);
+  };
+
+  const exportAs = async (format: 'image' | 'pdf') => {
+    if (!report) return;
+    setIsExporting(true);
+    try {
+      if (format === 'image') {
+        await shareReportImage(reportRef, report);
+      } else {
+        await shareReportPdf(report);
+      }
+    } catch (err: any) {
+      console.error('Error exporting report:', err);
+      Alert.alert('Not Exported', err?.message || 'There was a problem exporting this report. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleShare = () => {
+    Alert.alert('Share Report', 'Share this report with your dietitian or keep a copy.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Image', onPress: () => exportAs('image') },
+      { text: 'PDF', onPress: () => exportAs('pdf') },
+    ]);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton} accessibilityRole="button" accessibilityLabel="Go back">
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle} accessibilityRole="header">Reports</ThemedText>
+        <TouchableOpacity
+          onPress={handleShare}
+          disabled={!report || isExporting}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel="Share report"
+          accessibilityState={{ disabled: !report || isExporting, busy: isExporting }}
+        >
+          {isExporting ? (
+            <ActivityIndicator color={colors.accent} />
+          ) : (
+            <Ionicons name="share-outline" size={24} color={report ? colors.text : colors.mutedText} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.segments, { borderColor: colors.border }]} accessibilityRole="tablist">
+        {PERIOD_KINDS.map(([option, label]) => {
+          const isSelected = option === kind;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segment, isSelected && { backgroundColor: colors.accent }]}
+              onPress={() => selectKind(option)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <ThemedText style={[styles.segmentText, { color: isSelected ? colors.onAccent : colors.text }]}>{label}</ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.periodRow}>
+        <TouchableOpacity
+          onPress={() => setOffset(current => current - 1)}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel={kind === 'week' ? 'Previous week' : 'Previous month'}
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.periodLabel}>{report ? formatPeriodLabel(report.period) : ''}</ThemedText>
+        <TouchableOpacity
+          onPress={() => setOffset(current => Math.min(0, current + 1))}
+          disabled={offset === 0}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel={kind === 'week' ? 'Next week' : 'Next month'}
+          accessibilityState={{ disabled: offset === 0 }}
+        >
+          <Ionicons name="chevron-forward" size={22} color={offset === 0 ? colors.mutedText : colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={isLoading && !!report} onRefresh={refresh} />}
+      >
+        {report ? (
+          // Not collapsed away on Android, so it can be captured as an image
+          <View ref={reportRef} collapsable={false} style={[styles.report, { backgroundColor: colors.background }]}>
+            <ReportAveragesCard report={report} />
+            <CalorieTrendCard report={report} />
+            <StreaksCard streaks={report.streaks} isCurrentPeriod={offset === 0} />
+            <MacroSplitCard report={report} />
+            <FrequentFoodsCard foods={report.frequentFoods} />
+          </View>
+        ) : isLoading ? (
+          <ActivityIndicator style={styles.loading} color={colors.accent} accessibilityLabel="Loading report" />
+        ) : (
+          <TouchableOpacity onPress={refresh} accessibilityRole="button" accessibilityLabel="Retry loading report">
+            <ThemedText style={[styles.message, { color: colors.secondaryText }]}>
+              {error || 'Could not load your report'}. Tap to retry.
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  segments: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    marginTop: 4,
+  },
+  periodLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  contentContainer: {
+    paddingBottom: 40,
+  },
+  report: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  message: {
+    textAlign: 'center',
+    marginTop: 40,
+    marginHorizontal: 32,
+  },
+});
@@ -1,170 +1,330 @@
+import { DailyGoalPreview } from '@/components/food/DailyGoalPreview';
 import { FoodAnalysisCard } from '@/components/food/FoodAnalysisCard';
+import { ServingsSelector } from '@/components/food/ServingsSelector';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { analyzeFoodImage, FoodAnalysisResult } from '@/services/aiVisionService';
-import { supabase } from '@/services/db';
-import { uploadThumbnail } from '@/services/mealService';
-import { syncSupabaseAuth, useAuth } from '@/src/services/AuthContext';
+import { analyzeFoodImage, analyzeMealDescription, analyzeNutritionLabel, FoodAnalysisResult } from '@/services/aiVisionService';
+import { AnalysisEdits, applyEdits, createInitialEdits, hasEdits, portionFactor, totalGrams } from '@/services/analysisEdits';
+import {
+  AnalysisAuthError,
+  AnalysisNetworkError,
+  AnalysisQuotaError,
+  AnalysisRateLimitError,
+  AnalysisResponseError,
+  AnalysisValidationError,
+  isAbortError,
+} from '@/services/vision/errors';
+import { hasBlockingIssues } from '@/services/vision/validation';
+import { enqueueMeal } from '@/services/mealQueue';
+import { lookupProduct, productToAnalysis } from '@/services/products';
+import { useAuth } from '@/src/services/AuthContext';
+import { PendingMealsBanner } from '@/components/meals/PendingMealsBanner';
+import { QuotaReachedNotice } from '@/components/food/QuotaReachedNotice';
+import { buildSpokenSummary, getSpeakResultsEnabled, speakAnalysis, stopSpeaking } from '@/services/analysisSpeech';
+import { useSpeakResults } from '@/hooks/useSpeakResults';
+import { useCardColors } from '@/hooks/useCardColors';
+import { useDailyProgress } from '@/hooks/useDailyProgress';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
-import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AccessibilityInfo, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 
 export default function ResultsScreen() {
-  const { imageUri } = useLocalSearchParams<{ imageUri: string }>();
+  const { imageUri, mode, barcode, description } = useLocalSearchParams<{
+    imageUri?: string;
+    mode?: 'photo' | 'label';
+    barcode?: string;
+    description?: string;
+  }>();
   const [result, setResult] = useState<FoodAnalysisResult | undefined>();
+  const [productImageUrl, setProductImageUrl] = useState<string | undefined>();
+  const [edits, setEdits] = useState<AnalysisEdits | undefined>();
+  const [isEditing, setIsEditing] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | undefined>();
+  const [quotaError, setQuotaError] = useState<AnalysisQuotaError | undefined>();
   const [isSaving, setIsSaving] = useState<boolean>(false);
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
-  const { user } = useAuth();
+  const cardColors = useCardColors();
+  const { status, user, refreshSession } = useAuth();
+  const [speakResults, toggleSpeakResults] = useSpeakResults();
+  // Today's totals so far, for the "after this meal" preview
+  const { progress: dailyProgress } = useDailyProgress();
+  // Cancels the analysis or lookup in flight when the user leaves or starts another one
+  const requestController = useRef<AbortController | null>(null);
+
+  // The AI estimate with the user's corrections applied; this is what gets saved
+  const editedResult = useMemo(
+    () => (result && edits ? applyEdits(result, edits) : result),
+    [result, edits]
+  );
 
   useEffect(() => {
-    if (!imageUri) {
+    if (barcode) {
+      loadProduct();
+      return;
+    }
+
+    if (!imageUri && !description) {
       setError('No image provided');
       setIsLoading(false);
       return;
     }
 
-    // Analyze the food image
+    // Analyze the food image or description
     analyzeFood();
-  }, [imageUri]);
+  }, [imageUri, barcode, description]);
+
+  // Don't keep talking or analyzing after leaving the screen
+  useEffect(() => () => {
+    stopSpeaking();
+    requestController.current?.abort();
+  }, []);
+
+  // Abort whatever is still running and hand out a signal for the next request
+  const startRequest = (): AbortSignal => {
+    requestController.current?.abort();
+    requestController.current = new AbortController();
+    return requestController.current.signal;
+  };
+
+  // Read a finished analysis aloud when the user opted in; otherwise screen reader users
+  // still hear the summary as an announcement
+  const announceResult = async (analysisResult: FoodAnalysisResult) => {
+    if (await getSpeakResultsEnabled()) {
+      speakAnalysis(analysisResult);
+    } else {
+      AccessibilityInfo.announceForAccessibility(buildSpokenSummary(analysisResult));
+    }
+  };
+
+  // Show a scanned product straight from the product database, no AI involved
+  const loadProduct = async () => {
+    const signal = startRequest();
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      
+      const product = await lookupProduct(barcode as string, { signal });
+      if (signal.aborted) return;
+      if (!product) {
+        // Fall back to estimating the food from a photo
+        setError('This product was not found. Take a photo of the food instead.');
+        Alert.alert('Product Not Found', 'This product was not found. Take a photo of the food instead.', [
+          { text: 'Take Photo', onPress: () => router.replace('/(tabs)/camera') },
+        ]);
+        return;
+      }
+      
+      const productResult = productToAnalysis(product);
+      setResult(productResult);
+      setEdits(createInitialEdits(productResult));
+      setProductImageUrl(product.imageUrl);
+      setIsEditing(false);
+      announceResult(productResult);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Error looking up product:', err);
+      setError('There was a problem looking up this product. Please try again.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // A message that says what went wrong and what the user can do about it
+  const analysisErrorMessage = (err: unknown): string => {
+    if (err instanceof AnalysisValidationError) {
+      return description
+        ? 'The AI could not produce reliable nutrition numbers for this description. Please retry or add more detail.'
+        : 'The AI could not produce reliable nutrition numbers for this photo. Please retry or take a clearer picture.';
+    }
+    if (err instanceof AnalysisNetworkError) {
+      return err.timedOut
+        ? 'The analysis took too long to respond. Please try again.'
+        : 'Could not reach the analysis service. Check your internet connection and try again.';
+    }
+    if (err instanceof AnalysisRateLimitError) {
+      return 'The analysis service is busy right now. Please wait a moment and try again.';
+    }
+    if (err instanceof AnalysisAuthError) {
+      return 'Your session has expired. Sign in again, then retry; nothing on this screen is lost.';
+    }
+    if (err instanceof AnalysisResponseError) {
+      return 'The analysis service returned an unexpected response. Please try again.';
+    }
+    return 'There was a problem analyzing your food. Please try again.';
+  };
 
-  const analyzeFood = async () => {
+  const analyzeFood = async (forceRefresh: boolean = false) => {
+    const signal = startRequest();
     try {
       setIsLoading(true);
       setError(undefined);
+      setQuotaError(undefined);
       
       // Provide haptic feedback to indicate analysis has started
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       
-      // Call the AI Vision service
-      const analysisResult = await analyzeFoodImage(imageUri as string);
+      // Call the AI Vision service; label mode reads the printed nutrition facts instead
+      // and a typed or dictated meal is estimated from its description
+      let analysisResult: FoodAnalysisResult;
+      if (description) {
+        analysisResult = await analyzeMealDescription(description, { forceRefresh, signal });
+      } else {
+        const analyze = mode === 'label' ? analyzeNutritionLabel : analyzeFoodImage;
+        analysisResult = await analyze(imageUri as string, { forceRefresh, signal });
+      }
+      if (signal.aborted) return;
       
       // Update state with the result
       setResult(analysisResult);
+      setEdits(createInitialEdits(analysisResult));
+      setIsEditing(false);
+      announceResult(analysisResult);
       
       // Provide success haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (err) {
+      // Cancelled because the user left or started another analysis; nothing to show
+      if (signal.aborted || isAbortError(err)) return;
       console.error('Error analyzing food:', err);
-      setError('Failed to analyze the food image. Please try again.');
+      
+      // Try to renew the session; when that fails the app asks the user to sign in again
+      // on top of this screen, keeping the photo or description for the retry
+      if (err instanceof AnalysisAuthError) {
+        refreshSession();
+      }
+      
+      // Out of analyses: show the quota state instead of an error that invites retrying
+      if (err instanceof AnalysisQuotaError) {
+        setQuotaError(err);
+        setResult(undefined);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        return;
+      }
+      
+      const message = analysisErrorMessage(err);
+      setError(message);
       
       // Provide error haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       
-      Alert.alert(
-        'Analysis Error',
-        'There was a problem analyzing your food image. Please try again.',
-        [{ text: 'OK' }]
-      );
+      Alert.alert('Analysis Error', message, [{ text: 'OK' }]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
   const handleRetry = () => {
-    analyzeFood();
+    if (barcode) {
+      loadProduct();
+    } else {
+      analyzeFood();
+    }
+  };
+
+  // Bypass the analysis cache and ask the AI again, discarding any edits
+  const handleReanalyze = () => {
+    Alert.alert(
+      description ? 'Re-analyze Meal' : 'Re-analyze Photo',
+      `Run a fresh AI analysis of this ${description ? 'description' : 'photo'}? Any changes you made will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Re-analyze', onPress: () => analyzeFood(true) },
+      ]
+    );
   };
 
   const handleBack = () => {
+    requestController.current?.abort();
     router.back();
   };
 
-  const handleSaveMeal = async () => {
+  // Photo estimates the AI is unsure about need a human look before they are saved
+  const needsConfirmation = !!result && result.confidence === 'low' && !(edits && hasEdits(result, edits));
+
+  const handleSaveMeal = () => {
+    if (!needsConfirmation) {
+      saveMeal();
+      return;
+    }
+
+    Alert.alert(
+      'Check This Estimate',
+      'The AI is not very confident about these numbers. Please confirm they look right or edit them before saving.',
+      [
+        { text: 'Edit', onPress: () => setIsEditing(true) },
+        { text: 'Looks Right, Save', onPress: () => saveMeal() },
+      ]
+    );
+  };
+
+  const saveMeal = async () => {
     console.log('Starting meal save process');
-    if (!result || !imageUri || !user) {
-      console.log('Missing data:', { hasResult: !!result, hasImageUri: !!imageUri, hasUser: !!user });
+    if (!result || !editedResult || !(imageUri || barcode || description) || !user) {
+      console.log('Missing data:', { hasResult: !!editedResult, hasImageUri: !!imageUri, hasBarcode: !!barcode, hasDescription: !!description, hasUser: !!user });
       Alert.alert('Error', 'Missing data required to save meal');
       return;
     }
 
+    // Never persist an analysis that failed validation or an AI estimate without calories
+    // (a label or product may honestly say 0 kcal, e.g. a diet soda)
+    const isEstimate = editedResult.source === 'photo' || editedResult.source === 'text';
+    const missingCalories = isEstimate && editedResult.nutrients.calories <= 0;
+    if (hasBlockingIssues(editedResult.issues) || missingCalories) {
+      Alert.alert('Error', 'This analysis is incomplete and cannot be saved. Please retry the analysis.');
+      return;
+    }
+
     try {
       setIsSaving(true);
       
       // Provide haptic feedback
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       
-      // Ensure auth is synchronized
-      await syncSupabaseAuth();
-      
-      let thumbnailUrl = '';
-      
-      try {
-        // Upload thumbnail directly from URI
-        const fileUri = imageUri as string;
-        thumbnailUrl = await uploadThumbnail(fileUri);
-        console.log('Thumbnail uploaded successfully:', thumbnailUrl);
-      } catch (uploadError: any) {
-        console.error('Error uploading thumbnail:', uploadError);
-        // Continue with saving the meal even if thumbnail upload fails
-        // Just use a placeholder URL
-        thumbnailUrl = 'https://via.placeholder.com/300x200?text=Upload+Failed';
-      }
+      // Keep the original AI estimate next to the user's correction
+      const originalEstimate = edits && hasEdits(result, edits) ? result : null;
       
-      // Try direct SQL insertion to bypass schema cache issues
-      try {
-        // Get current user
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          throw new Error('User not authenticated');
-        }
-        
-        // Insert using raw SQL to avoid schema cache issues
-        console.log('Attempting RPC call with params:', {
-          p_name: result.name,
-          p_thumbnail_url: thumbnailUrl,
-          p_calories: result.calories || 0,
-          p_protein: result.protein || 0,
-          p_carbs: result.carbs || 0,
-          p_fat: result.fat || 0
-        });
-        
-        const { data, error } = await supabase.rpc('insert_meal', {
-          p_name: result.name,
-          p_thumbnail_url: thumbnailUrl,
-          p_calories: Math.round(Number(result.calories)) || 0,
-          p_protein: Math.round(Number(result.protein)) || 0,
-          p_carbs: Math.round(Number(result.carbs)) || 0,
-          p_fat: Math.round(Number(result.fat)) || 0
-        });
-        
-        if (error) throw error;
-        
-        console.log('Meal saved successfully via RPC:', data);
-      } catch (sqlError: any) {
-        console.error('Error with RPC insert:', sqlError);
-        
-        // Fallback to regular insert with all required fields
-        console.log('Attempting fallback insert with correct column names');
-        const { data, error } = await supabase
-          .from('meals')
-          .insert({
-            name: result.name,
-            user_id: user.id,
-            calories: Math.round(Number(result.calories)) || 0,
-            protein: Math.round(Number(result.protein)) || 0,
-            carbs: Math.round(Number(result.carbs)) || 0,
-            fat: Math.round(Number(result.fat)) || 0,
-            image_url: thumbnailUrl,
-            meal_time: new Date().toISOString()
-          })
-          .select();
-        
-        if (error) throw error;
-        console.log('Meal saved with fallback method:', data);
-      }
+      // Write to the local queue first so the meal survives being offline;
+      // the queue uploads the thumbnail and inserts the meal when it can.
+      // Scanned products use the database's product image and described meals have none.
+      const synced = await enqueueMeal(
+        {
+          name: editedResult.name,
+          source: editedResult.source,
+          nutrients: editedResult.nutrients,
+          items: editedResult.items,
+          originalEstimate,
+          portionFactor: edits ? portionFactor(result, edits.portion) : 1,
+          mealTime: new Date().toISOString(),
+        },
+        imageUri ?? null,
+        productImageUrl
+      );
       
       // Set saving state to false
       setIsSaving(false);
       
       // Success feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert('Success', 'Meal saved successfully');
+      if (synced && status === 'guest') {
+        Alert.alert('Saved on This Device', 'Create an account to keep your meals when you change phones.');
+      } else if (synced) {
+        Alert.alert('Success', 'Meal saved successfully');
+      } else if (status === 'expired') {
+        Alert.alert('Saved on This Device', 'Your meal will sync once you sign in again.');
+      } else {
+        Alert.alert('Saved Offline', 'Your meal was saved on this device and will sync when you are back online.');
+      }
       
       // Navigate to dashboard
       console.log('Navigating back to dashboard');
@@ -188,28 +348,96 @@ export default function ResultsScreen() {
     <View style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
-        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+        <TouchableOpacity
+          onPress={handleBack}
+          style={styles.backButton}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <ThemedText style={styles.headerTitle}>Food Analysis</ThemedText>
-        {error ? (
-          <TouchableOpacity onPress={handleRetry} style={styles.retryButton}>
-            <Ionicons name="refresh" size={24} color={colors.text} />
+        <ThemedText style={styles.headerTitle} accessibilityRole="header">Food Analysis</ThemedText>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={toggleSpeakResults}
+            style={styles.retryButton}
+            accessibilityRole="switch"
+            accessibilityLabel="Read results aloud"
+            accessibilityState={{ checked: speakResults }}
+          >
+            <Ionicons name={speakResults ? 'volume-high-outline' : 'volume-mute-outline'} size={24} color={colors.text} />
           </TouchableOpacity>
-        ) : (
-          <View style={styles.placeholderButton} />
-        )}
+          {error ? (
+            <TouchableOpacity
+              onPress={handleRetry}
+              style={styles.retryButton}
+              accessibilityRole="button"
+              accessibilityLabel="Retry analysis"
+            >
+              <Ionicons name="refresh" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ) : result && !barcode && !isLoading && !isSaving ? (
+            <TouchableOpacity
+              onPress={handleReanalyze}
+              style={styles.retryButton}
+              accessibilityRole="button"
+              accessibilityLabel="Re-analyze with AI"
+              accessibilityHint="Discards your changes and runs a fresh analysis"
+            >
+              <Ionicons name="sparkles-outline" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.placeholderButton} />
+          )}
+        </View>
       </View>
       
+      <PendingMealsBanner />
+      
       {/* Content */}
       <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
-        {imageUri ? (
+        {quotaError ? (
+          <QuotaReachedNotice
+            period={quotaError.period}
+            usage={quotaError.usage}
+            onScanBarcode={() => router.replace('/(tabs)/camera')}
+          />
+        ) : imageUri || barcode || description ? (
           <>
             <FoodAnalysisCard
-              result={result}
+              result={editedResult}
               isLoading={isLoading}
+              edits={edits}
+              onEditsChange={setEdits}
+              estimatedGrams={result ? totalGrams(result) : 0}
+              isEditing={isEditing}
+              onEditingChange={setIsEditing}
             />
             
+            {!isLoading && result?.serving && edits && (
+              <ServingsSelector
+                serving={result.serving}
+                servings={edits.portion.kind === 'multiplier' ? edits.portion.value : 1}
+                onChange={servings => setEdits({ ...edits, portion: { kind: 'multiplier', value: servings } })}
+              />
+            )}
+            
+            {!isLoading && editedResult && dailyProgress && (
+              <DailyGoalPreview progress={dailyProgress} mealCalories={editedResult.nutrients.calories} />
+            )}
+            
+            {!isLoading && needsConfirmation && (
+              <View
+                style={[styles.confirmationNotice, { backgroundColor: cardColors.warningBackground }]}
+                accessibilityRole="alert"
+              >
+                <Ionicons name="alert-circle-outline" size={20} color={cardColors.warningText} />
+                <ThemedText style={[styles.confirmationText, { color: cardColors.warningText }]}>
+                  Low confidence estimate. Please confirm or edit the values before saving.
+                </ThemedText>
+              </View>
+            )}
+            
             {/* Action buttons */}
             {!isLoading && result && (
               <View style={styles.actionButtonsContainer}>
@@ -217,6 +445,10 @@ export default function ResultsScreen() {
                   style={[styles.actionButton, styles.cancelButton]}
                   onPress={handleCancel}
                   disabled={isSaving}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel meal"
+                  accessibilityHint="Returns to the dashboard without saving"
+                  accessibilityState={{ disabled: isSaving }}
                 >
                   <ThemedText style={styles.cancelButtonText}>Cancel Meal</ThemedText>
                 </TouchableOpacity>
@@ -225,6 +457,9 @@ export default function ResultsScreen() {
                   style={[styles.actionButton, styles.saveButton]}
                   onPress={handleSaveMeal}
                   disabled={isSaving}
+                  accessibilityRole="button"
+                  accessibilityLabel={isSaving ? 'Saving meal' : 'Save meal'}
+                  accessibilityState={{ disabled: isSaving, busy: isSaving }}
                 >
                   {isSaving ? (
                     <ThemedText style={styles.saveButtonText}>Saving...</ThemedText>
@@ -237,7 +472,7 @@ export default function ResultsScreen() {
           </>
         ) : (
           <View style={styles.errorContainer}>
-            <Ionicons name="image-outline" size={64} color={colors.text} />
+            <Ionicons name="image-outline" size={64} color={colors.text} accessibilityElementsHidden importantForAccessibility="no" />
             <ThemedText style={styles.errorText}>No image available</ThemedText>
           </View>
         )}
@@ -265,6 +500,10 @@ const styles = StyleSheet.create({
   backButton: {
     padding: 8,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   retryButton: {
     padding: 8,
   },
@@ -290,6 +529,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'center',
   },
+  confirmationNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '90%',
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+  },
+  confirmationText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+  },
   actionButtonsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { View, Text, StyleSheet, Modal, TextInput, TouchableOpacity, ActivityIndicator, KeyboardAvoidingView, Platform } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { useAuth } from "@/src/services/AuthContext";
+
+type Method = "password" | "code";
+
+// Asks the user to sign back in over whatever screen they are on, so an unsaved
+// analysis or edit is still there afterwards. Shown while the auth status is "expired".
+export function SessionExpiredModal() {
+  const { status, user, signIn, sendSignInEmail, verifySignInCode, signOut } = useAuth();
+  const colors = useCardColors();
+  const [method, setMethod] = useState<Method>("password");
+  const [secret, setSecret] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | undefined>();
+
+  const email = user?.email ?? "";
+
+  const handleSubmit = async () => {
+    if (!secret) return;
+    setIsBusy(true);
+    setMessage(undefined);
+    const { error } = method === "password" ? await signIn(email, secret) : await verifySignInCode(email, secret);
+    setIsBusy(false);
+    if (error) {
+      setMessage(method === "password" ? "That password is not right." : "That code is wrong or has expired.");
+      return;
+    }
+    setSecret("");
+  };
+
+  const handleSendCode = async () => {
+    setIsBusy(true);
+    setMessage(undefined);
+    const { error } = await sendSignInEmail(email);
+    setIsBusy(false);
+    if (error) {
+      setMessage("The code could not be sent. Please try again.");
+      return;
+    }
+    setMethod("code");
+    setSecret("");
+    setMessage(`We sent a code to ${email}.`);
+  };
+
+  return (
+    <Modal visible={status === "expired"} transparent animationType="fade" onRequestClose={() => {}}>
+      <KeyboardAvoidingView style={styles.backdrop} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+        <View style={[styles.card, { backgroundColor: colors.surface }]} accessibilityViewIsModal>
+          <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Session expired</Text>
+          <Text style={[styles.body, { color: colors.secondaryText }]}>
+            Sign in again as {email} to continue. Anything you haven&apos;t saved stays where it is.
+          </Text>
+
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+            value={secret}
+            onChangeText={setSecret}
+            placeholder={method === "password" ? "Password" : "6-digit code"}
+            placeholderTextColor={colors.mutedText}
+            secureTextEntry={method === "password"}
+            keyboardType={method === "code" ? "number-pad" : "default"}
+            autoComplete={method === "password" ? "current-password" : "one-time-code"}
+            textContentType={method === "password" ? "password" : "oneTimeCode"}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleSubmit}
+            accessibilityLabel={method === "password" ? "Password" : "Sign-in code"}
+          />
+          {message && <Text style={[styles.message, { color: colors.secondaryText }]} accessibilityLiveRegion="polite">{message}</Text>}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.accent }, (isBusy || !secret) && styles.disabledButton]}
+            onPress={handleSubmit}
+            disabled={isBusy || !secret}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: isBusy || !secret }}
+          >
+            {isBusy ? (
+              <ActivityIndicator color={colors.onAccent} />
+            ) : (
+              <Text style={[styles.primaryButtonText, { color: colors.onAccent }]}>Sign In</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity onPress={handleSendCode} disabled={isBusy} style={styles.linkButton} accessibilityRole="button">
+            <Text style={[styles.linkText, { color: colors.accent }]}>
+              {method === "password" ? "Email me a code instead" : "Send a new code"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={signOut} disabled={isBusy} style={styles.linkButton} accessibilityRole="button">
+            <Text style={[styles.linkText, { color: colors.mutedText }]}>Sign out</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "center",
+    padding: 24,
+    backgroundColor: "rgba(0, 0, 0, 0.5)"
+  },
+  card: {
+    borderRadius: 12,
+    padding: 20
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 8
+  },
+  body: {
+    fontSize: 15,
+    lineHeight: 21,
+    marginBottom: 16
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16
+  },
+  message: {
+    fontSize: 14,
+    marginTop: 8
+  },
+  primaryButton: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: "center"
+  },
+  disabledButton: {
+    opacity: 0.6
+  },
+  primaryButtonText: {
+    fontWeight: "600",
+    fontSize: 16
+  },
+  linkButton: {
+    marginTop: 14,
+    alignItems: "center"
+  },
+  linkText: {
+    fontSize: 15
+  }
+});
@@ -0,0 +1,70 @@
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { ConfigError } from "@/services/config";
+
+interface Props {
+  error: ConfigError;
+}
+
+// Shown instead of the app when the build's configuration is incomplete, so a missing
+// environment variable is obvious at startup rather than a confusing failure later on
+export function ConfigErrorScreen({ error }: Props) {
+  const colors = useCardColors();
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: colors.background }}
+      contentContainerStyle={styles.container}
+    >
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">
+        The app is not configured
+      </Text>
+      <Text style={[styles.message, { color: colors.secondaryText }]}>
+        This build is missing settings it needs to start. Fix the following and rebuild:
+      </Text>
+      <View style={[styles.problems, { backgroundColor: colors.warningBackground }]}>
+        {error.problems.map(problem => (
+          <Text key={problem} style={[styles.problem, { color: colors.warningText }]}>
+            • {problem}
+          </Text>
+        ))}
+      </View>
+      <Text style={[styles.hint, { color: colors.mutedText }]}>
+        Values are read from the environment and from .env.&lt;profile&gt; when the app is started,
+        see app.config.js.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: "center",
+    padding: 24
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    marginBottom: 12
+  },
+  message: {
+    fontSize: 15,
+    lineHeight: 21,
+    marginBottom: 16
+  },
+  problems: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16
+  },
+  problem: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginVertical: 2
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18
+  }
+});
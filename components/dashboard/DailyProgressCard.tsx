@@ -0,0 +1,129 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { DailyProgress } from "@/hooks/useDailyProgress";
+import { CoreNutrientKey, NUTRIENTS } from "@/services/nutrients";
+import { ProgressRing } from "./ProgressRing";
+
+interface Props {
+  progress: DailyProgress;
+}
+
+const MACRO_COLORS: Record<Exclude<CoreNutrientKey, "calories">, string> = {
+  protein: "#4CD964",
+  carbs: "#F5A623",
+  fat: "#AF52DE",
+};
+
+const OVER_GOAL_COLOR = "#FF6B6B";
+
+function MacroRing({ nutrient, eaten, goal }: { nutrient: keyof typeof MACRO_COLORS; eaten: number; goal: number }) {
+  const colors = useCardColors();
+  const label = NUTRIENTS[nutrient].label;
+  const isOver = eaten > goal;
+
+  return (
+    <View style={styles.macro} accessible accessibilityLabel={`${label}: ${Math.round(eaten)} of ${goal} grams`}>
+      <ProgressRing
+        progress={goal > 0 ? eaten / goal : 0}
+        size={72}
+        thickness={8}
+        color={isOver ? OVER_GOAL_COLOR : MACRO_COLORS[nutrient]}
+        trackColor={colors.divider}
+      >
+        <Text style={[styles.macroValue, { color: colors.text }]}>{Math.round(eaten)}</Text>
+      </ProgressRing>
+      <Text style={[styles.macroLabel, { color: colors.text }]}>{label}</Text>
+      <Text style={[styles.macroGoal, { color: colors.secondaryText }]}>of {goal} g</Text>
+    </View>
+  );
+}
+
+// Today's calories and macros against the user's goals
+export function DailyProgressCard({ progress }: Props) {
+  const colors = useCardColors();
+  const { totals, goals } = progress;
+  const remaining = goals.calories - totals.calories;
+  const isOver = remaining < 0;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <View
+        style={styles.calories}
+        accessible
+        accessibilityLabel={
+          `Calories: ${totals.calories} of ${goals.calories}. ` +
+          (isOver ? `${-remaining} over your goal` : `${remaining} left`)
+        }
+      >
+        <ProgressRing
+          progress={goals.calories > 0 ? totals.calories / goals.calories : 0}
+          size={180}
+          thickness={16}
+          color={isOver ? OVER_GOAL_COLOR : colors.accent}
+          trackColor={colors.divider}
+        >
+          <Text style={[styles.caloriesValue, { color: colors.text }]}>{totals.calories}</Text>
+          <Text style={[styles.caloriesGoal, { color: colors.secondaryText }]}>of {goals.calories} kcal</Text>
+        </ProgressRing>
+        <Text style={[styles.remaining, { color: isOver ? OVER_GOAL_COLOR : colors.secondaryText }]}>
+          {isOver ? `${-remaining} kcal over your goal` : `${remaining} kcal left`}
+        </Text>
+      </View>
+
+      <View style={styles.macros}>
+        <MacroRing nutrient="protein" eaten={totals.protein} goal={goals.protein} />
+        <MacroRing nutrient="carbs" eaten={totals.carbs} goal={goals.carbs} />
+        <MacroRing nutrient="fat" eaten={totals.fat} goal={goals.fat} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  calories: {
+    alignItems: "center",
+    marginBottom: 20
+  },
+  caloriesValue: {
+    fontSize: 36,
+    fontWeight: "bold"
+  },
+  caloriesGoal: {
+    fontSize: 14
+  },
+  remaining: {
+    fontSize: 15,
+    fontWeight: "500",
+    marginTop: 12
+  },
+  macros: {
+    flexDirection: "row",
+    justifyContent: "space-around"
+  },
+  macro: {
+    alignItems: "center"
+  },
+  macroValue: {
+    fontSize: 18,
+    fontWeight: "600"
+  },
+  macroLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    marginTop: 6
+  },
+  macroGoal: {
+    fontSize: 12
+  }
+});
@@ -0,0 +1,57 @@
+import { ReactNode } from "react";
+import { View, StyleSheet } from "react-native";
+
+interface Props {
+  progress: number; // 0 to 1; anything above 1 draws a full ring
+  size: number;
+  thickness: number;
+  color: string;
+  trackColor: string;
+  children?: ReactNode; // Centered inside the ring
+}
+
+// A circular progress indicator drawn with plain views: each half of the ring is a
+// half-colored circle rotated into place and clipped to its side.
+export function ProgressRing({ progress, size, thickness, color, trackColor, children }: Props) {
+  const fraction = Math.max(0, Math.min(progress, 1));
+  const circle = {
+    width: size,
+    height: size,
+    borderRadius: size / 2,
+    borderWidth: thickness,
+  };
+  // Colored top and right borders make a half ring from 10:30 to 4:30; rotating it by 45°
+  // lines it up with the right half, and every further degree shows less of it
+  const halfRing = { ...circle, borderColor: "transparent", borderTopColor: color, borderRightColor: color };
+  const rightRotation = 45 - 180 + 360 * Math.min(fraction, 0.5);
+  const leftRotation = 45 + 360 * Math.max(fraction - 0.5, 0);
+
+  return (
+    <View style={{ width: size, height: size }}>
+      <View style={[StyleSheet.absoluteFill, circle, { borderColor: trackColor }]} />
+      {fraction > 0 && (
+        <View style={[styles.clip, { left: size / 2, width: size / 2, height: size }]}>
+          <View style={[halfRing, { marginLeft: -size / 2, transform: [{ rotate: `${rightRotation}deg` }] }]} />
+        </View>
+      )}
+      {fraction > 0.5 && (
+        <View style={[styles.clip, { left: 0, width: size / 2, height: size }]}>
+          <View style={[halfRing, { transform: [{ rotate: `${leftRotation}deg` }] }]} />
+        </View>
+      )}
+      <View style={[StyleSheet.absoluteFill, styles.center]}>{children}</View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  clip: {
+    position: "absolute",
+    top: 0,
+    overflow: "hidden"
+  },
+  center: {
+    alignItems: "center",
+    justifyContent: "center"
+  }
+});
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { AnalysisEdits, PORTION_MULTIPLIERS } from "@/services/analysisEdits";
+import { NUTRIENTS, NutrientKey, presentNutrientKeys } from "@/services/nutrients";
+import { useCardColors } from "@/hooks/useCardColors";
+
+interface Props {
+  edits: AnalysisEdits;
+  // Total weight of the AI estimate, used for custom gram portions. Without one (e.g. a described
+  // meal or a label without a serving weight) a weight cannot be turned into a portion, so it is not offered.
+  estimatedGrams: number;
+  onChange: (edits: AnalysisEdits) => void;
+  // Label analyses pick servings outside the form, so the portion controls can be hidden
+  showPortion?: boolean;
+}
+
+// Parse a user typed number, keeping the previous value when the input is not a valid amount
+function parseAmount(text: string, fallback: number): number {
+  const value = Number(text.replace(",", "."));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function AnalysisEditForm({ edits, estimatedGrams, onChange, showPortion = true }: Props) {
+  // Keep raw text while typing so partially typed numbers like "12." are not reformatted
+  const [nutrientText, setNutrientText] = useState<Partial<Record<NutrientKey, string>>>(() =>
+    Object.fromEntries(presentNutrientKeys(edits.nutrients).map(key => [key, String(edits.nutrients[key])]))
+  );
+  const [gramsText, setGramsText] = useState(
+    edits.portion.kind === "grams" ? String(edits.portion.grams) : ""
+  );
+  const colors = useCardColors();
+  const labelColor = { color: colors.secondaryText };
+  const inputColors = { color: colors.text, borderColor: colors.border };
+
+  const handleNutrientChange = (key: NutrientKey, text: string) => {
+    setNutrientText(prev => ({ ...prev, [key]: text }));
+    onChange({
+      ...edits,
+      nutrients: { ...edits.nutrients, [key]: parseAmount(text, edits.nutrients[key] as number) },
+    });
+  };
+
+  const handleMultiplier = (value: number) => {
+    setGramsText("");
+    onChange({ ...edits, portion: { kind: "multiplier", value } });
+  };
+
+  const handleGramsChange = (text: string) => {
+    setGramsText(text);
+    const grams = parseAmount(text, 0);
+    if (grams > 0) {
+      onChange({ ...edits, portion: { kind: "grams", grams } });
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, labelColor]}>Food name</Text>
+      <TextInput
+        style={[styles.input, inputColors]}
+        value={edits.name}
+        onChangeText={name => onChange({ ...edits, name })}
+        placeholder="Food name"
+        placeholderTextColor={colors.mutedText}
+        accessibilityLabel="Food name"
+      />
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]} accessibilityRole="header">{showPortion ? "Nutrition for 1× portion" : "Nutrition per serving"}</Text>
+      <View style={styles.nutrientGrid}>
+        {presentNutrientKeys(edits.nutrients).map(key => (
+          <View key={key} style={styles.nutrientField}>
+            <Text style={[styles.label, labelColor]}>{NUTRIENTS[key].label} ({NUTRIENTS[key].unit})</Text>
+            <TextInput
+              style={[styles.input, inputColors]}
+              value={nutrientText[key] ?? ""}
+              onChangeText={text => handleNutrientChange(key, text)}
+              keyboardType="decimal-pad"
+              accessibilityLabel={`${NUTRIENTS[key].label} in ${NUTRIENTS[key].unit}`}
+            />
+          </View>
+        ))}
+      </View>
+
+      {showPortion && (
+        <>
+          <Text style={[styles.sectionTitle, { color: colors.text }]} accessibilityRole="header">Portion</Text>
+          <View style={styles.portionRow}>
+            {PORTION_MULTIPLIERS.map(value => {
+              const isSelected = edits.portion.kind === "multiplier" && edits.portion.value === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.portionChip,
+                    { borderColor: colors.accent },
+                    isSelected && { backgroundColor: colors.accent },
+                  ]}
+                  onPress={() => handleMultiplier(value)}
+                  accessibilityRole="radio"
+                  accessibilityLabel={`${value} times the estimated portion`}
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text style={[styles.portionChipText, { color: isSelected ? colors.onAccent : colors.accent }]}>
+                    {value}×
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            {estimatedGrams > 0 && (
+              <TextInput
+                style={[
+                  styles.input,
+                  inputColors,
+                  styles.gramsInput,
+                  edits.portion.kind === "grams" && { borderColor: colors.accent },
+                ]}
+                value={gramsText}
+                onChangeText={handleGramsChange}
+                placeholder={`${Math.round(estimatedGrams)} g`}
+                placeholderTextColor={colors.mutedText}
+                keyboardType="decimal-pad"
+                accessibilityLabel="Portion weight in grams"
+              />
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%"
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 8
+  },
+  label: {
+    fontSize: 13,
+    marginBottom: 4
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16
+  },
+  nutrientGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between"
+  },
+  nutrientField: {
+    width: "48%",
+    marginBottom: 8
+  },
+  portionRow: {
+    flexDirection: "row",
+    alignItems: "center"
+  },
+  portionChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8
+  },
+  portionChipText: {
+    fontWeight: "600"
+  },
+  gramsInput: {
+    flex: 1
+  }
+});
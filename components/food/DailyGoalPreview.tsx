@@ -0,0 +1,57 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { DailyProgress } from "@/hooks/useDailyProgress";
+
+interface Props {
+  progress: DailyProgress;
+  mealCalories: number;
+}
+
+// Where today's calories end up if the meal on screen is saved
+export function DailyGoalPreview({ progress, mealCalories }: Props) {
+  const colors = useCardColors();
+  const after = Math.round(progress.totals.calories + mealCalories);
+  const goal = progress.goals.calories;
+  const isOver = after > goal;
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.surface }]}
+      accessible
+      accessibilityLabel={`After this meal you'll be at ${after} of ${goal} calories today`}
+    >
+      <Text style={[styles.text, { color: colors.text }]}>
+        After this meal you&apos;ll be at{" "}
+        <Text style={[styles.value, isOver && styles.overValue]}>{after}</Text> / {goal} kcal today
+      </Text>
+      {isOver && (
+        <Text style={[styles.detail, { color: colors.secondaryText }]}>{after - goal} kcal over your daily goal</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "95%",
+    alignSelf: "center",
+    padding: 12,
+    borderRadius: 8,
+    marginVertical: 8
+  },
+  text: {
+    fontSize: 15,
+    textAlign: "center"
+  },
+  value: {
+    fontWeight: "bold"
+  },
+  overValue: {
+    color: "#FF6B6B"
+  },
+  detail: {
+    fontSize: 13,
+    marginTop: 4,
+    textAlign: "center"
+  }
+});
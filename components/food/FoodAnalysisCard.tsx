@@ -1,49 +1,221 @@
-import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
-import { FoodAnalysisResult } from "@/services/aiVisionService";
-import { ThemedText } from "@/components/ThemedText";
+import { useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, useWindowDimensions } from "react-native";
+import { ConfidenceLevel, FoodAnalysisResult } from "@/services/aiVisionService";
+import {
+  CORE_NUTRIENT_KEYS,
+  CoreNutrientKey,
+  DETAIL_NUTRIENT_KEYS,
+  formatNutrient,
+  NUTRIENTS,
+  ValueRange,
+} from "@/services/nutrients";
+import { AnalysisEdits } from "@/services/analysisEdits";
+import { AnalysisEditForm } from "@/components/food/AnalysisEditForm";
+import { useCardColors } from "@/hooks/useCardColors";
 
 interface Props { 
   result?: FoodAnalysisResult | null;
   isLoading?: boolean;
+  // Editing is enabled when both edits and onEditsChange are provided
+  edits?: AnalysisEdits;
+  onEditsChange?: (edits: AnalysisEdits) => void;
+  estimatedGrams?: number;
+  // Optional control of the edit mode, e.g. to open it from a confirmation prompt
+  isEditing?: boolean;
+  onEditingChange?: (isEditing: boolean) => void;
 }
 
-export function FoodAnalysisCard({ result, isLoading = false }: Props) {
+const MACRO_DISPLAY: Record<CoreNutrientKey, { label: string; unit: string }> = {
+  calories: { label: "calories", unit: "" },
+  protein: { label: "protein", unit: "g" },
+  carbs: { label: "carbs", unit: "g" },
+  fat: { label: "fat", unit: "g" },
+};
+
+const CONFIDENCE_DISPLAY: Record<ConfidenceLevel, { label: string; color: string }> = {
+  low: { label: "Low confidence", color: "#FF6B6B" },
+  medium: { label: "Medium confidence", color: "#F5A623" },
+  high: { label: "High confidence", color: "#4CD964" },
+};
+
+const SOURCE_DISPLAY = {
+  label: "From nutrition label",
+  barcode: "From product database",
+};
+
+// Above this system font scale the macros wrap into two rows instead of squeezing into one
+const LARGE_TEXT_SCALE = 1.3;
+
+// e.g. "430–610"; a collapsed range (a user entered value) is not shown
+export function formatRange(range: ValueRange, unit: string = ""): string | null {
+  if (range.low === range.high) {
+    return null;
+  }
+  return `${range.low}–${range.high}${unit}`;
+}
+
+// Screen readers would read "430–610" as a single number, so ranges are spelled out
+function rangeLabel(range: ValueRange | undefined, unit: string): string {
+  return range && range.low !== range.high ? `, estimated between ${range.low} and ${range.high} ${unit}` : "";
+}
+
+export function FoodAnalysisCard({
+  result,
+  isLoading = false,
+  edits,
+  onEditsChange,
+  estimatedGrams = 0,
+  isEditing: isEditingProp,
+  onEditingChange,
+}: Props) {
+  const [internalEditing, setInternalEditing] = useState(false);
+  const isEditing = isEditingProp ?? internalEditing;
+  const setIsEditing = onEditingChange ?? setInternalEditing;
+  const canEdit = !!edits && !!onEditsChange;
+  const detailKeys = result ? DETAIL_NUTRIENT_KEYS.filter(key => result.nutrients[key] !== undefined) : [];
+  const colors = useCardColors();
+  const { fontScale } = useWindowDimensions();
+  const isLargeText = fontScale >= LARGE_TEXT_SCALE;
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const dividerColor = { borderTopColor: colors.divider };
+
   return (
-    <View style={styles.card}>
-      <Text style={styles.title}>Food Analysis</Text>
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <View style={styles.titleRow}>
+        <Text style={[styles.title, textColor]} accessibilityRole="header">Food Analysis</Text>
+        {canEdit && result && !isLoading && (
+          <TouchableOpacity
+            onPress={() => setIsEditing(!isEditing)}
+            style={styles.editButton}
+            accessibilityRole="button"
+            accessibilityLabel={isEditing ? "Done editing" : "Edit analysis"}
+            accessibilityHint={isEditing ? undefined : "Correct the name, nutrients or portion"}
+          >
+            <Text style={[styles.editButtonText, { color: colors.accent }]}>{isEditing ? "Done" : "Edit"}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
       
       {isLoading ? (
-        <ActivityIndicator size="large" color="#4A90E2" />
+        <ActivityIndicator size="large" color={colors.accent} accessibilityLabel="Analyzing food" />
       ) : result ? (
         <View style={styles.resultContainer}>
-          <Text style={styles.foodName}>{result.name}</Text>
+          {!isEditing && <Text style={[styles.foodName, textColor]} accessibilityRole="header">{result.name}</Text>}
           
-          <View style={styles.macrosContainer}>
-            <View style={styles.macroItem}>
-              <Text style={styles.macroValue}>{result.calories}</Text>
-              <Text style={styles.macroLabel}>calories</Text>
-            </View>
-            
-            <View style={styles.macroItem}>
-              <Text style={styles.macroValue}>{result.protein}g</Text>
-              <Text style={styles.macroLabel}>protein</Text>
+          {result.serving && (
+            <Text style={[styles.servingText, secondaryColor]}>
+              {SOURCE_DISPLAY[result.source === "barcode" ? "barcode" : "label"]} · 1 serving = {result.serving.size}
+            </Text>
+          )}
+          
+          <View style={[styles.confidenceBadge, { borderColor: CONFIDENCE_DISPLAY[result.confidence].color }]}>
+            <Text style={[styles.confidenceText, { color: CONFIDENCE_DISPLAY[result.confidence].color }]}>
+              {CONFIDENCE_DISPLAY[result.confidence].label}
+            </Text>
+          </View>
+          
+          <View style={[styles.macrosContainer, isLargeText && styles.macrosContainerWrapped]}>
+            {CORE_NUTRIENT_KEYS.map(key => {
+              const { label, unit } = MACRO_DISPLAY[key];
+              const range = formatRange(result.ranges[key]);
+              const spokenUnit = key === "calories" ? "" : "grams";
+              return (
+                <View
+                  key={key}
+                  style={[styles.macroItem, isLargeText && styles.macroItemWrapped]}
+                  accessible
+                  accessibilityLabel={`${label} ${result.nutrients[key]} ${spokenUnit}${rangeLabel(result.ranges[key], spokenUnit)}`}
+                >
+                  <Text style={[styles.macroValue, { color: colors.accent }]}>{result.nutrients[key]}{unit}</Text>
+                  {range && <Text style={[styles.macroRange, { color: colors.mutedText }]}>({range})</Text>}
+                  <Text style={[styles.macroLabel, secondaryColor]}>{label}</Text>
+                </View>
+              );
+            })}
+          </View>
+          
+          {!isEditing && detailKeys.length > 0 && (
+            <View style={[styles.detailsContainer, dividerColor]}>
+              <Text style={[styles.itemsTitle, textColor]} accessibilityRole="header">Nutrition details</Text>
+              {detailKeys.map(key => {
+                const range = result.ranges[key] ? formatRange(result.ranges[key] as ValueRange, ` ${NUTRIENTS[key].unit}`) : null;
+                return (
+                  <View
+                    key={key}
+                    style={styles.detailRow}
+                    accessible
+                    accessibilityLabel={`${NUTRIENTS[key].label} ${formatNutrient(key, result.nutrients[key] as number)}${rangeLabel(result.ranges[key], NUTRIENTS[key].unit)}`}
+                  >
+                    <Text style={[styles.detailLabel, textColor]}>{NUTRIENTS[key].label}</Text>
+                    <Text style={[styles.detailValue, textColor]}>
+                      {formatNutrient(key, result.nutrients[key] as number)}
+                      {range ? ` (${range})` : ""}
+                    </Text>
+                  </View>
+                );
+              })}
             </View>
-            
-            <View style={styles.macroItem}>
-              <Text style={styles.macroValue}>{result.carbs}g</Text>
-              <Text style={styles.macroLabel}>carbs</Text>
+          )}
+          
+          {isEditing && edits && onEditsChange && (
+            <AnalysisEditForm
+              edits={edits}
+              estimatedGrams={estimatedGrams}
+              onChange={onEditsChange}
+              showPortion={!result.serving}
+            />
+          )}
+          
+          {!isEditing && result.items.length > 0 && (
+            <View style={[styles.itemsContainer, dividerColor]}>
+              <Text style={[styles.itemsTitle, textColor]} accessibilityRole="header">Detected items</Text>
+              {result.items.map((item, index) => (
+                <View
+                  key={`${item.name}-${index}`}
+                  style={[styles.itemRow, isLargeText && styles.itemRowStacked]}
+                  accessible
+                  accessibilityLabel={
+                    `${item.name}, ${item.portion}, ${item.nutrients.calories} calories${rangeLabel(item.ranges.calories, "")}, ` +
+                    `${item.nutrients.protein} grams protein, ${item.nutrients.carbs} grams carbs, ${item.nutrients.fat} grams fat`
+                  }
+                >
+                  <View style={styles.itemInfo}>
+                    <Text style={[styles.itemName, textColor]}>{item.name}</Text>
+                    <Text style={[styles.itemPortion, secondaryColor]}>{item.portion}</Text>
+                  </View>
+                  <View style={[styles.itemMacros, isLargeText && styles.itemMacrosStacked]}>
+                    <Text style={[styles.itemCalories, { color: colors.accent }]}>
+                      {item.nutrients.calories} kcal
+                      {formatRange(item.ranges.calories) ? ` (${formatRange(item.ranges.calories)})` : ""}
+                    </Text>
+                    <Text style={[styles.itemMacroText, secondaryColor]}>
+                      P {item.nutrients.protein}g · C {item.nutrients.carbs}g · F {item.nutrients.fat}g
+                    </Text>
+                  </View>
+                </View>
+              ))}
             </View>
-            
-            <View style={styles.macroItem}>
-              <Text style={styles.macroValue}>{result.fat}g</Text>
-              <Text style={styles.macroLabel}>fat</Text>
+          )}
+          
+          {result.issues.length > 0 && (
+            <View style={[styles.issuesContainer, { backgroundColor: colors.warningBackground }]} accessibilityRole="alert">
+              {result.issues.map((issue, index) => (
+                <Text
+                  key={`${issue.path}-${index}`}
+                  style={[styles.issueText, { color: colors.warningText }]}
+                  accessibilityLabel={`Warning: ${issue.message}`}
+                >
+                  ⚠ {issue.message}
+                </Text>
+              ))}
             </View>
-          </View>
+          )}
           
-          <Text style={styles.description}>{result.description}</Text>
+          <Text style={[styles.description, textColor, dividerColor]}>{result.description}</Text>
         </View>
       ) : (
-        <Text style={styles.error}>No analysis available</Text>
+        <Text style={styles.error} accessibilityRole="alert">No analysis available</Text>
       )}
     </View>
   );
@@ -53,7 +225,6 @@ const styles = StyleSheet.create({
   card: { 
     padding: 16, 
     borderRadius: 12, 
-    backgroundColor: "#fff", 
     width: "95%",
     shadowColor: "#000",
     shadowOffset: { width: 0, height: 2 },
@@ -62,12 +233,27 @@ const styles = StyleSheet.create({
     elevation: 3,
     marginVertical: 8
   },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 16
+  },
   title: { 
     fontSize: 20, 
     fontWeight: "700", 
-    marginBottom: 16,
     textAlign: "center"
   },
+  editButton: {
+    position: "absolute",
+    right: 0,
+    paddingVertical: 4,
+    paddingHorizontal: 8
+  },
+  editButtonText: {
+    fontSize: 16,
+    fontWeight: "600"
+  },
   resultContainer: {
     width: "100%"
   },
@@ -83,28 +269,126 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     paddingHorizontal: 8
   },
+  macrosContainerWrapped: {
+    flexWrap: "wrap"
+  },
   macroItem: {
     alignItems: "center",
     flex: 1
   },
+  macroItemWrapped: {
+    flex: 0,
+    width: "50%",
+    marginBottom: 8
+  },
   macroValue: {
     fontSize: 18,
-    fontWeight: "700",
-    color: "#4A90E2"
+    fontWeight: "700"
+  },
+  macroRange: {
+    fontSize: 12,
+    marginTop: 2
+  },
+  servingText: {
+    fontSize: 13,
+    textAlign: "center",
+    marginTop: -8,
+    marginBottom: 12
+  },
+  confidenceBadge: {
+    alignSelf: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 2,
+    paddingHorizontal: 10,
+    marginBottom: 12
+  },
+  confidenceText: {
+    fontSize: 12,
+    fontWeight: "600"
   },
   macroLabel: {
     fontSize: 14,
-    color: "#666",
     marginTop: 4
   },
+  detailsContainer: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginBottom: 12
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 3
+  },
+  detailLabel: {
+    fontSize: 14
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: "500"
+  },
+  itemsContainer: {
+    borderTopWidth: 1,
+    paddingTop: 12
+  },
+  itemsTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  itemRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 6
+  },
+  itemRowStacked: {
+    flexDirection: "column",
+    alignItems: "flex-start"
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: "500"
+  },
+  itemPortion: {
+    fontSize: 13,
+    marginTop: 2
+  },
+  itemMacros: {
+    alignItems: "flex-end"
+  },
+  itemMacrosStacked: {
+    alignItems: "flex-start",
+    marginTop: 4
+  },
+  itemCalories: {
+    fontSize: 15,
+    fontWeight: "600"
+  },
+  itemMacroText: {
+    fontSize: 12,
+    marginTop: 2
+  },
+  issuesContainer: {
+    marginTop: 12,
+    padding: 8,
+    borderRadius: 8
+  },
+  issueText: {
+    fontSize: 13,
+    marginVertical: 2
+  },
   description: { 
     fontSize: 16, 
     lineHeight: 22,
-    color: "#333",
     marginTop: 16,
     paddingTop: 16,
-    borderTopWidth: 1,
-    borderTopColor: "#eee"
+    borderTopWidth: 1
   },
   error: { 
     fontSize: 16, 
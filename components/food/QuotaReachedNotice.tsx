@@ -0,0 +1,75 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useCardColors } from "@/hooks/useCardColors";
+import { UsagePeriod, UsageSummary } from "@/services/vision/usage";
+
+interface Props {
+  period: UsagePeriod;
+  usage: UsageSummary;
+  onScanBarcode?: () => void;
+}
+
+// Shown instead of an analysis when the user has no AI analyses left
+export function QuotaReachedNotice({ period, usage, onScanBarcode }: Props) {
+  const colors = useCardColors();
+  const summary = usage[period];
+  const resetsAt = new Date(summary.resetsAt);
+  const resetText = period === "day"
+    ? `at ${resetsAt.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`
+    : `on ${resetsAt.toLocaleDateString([], { month: "long", day: "numeric" })}`;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]} accessibilityRole="alert">
+      <Ionicons name="hourglass-outline" size={48} color={colors.warningText} />
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">
+        {period === "day" ? "Daily" : "Monthly"} analysis limit reached
+      </Text>
+      <Text style={[styles.message, { color: colors.secondaryText }]}>
+        You have used {summary.analyses} of {summary.limit} AI analyses {period === "day" ? "today" : "this month"}.
+        Your quota resets {resetText}.
+      </Text>
+      {onScanBarcode && (
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.accent }]}
+          onPress={onScanBarcode}
+          accessibilityRole="button"
+          accessibilityLabel="Scan a barcode instead"
+          accessibilityHint="Barcode lookups don't count towards the limit"
+        >
+          <Text style={[styles.buttonText, { color: colors.onAccent }]}>Scan a Barcode Instead</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    alignItems: "center",
+    padding: 24,
+    borderRadius: 12,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    textAlign: "center",
+    marginTop: 12
+  },
+  message: {
+    fontSize: 15,
+    textAlign: "center",
+    marginTop: 8
+  },
+  button: {
+    marginTop: 20,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600"
+  }
+});
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { ServingInfo } from "@/services/aiVisionService";
+import { useCardColors } from "@/hooks/useCardColors";
+
+interface Props {
+  serving: ServingInfo;
+  servings: number;
+  onChange: (servings: number) => void;
+}
+
+const SERVING_OPTIONS = [0.5, 1, 1.5, 2, 3];
+
+// Pick how many label servings were eaten; every nutrient is multiplied by this
+export function ServingsSelector({ serving, servings, onChange }: Props) {
+  const [customText, setCustomText] = useState(
+    SERVING_OPTIONS.includes(servings) ? "" : String(servings)
+  );
+  const colors = useCardColors();
+
+  const handleCustomChange = (text: string) => {
+    setCustomText(text);
+    const value = Number(text.replace(",", "."));
+    if (Number.isFinite(value) && value > 0) {
+      onChange(value);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">How many servings did you eat?</Text>
+      <Text style={[styles.subtitle, { color: colors.secondaryText }]}>
+        1 serving = {serving.size}
+        {serving.servingsPerContainer ? ` · ${serving.servingsPerContainer} per container` : ""}
+      </Text>
+      <View style={styles.optionsRow}>
+        {SERVING_OPTIONS.map(option => {
+          const isSelected = !customText && servings === option;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, { borderColor: colors.accent }, isSelected && { backgroundColor: colors.accent }]}
+              onPress={() => {
+                setCustomText("");
+                onChange(option);
+              }}
+              accessibilityRole="radio"
+              accessibilityLabel={`${option} ${option === 1 ? "serving" : "servings"}`}
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Text style={[styles.optionText, { color: isSelected ? colors.onAccent : colors.accent }]}>{option}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TextInput
+          style={[
+            styles.customInput,
+            { color: colors.text, borderColor: customText ? colors.accent : colors.border },
+          ]}
+          value={customText}
+          onChangeText={handleCustomChange}
+          placeholder="Other"
+          placeholderTextColor={colors.mutedText}
+          keyboardType="decimal-pad"
+          accessibilityLabel="Other number of servings"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600"
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12
+  },
+  optionsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap"
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8
+  },
+  optionText: {
+    fontWeight: "600"
+  },
+  customInput: {
+    flex: 1,
+    minWidth: 64,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginBottom: 8,
+    fontSize: 15
+  }
+});
@@ -0,0 +1,64 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { MealDayTotals } from "@/services/meals";
+import { addDays, startOfDay, todayKey } from "@/services/timeZone";
+
+interface Props {
+  day: string;
+  timeZone: string;
+  totals: MealDayTotals | null;
+}
+
+export function formatDayLabel(day: string, timeZone: string): string {
+  const today = todayKey(timeZone);
+  if (day === today) return "Today";
+  if (day === addDays(today, -1)) return "Yesterday";
+  return startOfDay(day, timeZone).toLocaleDateString([], {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    year: day.slice(0, 4) === today.slice(0, 4) ? undefined : "numeric",
+    timeZone,
+  });
+}
+
+// The day's title with its subtotal, which covers the whole day even before all of it is loaded
+export function DaySectionHeader({ day, timeZone, totals }: Props) {
+  const colors = useCardColors();
+  const label = formatDayLabel(day, timeZone);
+
+  return (
+    <View
+      style={[styles.header, { backgroundColor: colors.background }]}
+      accessibilityRole="header"
+      accessibilityLabel={totals ? `${label}, ${totals.nutrients.calories} calories in ${totals.mealCount} meals` : label}
+    >
+      <Text style={[styles.day, { color: colors.text }]}>{label}</Text>
+      {totals && (
+        <Text style={[styles.totals, { color: colors.secondaryText }]}>
+          {totals.nutrients.calories} kcal · P {Math.round(totals.nutrients.protein)} · C {Math.round(totals.nutrients.carbs)} · F{" "}
+          {Math.round(totals.nutrients.fat)}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+    flexWrap: "wrap",
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 6
+  },
+  day: {
+    fontSize: 17,
+    fontWeight: "bold"
+  },
+  totals: {
+    fontSize: 13
+  }
+});
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { View, Text, TextInput, StyleSheet, TouchableOpacity } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { MEAL_TYPE_KEYS, MEAL_TYPES, MealSearchFilters, MealType } from "@/services/meals";
+import { addDays, todayKey } from "@/services/timeZone";
+
+export type DateRangePreset = "all" | "today" | "week" | "month" | "custom";
+
+// Everything but the search text, which has its own field above the list
+export type HistoryFilters = Omit<MealSearchFilters, "text"> & { datePreset: DateRangePreset };
+
+export const NO_HISTORY_FILTERS: HistoryFilters = { datePreset: "all" };
+
+const DATE_PRESETS: [DateRangePreset, string][] = [
+  ["all", "Any time"],
+  ["today", "Today"],
+  ["week", "Last 7 days"],
+  ["month", "Last 30 days"],
+  ["custom", "Custom"],
+];
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function countActiveFilters(filters: HistoryFilters): number {
+  return (
+    (filters.datePreset !== "all" ? 1 : 0) +
+    (filters.mealTypes?.length ? 1 : 0) +
+    (filters.minCalories !== undefined || filters.maxCalories !== undefined ? 1 : 0)
+  );
+}
+
+// The preset's first and last day, counted in the user's time zone
+export function dayRangeFor(preset: DateRangePreset, timeZone: string): { fromDay?: string; toDay?: string } {
+  const today = todayKey(timeZone);
+  switch (preset) {
+    case "today":
+      return { fromDay: today, toDay: today };
+    case "week":
+      return { fromDay: addDays(today, -6), toDay: today };
+    case "month":
+      return { fromDay: addDays(today, -29), toDay: today };
+    default:
+      return {};
+  }
+}
+
+function parseCalories(text: string): number | undefined {
+  const value = Number(text);
+  return text.trim() && Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+}
+
+interface Props {
+  filters: HistoryFilters;
+  timeZone: string;
+  onChange: (filters: HistoryFilters) => void;
+}
+
+// Date range, meal type and calorie range filters for the history timeline
+export function HistoryFilterPanel({ filters, timeZone, onChange }: Props) {
+  const colors = useCardColors();
+  const [fromText, setFromText] = useState(filters.datePreset === "custom" ? filters.fromDay ?? "" : "");
+  const [toText, setToText] = useState(filters.datePreset === "custom" ? filters.toDay ?? "" : "");
+  const [minText, setMinText] = useState(filters.minCalories !== undefined ? String(filters.minCalories) : "");
+  const [maxText, setMaxText] = useState(filters.maxCalories !== undefined ? String(filters.maxCalories) : "");
+
+  // Clearing from outside (e.g. the "Clear" link) empties the fields too
+  useEffect(() => {
+    if (filters.datePreset !== "custom") {
+      setFromText("");
+      setToText("");
+    }
+    if (filters.minCalories === undefined) setMinText("");
+    if (filters.maxCalories === undefined) setMaxText("");
+  }, [filters]);
+
+  const selectPreset = (datePreset: DateRangePreset) => {
+    if (datePreset === "custom") {
+      onChange({ ...filters, datePreset, fromDay: fromText || undefined, toDay: toText || undefined });
+    } else {
+      onChange({ ...filters, datePreset, fromDay: undefined, toDay: undefined, ...dayRangeFor(datePreset, timeZone) });
+    }
+  };
+
+  // Incomplete dates are ignored until they are whole
+  const applyCustomRange = () => {
+    onChange({
+      ...filters,
+      datePreset: "custom",
+      fromDay: DAY_PATTERN.test(fromText) ? fromText : undefined,
+      toDay: DAY_PATTERN.test(toText) ? toText : undefined,
+    });
+  };
+
+  const toggleMealType = (mealType: MealType) => {
+    const current = filters.mealTypes ?? [];
+    const mealTypes = current.includes(mealType) ? current.filter(type => type !== mealType) : [...current, mealType];
+    onChange({ ...filters, mealTypes: mealTypes.length ? mealTypes : undefined });
+  };
+
+  const applyCalories = () => {
+    onChange({ ...filters, minCalories: parseCalories(minText), maxCalories: parseCalories(maxText) });
+  };
+
+  const chip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? colors.accent : colors.border },
+        isSelected && { backgroundColor: colors.accent },
+      ]}
+      onPress={onPress}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: isSelected }}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? colors.onAccent : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.panel, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.sectionLabel, { color: colors.secondaryText }]}>Date</Text>
+      <View style={styles.chips}>
+        {DATE_PRESETS.map(([preset, label]) => chip(preset, label, filters.datePreset === preset, () => selectPreset(preset)))}
+      </View>
+      {filters.datePreset === "custom" && (
+        <View style={styles.rangeRow}>
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+            value={fromText}
+            onChangeText={setFromText}
+            onEndEditing={applyCustomRange}
+            placeholder="From YYYY-MM-DD"
+            placeholderTextColor={colors.mutedText}
+            maxLength={10}
+            accessibilityLabel="From date, year month day"
+          />
+          <Text style={[styles.rangeSeparator, { color: colors.secondaryText }]}>–</Text>
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+            value={toText}
+            onChangeText={setToText}
+            onEndEditing={applyCustomRange}
+            placeholder="To YYYY-MM-DD"
+            placeholderTextColor={colors.mutedText}
+            maxLength={10}
+            accessibilityLabel="To date, year month day"
+          />
+        </View>
+      )}
+
+      <Text style={[styles.sectionLabel, { color: colors.secondaryText }]}>Meal</Text>
+      <View style={styles.chips}>
+        {MEAL_TYPE_KEYS.map(mealType =>
+          chip(mealType, MEAL_TYPES[mealType].label, !!filters.mealTypes?.includes(mealType), () => toggleMealType(mealType))
+        )}
+      </View>
+
+      <Text style={[styles.sectionLabel, { color: colors.secondaryText }]}>Calories</Text>
+      <View style={styles.rangeRow}>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          value={minText}
+          onChangeText={setMinText}
+          onEndEditing={applyCalories}
+          placeholder="Min"
+          placeholderTextColor={colors.mutedText}
+          keyboardType="number-pad"
+          accessibilityLabel="Minimum calories"
+        />
+        <Text style={[styles.rangeSeparator, { color: colors.secondaryText }]}>–</Text>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          value={maxText}
+          onChangeText={setMaxText}
+          onEndEditing={applyCalories}
+          placeholder="Max"
+          placeholderTextColor={colors.mutedText}
+          keyboardType="number-pad"
+          accessibilityLabel="Maximum calories"
+        />
+        <Text style={[styles.unit, { color: colors.secondaryText }]}>kcal</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 12
+  },
+  sectionLabel: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 6
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6
+  },
+  chipText: {
+    fontSize: 14
+  },
+  rangeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14
+  },
+  rangeSeparator: {
+    marginHorizontal: 8
+  },
+  unit: {
+    marginLeft: 8,
+    fontSize: 14
+  }
+});
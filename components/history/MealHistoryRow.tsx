@@ -0,0 +1,102 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import { useCardColors } from "@/hooks/useCardColors";
+import { Meal, MEAL_TYPES, mealTypeAt } from "@/services/meals";
+import { AnalysisSource } from "@/services/vision/result";
+
+interface Props {
+  meal: Meal;
+  timeZone: string;
+  onPress?: (meal: Meal) => void;
+}
+
+// Shown in place of a thumbnail for meals logged without a photo
+const SOURCE_ICONS: Record<AnalysisSource, keyof typeof Ionicons.glyphMap> = {
+  photo: "restaurant-outline",
+  label: "document-text-outline",
+  barcode: "barcode-outline",
+  text: "chatbubble-ellipses-outline",
+};
+
+export function MealHistoryRow({ meal, timeZone, onPress }: Props) {
+  const colors = useCardColors();
+  const time = new Date(meal.mealTime).toLocaleTimeString([], { hour: "numeric", minute: "2-digit", timeZone });
+  const mealType = MEAL_TYPES[mealTypeAt(meal.mealTime, timeZone)].label;
+  const { calories, protein, carbs, fat } = meal.nutrients;
+
+  return (
+    <TouchableOpacity
+      style={[styles.row, { backgroundColor: colors.surface }]}
+      onPress={() => onPress?.(meal)}
+      disabled={!onPress}
+      accessibilityRole={onPress ? "button" : undefined}
+      accessibilityLabel={`${meal.name}, ${mealType} at ${time}, ${Math.round(calories)} calories`}
+    >
+      {meal.thumbnailUrl ? (
+        <Image
+          source={{ uri: meal.thumbnailUrl }}
+          style={styles.thumbnail}
+          contentFit="cover"
+          cachePolicy="memory-disk"
+          recyclingKey={meal.id}
+          transition={150}
+        />
+      ) : (
+        <View style={[styles.thumbnail, styles.placeholder, { backgroundColor: colors.divider }]}>
+          <Ionicons name={SOURCE_ICONS[meal.source] ?? "restaurant-outline"} size={24} color={colors.mutedText} />
+        </View>
+      )}
+      <View style={styles.details}>
+        <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>{meal.name}</Text>
+        <Text style={[styles.meta, { color: colors.secondaryText }]}>
+          {mealType} · {time}
+        </Text>
+        <Text style={[styles.macros, { color: colors.mutedText }]}>
+          P {Math.round(protein)} g · C {Math.round(carbs)} g · F {Math.round(fat)} g
+        </Text>
+      </View>
+      <Text style={[styles.calories, { color: colors.text }]}>{Math.round(calories)} kcal</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 10,
+    marginHorizontal: 16,
+    marginVertical: 4,
+    borderRadius: 12
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8
+  },
+  placeholder: {
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  details: {
+    flex: 1,
+    marginHorizontal: 12
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: "600"
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 2
+  },
+  macros: {
+    fontSize: 12,
+    marginTop: 2
+  },
+  calories: {
+    fontSize: 15,
+    fontWeight: "600"
+  }
+});
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { usePendingMeals } from "@/hooks/usePendingMeals";
+import { flushMealQueue } from "@/services/mealQueue";
+
+// Shows how many meals are still waiting to be uploaded, with a manual retry
+export function PendingMealsBanner() {
+  const pending = usePendingMeals();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  const lastError = pending.find(item => item.lastError)?.lastError;
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      await flushMealQueue();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name="cloud-upload-outline" size={20} color="#8A5300" />
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>
+          {pending.length === 1 ? "1 meal waiting to sync" : `${pending.length} meals waiting to sync`}
+        </Text>
+        {lastError && <Text style={styles.subtitle} numberOfLines={1}>{lastError}</Text>}
+      </View>
+      <TouchableOpacity onPress={handleSync} disabled={isSyncing} style={styles.syncButton}>
+        {isSyncing ? (
+          <ActivityIndicator size="small" color="#8A5300" />
+        ) : (
+          <Text style={styles.syncButtonText}>Sync now</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: "#FFF4E5"
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 8
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8A5300"
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#8A5300",
+    marginTop: 2
+  },
+  syncButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 8
+  },
+  syncButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8A5300"
+  }
+});
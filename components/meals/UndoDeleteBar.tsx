@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, AccessibilityInfo } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { usePendingMealDeletion } from "@/hooks/usePendingMealDeletion";
+import { undoMealDeletion } from "@/services/meals";
+
+// "Meal deleted · Undo", shown over every screen while the last deleted meal can be restored
+export function UndoDeleteBar() {
+  const meal = usePendingMealDeletion();
+  const colors = useCardColors();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  if (!meal && !isRestoring) {
+    return null;
+  }
+
+  const handleUndo = async () => {
+    setIsRestoring(true);
+    try {
+      const restored = await undoMealDeletion();
+      if (restored) {
+        AccessibilityInfo.announceForAccessibility(`${restored.name} restored`);
+      }
+    } catch (error: any) {
+      console.error("Error restoring meal:", error);
+      Alert.alert("Not Restored", error?.message || "There was a problem restoring this meal. Please try again.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <View
+      style={[styles.bar, { backgroundColor: colors.surface, borderColor: colors.border }]}
+      accessibilityLiveRegion="polite"
+      pointerEvents="box-none"
+    >
+      <Text style={[styles.message, { color: colors.text }]} numberOfLines={1}>
+        {meal ? `Deleted ${meal.name}` : "Restoring meal…"}
+      </Text>
+      <TouchableOpacity
+        onPress={handleUndo}
+        disabled={isRestoring}
+        style={styles.undoButton}
+        accessibilityRole="button"
+        accessibilityLabel={meal ? `Undo deleting ${meal.name}` : "Undo delete"}
+      >
+        {isRestoring ? (
+          <ActivityIndicator size="small" color={colors.accent} />
+        ) : (
+          <Text style={[styles.undoText, { color: colors.accent }]}>Undo</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    // Clear of the tab bar
+    bottom: 96,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4
+  },
+  message: {
+    flex: 1,
+    fontSize: 14
+  },
+  undoButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginLeft: 8
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: "600"
+  }
+});
@@ -0,0 +1,345 @@
+import { useEffect, useMemo, useState } from "react";
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import {
+  ACTIVITY_LEVELS,
+  ActivityLevel,
+  BodyMetrics,
+  EMPTY_BODY_METRICS,
+  energyInputFrom,
+  estimateEnergy,
+  ProfileChanges,
+  Sex,
+  WEEKLY_RATES_KG,
+  WeightGoal,
+} from "@/services/profile";
+
+interface Props {
+  body: BodyMetrics | null;
+  weightKg: number | null; // Latest entry in the weight log
+  onSave: (changes: ProfileChanges) => Promise<unknown>;
+}
+
+const SEX_OPTIONS: [Sex, string][] = [
+  ["female", "Female"],
+  ["male", "Male"],
+];
+
+const WEIGHT_GOAL_OPTIONS: [WeightGoal, string][] = [
+  ["lose", "Lose"],
+  ["maintain", "Maintain"],
+  ["gain", "Gain"],
+];
+
+function OptionChips<T extends string | number>({
+  options,
+  value,
+  onChange,
+  label,
+}: {
+  options: [T, string][];
+  value: T | null;
+  onChange: (value: T) => void;
+  label: string;
+}) {
+  const colors = useCardColors();
+  return (
+    <View style={styles.chips} accessibilityRole="radiogroup" accessibilityLabel={label}>
+      {options.map(([option, optionLabel]) => {
+        const isSelected = option === value;
+        return (
+          <TouchableOpacity
+            key={String(option)}
+            style={[
+              styles.chip,
+              { borderColor: isSelected ? colors.accent : colors.border },
+              isSelected && { backgroundColor: colors.accent },
+            ]}
+            onPress={() => onChange(option)}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: isSelected }}
+          >
+            <Text style={[styles.chipText, { color: isSelected ? colors.onAccent : colors.text }]}>{optionLabel}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+function parsePositive(text: string): number | null {
+  const value = Number(text.replace(",", "."));
+  return text.trim() && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Height, age, sex, activity and weight goal, with the Mifflin-St Jeor estimate they lead to
+export function BodyMetricsCard({ body, weightKg, onSave }: Props) {
+  const colors = useCardColors();
+  const [metrics, setMetrics] = useState<BodyMetrics>(body ?? EMPTY_BODY_METRICS);
+  const [heightText, setHeightText] = useState("");
+  const [birthYearText, setBirthYearText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const next = body ?? EMPTY_BODY_METRICS;
+    setMetrics(next);
+    setHeightText(next.heightCm !== null ? String(next.heightCm) : "");
+    setBirthYearText(next.birthYear !== null ? String(next.birthYear) : "");
+  }, [body]);
+
+  const edited: BodyMetrics = useMemo(() => {
+    const birthYear = parsePositive(birthYearText);
+    return {
+      ...metrics,
+      heightCm: parsePositive(heightText),
+      birthYear: birthYear !== null ? Math.round(birthYear) : null,
+    };
+  }, [metrics, heightText, birthYearText]);
+
+  const { input, missing } = energyInputFrom(edited, weightKg);
+  const estimate = input ? estimateEnergy(input) : null;
+
+  const update = (changes: Partial<BodyMetrics>) => setMetrics(current => ({ ...current, ...changes }));
+
+  const save = async (changes: ProfileChanges, successMessage?: string) => {
+    const thisYear = new Date().getFullYear();
+    if (edited.birthYear !== null && (edited.birthYear < thisYear - 120 || edited.birthYear > thisYear - 13)) {
+      Alert.alert("Check Your Details", "Enter your year of birth, e.g. 1990. The calculator is for ages 13 and up.");
+      return;
+    }
+    if (edited.heightCm !== null && (edited.heightCm < 50 || edited.heightCm > 272)) {
+      Alert.alert("Check Your Details", "Enter your height in centimetres, e.g. 170.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(changes);
+      if (successMessage) Alert.alert("Targets Updated", successMessage);
+    } catch (error: any) {
+      console.error("Error saving body metrics:", error);
+      Alert.alert("Not Saved", error?.message || "There was a problem saving your details. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Body & targets</Text>
+
+      <View style={styles.row}>
+        <Text style={[styles.label, { color: colors.text }]}>Height</Text>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          value={heightText}
+          onChangeText={setHeightText}
+          placeholder="170"
+          placeholderTextColor={colors.mutedText}
+          keyboardType="decimal-pad"
+          accessibilityLabel="Height in centimetres"
+        />
+        <Text style={[styles.unit, { color: colors.secondaryText }]}>cm</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={[styles.label, { color: colors.text }]}>Year of birth</Text>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          value={birthYearText}
+          onChangeText={setBirthYearText}
+          placeholder="1990"
+          placeholderTextColor={colors.mutedText}
+          keyboardType="number-pad"
+          maxLength={4}
+          accessibilityLabel="Year of birth"
+        />
+        <Text style={styles.unit} />
+      </View>
+      <View style={styles.row}>
+        <Text style={[styles.label, { color: colors.text }]}>Weight</Text>
+        <Text style={[styles.value, { color: weightKg !== null ? colors.text : colors.mutedText }]}>
+          {weightKg !== null ? `${weightKg} kg` : "Log it below"}
+        </Text>
+      </View>
+
+      <Text style={[styles.sectionLabel, { color: colors.secondaryText }]}>Sex (used by the BMR formula)</Text>
+      <OptionChips label="Sex" options={SEX_OPTIONS} value={metrics.sex} onChange={sex => update({ sex })} />
+
+      <Text style={[styles.sectionLabel, { color: colors.secondaryText }]}>Activity level</Text>
+      <OptionChips
+        label="Activity level"
+        options={Object.entries(ACTIVITY_LEVELS).map(([level, { label }]) => [level as ActivityLevel, label])}
+        value={metrics.activityLevel}
+        onChange={activityLevel => update({ activityLevel })}
+      />
+      {metrics.activityLevel && (
+        <Text style={[styles.hint, { color: colors.secondaryText }]}>{ACTIVITY_LEVELS[metrics.activityLevel].description}</Text>
+      )}
+
+      <Text style={[styles.sectionLabel, { color: colors.secondaryText }]}>Goal</Text>
+      <OptionChips
+        label="Weight goal"
+        options={WEIGHT_GOAL_OPTIONS}
+        value={metrics.weightGoal}
+        onChange={weightGoal => update({ weightGoal, weeklyRateKg: metrics.weeklyRateKg ?? 0.5 })}
+      />
+      {metrics.weightGoal && metrics.weightGoal !== "maintain" && (
+        <OptionChips
+          label={`Rate to ${metrics.weightGoal}`}
+          options={WEEKLY_RATES_KG.map(rate => [rate, `${rate} kg/week`])}
+          value={metrics.weeklyRateKg}
+          onChange={weeklyRateKg => update({ weeklyRateKg })}
+        />
+      )}
+
+      {estimate ? (
+        <View style={[styles.estimate, { borderColor: colors.divider }]}>
+          <Text style={[styles.estimateLine, { color: colors.secondaryText }]}>
+            BMR {estimate.bmr} kcal · TDEE {estimate.tdee} kcal
+          </Text>
+          <Text style={[styles.estimateTargets, { color: colors.text }]}>
+            Suggested: {estimate.goals.calories} kcal · {estimate.goals.protein} g protein · {estimate.goals.carbs} g carbs ·{" "}
+            {estimate.goals.fat} g fat
+          </Text>
+          {estimate.isCaloriesClamped && (
+            <Text style={[styles.hint, { color: colors.warningText }]}>
+              Raised to a safe minimum; a slower rate gets you closer to this target.
+            </Text>
+          )}
+        </View>
+      ) : (
+        <Text style={[styles.hint, { color: colors.secondaryText }]}>Add your {missing.join(", ")} to get suggested targets.</Text>
+      )}
+
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          style={[styles.button, styles.secondaryButton, { borderColor: colors.accent }, isSaving && styles.disabledButton]}
+          onPress={() => save({ body: edited })}
+          disabled={isSaving}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.buttonText, { color: colors.accent }]}>Save Details</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.accent }, (isSaving || !estimate) && styles.disabledButton]}
+          onPress={() =>
+            estimate && save({ body: edited, goals: estimate.goals }, `Your daily goal is now ${estimate.goals.calories} kcal.`)
+          }
+          disabled={isSaving || !estimate}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: isSaving || !estimate }}
+        >
+          {isSaving ? (
+            <ActivityIndicator color={colors.onAccent} />
+          ) : (
+            <Text style={[styles.buttonText, { color: colors.onAccent }]}>Use as Goals</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4
+  },
+  label: {
+    flex: 1,
+    fontSize: 15
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: "500"
+  },
+  input: {
+    width: 90,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 15,
+    textAlign: "right"
+  },
+  unit: {
+    width: 36,
+    marginLeft: 8,
+    fontSize: 14
+  },
+  sectionLabel: {
+    fontSize: 13,
+    marginTop: 12,
+    marginBottom: 6
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 4
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6
+  },
+  chipText: {
+    fontSize: 14
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 6
+  },
+  estimate: {
+    borderTopWidth: 1,
+    marginTop: 12,
+    paddingTop: 12
+  },
+  estimateLine: {
+    fontSize: 13
+  },
+  estimateTargets: {
+    fontSize: 15,
+    fontWeight: "500",
+    marginTop: 4
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 16
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center"
+  },
+  secondaryButton: {
+    borderWidth: 1
+  },
+  disabledButton: {
+    opacity: 0.6
+  },
+  buttonText: {
+    fontWeight: "600",
+    fontSize: 15
+  }
+});
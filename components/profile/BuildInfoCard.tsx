@@ -0,0 +1,74 @@
+import { View, Text, StyleSheet } from "react-native";
+import Constants from "expo-constants";
+import { useCardColors } from "@/hooks/useCardColors";
+import { AppConfig } from "@/services/config";
+
+interface Props {
+  config: AppConfig;
+}
+
+// Host only, so a screenshot of this card never leaks a full URL with a path or key
+function hostOf(url: string): string {
+  const match = url.match(/^[a-z]+:\/\/([^/]+)/i);
+  return match ? match[1] : url;
+}
+
+// Which profile and backends this build uses, for testers and bug reports
+export function BuildInfoCard({ config }: Props) {
+  const colors = useCardColors();
+  const rows: [string, string][] = [
+    ["Profile", config.profile],
+    ["App version", Constants.expoConfig?.version ?? "unknown"],
+    ["Supabase", hostOf(config.supabase.url)],
+    ["Food analysis", config.vision.provider === "backend" ? hostOf(config.vision.endpointUrl) : config.vision.provider],
+    ["Vision model", config.vision.model ?? "default"],
+    ["Product database", config.products.provider ?? "openfoodfacts"],
+    ["Link scheme", `${config.linking.scheme}://`],
+  ];
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Build</Text>
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.row} accessible accessibilityLabel={`${label}: ${value}`}>
+          <Text style={[styles.label, { color: colors.secondaryText }]}>{label}</Text>
+          <Text style={[styles.value, { color: colors.text }]} selectable>{value}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    flexWrap: "wrap",
+    paddingVertical: 4
+  },
+  label: {
+    fontSize: 14
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "500",
+    flexShrink: 1,
+    textAlign: "right"
+  }
+});
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { CORE_NUTRIENT_KEYS, CoreNutrientKey, NUTRIENTS } from "@/services/nutrients";
+import { DailyGoals, DEFAULT_DAILY_GOALS, Profile, ProfileChanges } from "@/services/profile";
+import { getDeviceTimeZone } from "@/services/timeZone";
+
+interface Props {
+  profile: Profile | null;
+  isLoading?: boolean;
+  onSave: (changes: ProfileChanges) => Promise<unknown>;
+}
+
+type GoalInputs = Record<CoreNutrientKey, string>;
+
+function toInputs(goals: DailyGoals): GoalInputs {
+  return {
+    calories: String(goals.calories),
+    protein: String(goals.protein),
+    carbs: String(goals.carbs),
+    fat: String(goals.fat),
+  };
+}
+
+// Calories must be positive; a macro may be zero, e.g. for a no-carb diet
+function parseGoals(inputs: GoalInputs): DailyGoals | null {
+  const goals = {} as DailyGoals;
+  for (const key of CORE_NUTRIENT_KEYS) {
+    const value = Number(inputs[key].replace(",", "."));
+    if (!inputs[key].trim() || !Number.isFinite(value) || value < 0 || (key === "calories" && value === 0)) {
+      return null;
+    }
+    goals[key] = key === "calories" ? Math.round(value) : Math.round(value * 10) / 10;
+  }
+  return goals;
+}
+
+// Daily calorie and macro goals, and the time zone that decides when the day starts
+export function DailyGoalsCard({ profile, isLoading = false, onSave }: Props) {
+  const colors = useCardColors();
+  const [inputs, setInputs] = useState<GoalInputs>(toInputs(DEFAULT_DAILY_GOALS));
+  const [isSaving, setIsSaving] = useState(false);
+  const deviceTimeZone = getDeviceTimeZone();
+  const timeZone = profile?.timeZone || deviceTimeZone;
+
+  useEffect(() => {
+    setInputs(toInputs(profile?.goals ?? DEFAULT_DAILY_GOALS));
+  }, [profile]);
+
+  const save = async (changes: ProfileChanges) => {
+    setIsSaving(true);
+    try {
+      await onSave(changes);
+    } catch (error: any) {
+      console.error("Error saving goals:", error);
+      Alert.alert("Goals Not Saved", error?.message || "There was a problem saving your goals. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const goals = parseGoals(inputs);
+    if (!goals) {
+      Alert.alert("Check Your Goals", "Enter a number for each goal. Calories must be more than zero.");
+      return;
+    }
+    // The first save also records the time zone, so the day keeps its boundaries when travelling
+    save({ goals, timeZone });
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Daily goals</Text>
+      {isLoading && !profile ? (
+        <ActivityIndicator color={colors.accent} accessibilityLabel="Loading goals" />
+      ) : (
+        <>
+          {CORE_NUTRIENT_KEYS.map(key => (
+            <View key={key} style={styles.row}>
+              <Text style={[styles.label, { color: colors.text }]}>{NUTRIENTS[key].label}</Text>
+              <TextInput
+                style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                value={inputs[key]}
+                onChangeText={text => setInputs(current => ({ ...current, [key]: text }))}
+                keyboardType="decimal-pad"
+                selectTextOnFocus
+                accessibilityLabel={`${NUTRIENTS[key].label} goal in ${NUTRIENTS[key].unit}`}
+              />
+              <Text style={[styles.unit, { color: colors.secondaryText }]}>{NUTRIENTS[key].unit}</Text>
+            </View>
+          ))}
+
+          <Text style={[styles.timeZone, { color: colors.secondaryText }]}>
+            Your day starts at midnight in {timeZone}.
+          </Text>
+          {profile?.timeZone && profile.timeZone !== deviceTimeZone && (
+            <TouchableOpacity onPress={() => save({ timeZone: deviceTimeZone })} disabled={isSaving} accessibilityRole="button">
+              <Text style={[styles.link, { color: colors.accent }]}>Use this device&apos;s time zone ({deviceTimeZone})</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.accent }, isSaving && styles.disabledButton]}
+            onPress={handleSave}
+            disabled={isSaving}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: isSaving }}
+          >
+            {isSaving ? (
+              <ActivityIndicator color={colors.onAccent} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.onAccent }]}>Save Goals</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4
+  },
+  label: {
+    flex: 1,
+    fontSize: 15
+  },
+  input: {
+    width: 90,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 15,
+    textAlign: "right"
+  },
+  unit: {
+    width: 36,
+    marginLeft: 8,
+    fontSize: 14
+  },
+  timeZone: {
+    fontSize: 13,
+    marginTop: 12
+  },
+  link: {
+    fontSize: 13,
+    marginTop: 6
+  },
+  button: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center"
+  },
+  disabledButton: {
+    opacity: 0.6
+  },
+  buttonText: {
+    fontWeight: "600",
+    fontSize: 15
+  }
+});
@@ -0,0 +1,57 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+
+interface Props {
+  mealCount: number | null;
+  onCreateAccount: () => void;
+}
+
+// Shown to guests: what they lose without an account and the way to create one
+export function GuestAccountCard({ mealCount, onCreateAccount }: Props) {
+  const colors = useCardColors();
+  const saved = mealCount === null ? "Your meals are" : `${mealCount} ${mealCount === 1 ? "meal is" : "meals are"}`;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.warningBackground }]}>
+      <Text style={[styles.title, { color: colors.warningText }]} accessibilityRole="header">You&apos;re using a guest account</Text>
+      <Text style={[styles.message, { color: colors.warningText }]}>
+        {saved} saved only on this device. Create an account to back them up and use them on other devices.
+      </Text>
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.accent }]}
+        onPress={onCreateAccount}
+        accessibilityRole="button"
+      >
+        <Text style={[styles.buttonText, { color: colors.onAccent }]}>Create Account</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 6
+  },
+  message: {
+    fontSize: 14,
+    lineHeight: 20
+  },
+  button: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center"
+  },
+  buttonText: {
+    fontWeight: "600",
+    fontSize: 15
+  }
+});
@@ -0,0 +1,141 @@
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { UsagePeriod, UsagePeriodSummary, UsageSummary } from "@/services/vision/usage";
+
+interface Props {
+  usage: UsageSummary | null;
+  isLoading?: boolean;
+  error?: string;
+  onRetry?: () => void;
+}
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  day: "Today",
+  month: "This month",
+};
+
+export function formatCost(costUsd: number): string {
+  return costUsd > 0 && costUsd < 0.01 ? "< $0.01" : `$${costUsd.toFixed(2)}`;
+}
+
+function formatResetTime(period: UsagePeriod, resetsAt: string): string {
+  const date = new Date(resetsAt);
+  return period === "day"
+    ? date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+function UsagePeriodRow({ period, summary }: { period: UsagePeriod; summary: UsagePeriodSummary }) {
+  const colors = useCardColors();
+  const fraction = summary.limit ? Math.min(summary.analyses / summary.limit, 1) : 0;
+  const isExhausted = summary.limit !== null && summary.analyses >= summary.limit;
+  const countText = summary.limit !== null ? `${summary.analyses} / ${summary.limit}` : `${summary.analyses}`;
+
+  return (
+    <View
+      style={styles.periodRow}
+      accessible
+      accessibilityLabel={
+        `${PERIOD_LABELS[period]}: ${summary.analyses} analyses` +
+        (summary.limit !== null ? ` of ${summary.limit}` : "") +
+        `, ${summary.totalTokens} tokens, about ${formatCost(summary.costUsd)}`
+      }
+    >
+      <View style={styles.periodHeader}>
+        <Text style={[styles.periodLabel, { color: colors.text }]}>{PERIOD_LABELS[period]}</Text>
+        <Text style={[styles.periodCount, { color: isExhausted ? "#FF6B6B" : colors.text }]}>{countText} analyses</Text>
+      </View>
+      {summary.limit !== null && (
+        <View style={[styles.progressTrack, { backgroundColor: colors.divider }]}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${fraction * 100}%`, backgroundColor: isExhausted ? "#FF6B6B" : colors.accent },
+            ]}
+          />
+        </View>
+      )}
+      <Text style={[styles.periodDetail, { color: colors.secondaryText }]}>
+        {summary.totalTokens.toLocaleString()} tokens · {formatCost(summary.costUsd)}
+        {summary.limit !== null ? ` · resets ${formatResetTime(period, summary.resetsAt)}` : ""}
+      </Text>
+    </View>
+  );
+}
+
+// AI analysis usage against the user's daily and monthly quota
+export function UsageSummaryCard({ usage, isLoading = false, error, onRetry }: Props) {
+  const colors = useCardColors();
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">AI analysis usage</Text>
+      {isLoading ? (
+        <ActivityIndicator color={colors.accent} accessibilityLabel="Loading usage" />
+      ) : error ? (
+        <TouchableOpacity onPress={onRetry} accessibilityRole="button" accessibilityLabel="Retry loading usage">
+          <Text style={[styles.message, { color: colors.secondaryText }]}>Could not load usage. Tap to retry.</Text>
+        </TouchableOpacity>
+      ) : usage ? (
+        <>
+          <UsagePeriodRow period="day" summary={usage.day} />
+          <UsagePeriodRow period="month" summary={usage.month} />
+        </>
+      ) : (
+        <Text style={[styles.message, { color: colors.secondaryText }]}>Usage is not tracked in this build.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 12
+  },
+  periodRow: {
+    marginBottom: 12
+  },
+  periodHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    flexWrap: "wrap",
+    marginBottom: 6
+  },
+  periodLabel: {
+    fontSize: 15,
+    fontWeight: "500"
+  },
+  periodCount: {
+    fontSize: 15,
+    fontWeight: "600"
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden"
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3
+  },
+  periodDetail: {
+    fontSize: 13,
+    marginTop: 6
+  },
+  message: {
+    fontSize: 14
+  }
+});
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useCardColors } from "@/hooks/useCardColors";
+import { WeightEntry } from "@/services/profile";
+
+interface Props {
+  entries: WeightEntry[]; // Newest first
+  isLoading?: boolean;
+  error?: string;
+  onRetry?: () => void;
+  onLog: (weightKg: number) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+const VISIBLE_ENTRIES = 7;
+
+function formatChange(change: number): string {
+  const rounded = Math.round(change * 10) / 10;
+  return rounded === 0 ? "±0" : `${rounded > 0 ? "+" : "−"}${Math.abs(rounded)}`;
+}
+
+// Weigh-ins over time; the latest one feeds the goal calculator
+export function WeightLogCard({ entries, isLoading = false, error, onRetry, onLog, onDelete }: Props) {
+  const colors = useCardColors();
+  const [weightText, setWeightText] = useState("");
+  const [isLogging, setIsLogging] = useState(false);
+
+  const handleLog = async () => {
+    const weightKg = Number(weightText.replace(",", "."));
+    if (!weightText.trim() || !Number.isFinite(weightKg) || weightKg < 20 || weightKg > 400) {
+      Alert.alert("Check Your Weight", "Enter your weight in kilograms, e.g. 72.5.");
+      return;
+    }
+
+    setIsLogging(true);
+    try {
+      await onLog(Math.round(weightKg * 10) / 10);
+      setWeightText("");
+    } catch (err: any) {
+      console.error("Error logging weight:", err);
+      Alert.alert("Not Saved", err?.message || "There was a problem saving your weight. Please try again.");
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  const handleDelete = (entry: WeightEntry) => {
+    Alert.alert("Delete Entry", `Delete ${entry.weightKg} kg from ${new Date(entry.measuredAt).toLocaleDateString()}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () =>
+          onDelete(entry.id).catch(err => {
+            console.error("Error deleting weight entry:", err);
+            Alert.alert("Not Deleted", "There was a problem deleting this entry. Please try again.");
+          }),
+      },
+    ]);
+  };
+
+  const oldest = entries[entries.length - 1];
+  const totalChange = entries.length > 1 ? entries[0].weightKg - oldest.weightKg : null;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Weight log</Text>
+
+      <View style={styles.logRow}>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          value={weightText}
+          onChangeText={setWeightText}
+          placeholder="Today's weight"
+          placeholderTextColor={colors.mutedText}
+          keyboardType="decimal-pad"
+          returnKeyType="done"
+          onSubmitEditing={handleLog}
+          accessibilityLabel="Today's weight in kilograms"
+        />
+        <Text style={[styles.unit, { color: colors.secondaryText }]}>kg</Text>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.accent }, isLogging && styles.disabledButton]}
+          onPress={handleLog}
+          disabled={isLogging}
+          accessibilityRole="button"
+          accessibilityLabel="Log weight"
+        >
+          {isLogging ? <ActivityIndicator color={colors.onAccent} /> : <Text style={[styles.buttonText, { color: colors.onAccent }]}>Log</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {isLoading && entries.length === 0 ? (
+        <ActivityIndicator color={colors.accent} accessibilityLabel="Loading weight log" />
+      ) : error ? (
+        <TouchableOpacity onPress={onRetry} accessibilityRole="button" accessibilityLabel="Retry loading weight log">
+          <Text style={[styles.message, { color: colors.secondaryText }]}>Could not load your weight log. Tap to retry.</Text>
+        </TouchableOpacity>
+      ) : entries.length === 0 ? (
+        <Text style={[styles.message, { color: colors.secondaryText }]}>No weigh-ins yet.</Text>
+      ) : (
+        <>
+          {totalChange !== null && (
+            <Text style={[styles.message, { color: colors.secondaryText }]}>
+              {formatChange(totalChange)} kg since {new Date(oldest.measuredAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+            </Text>
+          )}
+          {entries.slice(0, VISIBLE_ENTRIES).map((entry, index) => {
+            const previous = entries[index + 1];
+            return (
+              <View key={entry.id} style={[styles.entry, { borderColor: colors.divider }]}>
+                <Text style={[styles.entryDate, { color: colors.secondaryText }]}>
+                  {new Date(entry.measuredAt).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })}
+                </Text>
+                <Text style={[styles.entryWeight, { color: colors.text }]}>{entry.weightKg} kg</Text>
+                <Text style={[styles.entryChange, { color: colors.mutedText }]}>
+                  {previous ? formatChange(entry.weightKg - previous.weightKg) : ""}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => handleDelete(entry)}
+                  hitSlop={8}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Delete ${entry.weightKg} kilograms entry`}
+                >
+                  <Ionicons name="trash-outline" size={18} color={colors.mutedText} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  logRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15
+  },
+  unit: {
+    marginHorizontal: 8,
+    fontSize: 14
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+    alignItems: "center"
+  },
+  disabledButton: {
+    opacity: 0.6
+  },
+  buttonText: {
+    fontWeight: "600",
+    fontSize: 15
+  },
+  message: {
+    fontSize: 14,
+    marginBottom: 4
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1
+  },
+  entryDate: {
+    flex: 1,
+    fontSize: 14
+  },
+  entryWeight: {
+    fontSize: 15,
+    fontWeight: "500",
+    width: 72,
+    textAlign: "right"
+  },
+  entryChange: {
+    fontSize: 13,
+    width: 48,
+    textAlign: "right",
+    marginRight: 12
+  }
+});
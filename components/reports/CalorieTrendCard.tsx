@@ -0,0 +1,130 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { DAY_STATUS_DISPLAY, DayStatus, formatDayTick, NutritionReport } from "@/services/reports";
+
+interface Props {
+  report: NutritionReport;
+}
+
+const CHART_HEIGHT = 140;
+const LEGEND_STATUSES: DayStatus[] = ["onTarget", "under", "over", "notLogged"];
+
+// Calories per day as bars colored by how the day went, with the goal as a dashed line
+export function CalorieTrendCard({ report }: Props) {
+  const colors = useCardColors();
+  const { days, goals, period } = report;
+  const max = Math.max(goals.calories, ...days.map(day => day.nutrients.calories)) || 1;
+  const goalBottom = (goals.calories / max) * CHART_HEIGHT;
+  // A month has too many days to label every bar
+  const tickEvery = period.kind === "week" ? 1 : 5;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Calories per day</Text>
+
+      <View
+        style={[styles.chart, { borderColor: colors.border }]}
+        accessible
+        accessibilityLabel={`Calories per day, goal ${goals.calories}. ${report.statusCounts.onTarget} days on target, ${report.statusCounts.under} under, ${report.statusCounts.over} over.`}
+      >
+        <View style={[styles.goalLine, { bottom: goalBottom, borderColor: colors.accent }]} />
+        {days.map((day, index) => (
+          <View key={day.day} style={styles.column}>
+            <View
+              style={[
+                styles.bar,
+                {
+                  height: (day.nutrients.calories / max) * CHART_HEIGHT,
+                  backgroundColor: DAY_STATUS_DISPLAY[day.status].color,
+                },
+              ]}
+            />
+            <Text style={[styles.tick, { color: colors.mutedText }]} numberOfLines={1}>
+              {index % tickEvery === 0 ? formatDayTick(day.day, period.kind) : ""}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        {LEGEND_STATUSES.map(status => (
+          <View key={status} style={styles.legendItem}>
+            <View style={[styles.swatch, { backgroundColor: DAY_STATUS_DISPLAY[status].color }]} />
+            <Text style={[styles.legendText, { color: colors.secondaryText }]}>
+              {DAY_STATUS_DISPLAY[status].label} {report.statusCounts[status]}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 12
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: "row",
+    alignItems: "flex-end",
+    borderBottomWidth: 1,
+    marginBottom: 20
+  },
+  goalLine: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderStyle: "dashed"
+  },
+  column: {
+    flex: 1,
+    height: "100%",
+    justifyContent: "flex-end",
+    marginHorizontal: 1
+  },
+  bar: {
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2
+  },
+  tick: {
+    position: "absolute",
+    bottom: -18,
+    left: -8,
+    right: -8,
+    fontSize: 10,
+    textAlign: "center"
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center"
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 6
+  },
+  legendText: {
+    fontSize: 13
+  }
+});
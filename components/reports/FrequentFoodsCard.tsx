@@ -0,0 +1,81 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { FrequentFood } from "@/services/reports";
+
+interface Props {
+  foods: FrequentFood[];
+}
+
+// The foods that came up most often in the period
+export function FrequentFoodsCard({ foods }: Props) {
+  const colors = useCardColors();
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Most frequent foods</Text>
+      {foods.length === 0 ? (
+        <Text style={[styles.message, { color: colors.secondaryText }]}>No foods yet.</Text>
+      ) : (
+        foods.map((food, index) => (
+          <View
+            key={food.name}
+            style={[styles.row, { borderColor: colors.divider }]}
+            accessible
+            accessibilityLabel={`${food.name}, ${food.count} ${food.count === 1 ? "time" : "times"}, about ${food.averageCalories} calories each`}
+          >
+            <Text style={[styles.rank, { color: colors.mutedText }]}>{index + 1}</Text>
+            <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>{food.name}</Text>
+            <Text style={[styles.count, { color: colors.text }]}>{food.count}×</Text>
+            <Text style={[styles.calories, { color: colors.secondaryText }]}>~{food.averageCalories} kcal</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  message: {
+    fontSize: 14
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1
+  },
+  rank: {
+    width: 20,
+    fontSize: 13
+  },
+  name: {
+    flex: 1,
+    fontSize: 15
+  },
+  count: {
+    fontSize: 15,
+    fontWeight: "500",
+    marginLeft: 8
+  },
+  calories: {
+    fontSize: 13,
+    width: 80,
+    textAlign: "right"
+  }
+});
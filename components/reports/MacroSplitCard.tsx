@@ -0,0 +1,112 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { MACRO_DISPLAY, MACRO_KEYS, MacroSplit, NutritionReport } from "@/services/reports";
+
+interface Props {
+  report: NutritionReport;
+}
+
+function SplitBar({ label, split }: { label: string; split: MacroSplit }) {
+  const colors = useCardColors();
+  return (
+    <View
+      style={styles.splitRow}
+      accessible
+      accessibilityLabel={`${label}: ${MACRO_KEYS.map(key => `${MACRO_DISPLAY[key].label} ${split[key]} percent`).join(", ")}`}
+    >
+      <Text style={[styles.splitLabel, { color: colors.secondaryText }]}>{label}</Text>
+      <View style={[styles.bar, { backgroundColor: colors.divider }]}>
+        {MACRO_KEYS.map(key => (
+          <View key={key} style={{ flex: split[key], backgroundColor: MACRO_DISPLAY[key].color }} />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+// Share of calories from protein, carbs and fat, next to the split the goals add up to
+export function MacroSplitCard({ report }: Props) {
+  const colors = useCardColors();
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Macro split</Text>
+      {report.macroSplit ? (
+        <SplitBar label="Eaten" split={report.macroSplit} />
+      ) : (
+        <Text style={[styles.message, { color: colors.secondaryText }]}>No meals logged in this period.</Text>
+      )}
+      <SplitBar label="Goal" split={report.goalMacroSplit} />
+
+      <View style={styles.legend}>
+        {MACRO_KEYS.map(key => (
+          <View key={key} style={styles.legendItem}>
+            <View style={[styles.swatch, { backgroundColor: MACRO_DISPLAY[key].color }]} />
+            <Text style={[styles.legendText, { color: colors.text }]}>
+              {MACRO_DISPLAY[key].label} {report.macroSplit ? `${report.macroSplit[key]}%` : "–"}
+            </Text>
+            <Text style={[styles.legendText, { color: colors.mutedText }]}> / {report.goalMacroSplit[key]}%</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  message: {
+    fontSize: 14,
+    marginBottom: 8
+  },
+  splitRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8
+  },
+  splitLabel: {
+    width: 48,
+    fontSize: 13
+  },
+  bar: {
+    flex: 1,
+    height: 14,
+    borderRadius: 7,
+    flexDirection: "row",
+    overflow: "hidden"
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+    marginTop: 4
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center"
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 6
+  },
+  legendText: {
+    fontSize: 13
+  }
+});
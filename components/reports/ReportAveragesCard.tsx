@@ -0,0 +1,108 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useCardColors } from "@/hooks/useCardColors";
+import { CORE_NUTRIENT_KEYS, NUTRIENTS } from "@/services/nutrients";
+import { formatChange, NutritionReport } from "@/services/reports";
+
+interface Props {
+  report: NutritionReport;
+}
+
+// Daily averages over the logged days, against the goals and the period before
+export function ReportAveragesCard({ report }: Props) {
+  const colors = useCardColors();
+  const { averages, previousAverages, goals } = report;
+  const previousLabel = report.period.kind === "week" ? "last week" : "last month";
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Daily averages</Text>
+      {!averages ? (
+        <Text style={[styles.message, { color: colors.secondaryText }]}>No meals logged in this period.</Text>
+      ) : (
+        <>
+          <Text style={[styles.message, { color: colors.secondaryText }]}>
+            Over {report.loggedDays} logged {report.loggedDays === 1 ? "day" : "days"}
+          </Text>
+          {CORE_NUTRIENT_KEYS.map(key => {
+            const { label, unit } = NUTRIENTS[key];
+            const change = formatChange(averages[key], previousAverages?.[key]);
+            return (
+              <View
+                key={key}
+                style={[styles.row, { borderColor: colors.divider }]}
+                accessible
+                accessibilityLabel={
+                  `${label}: ${averages[key]} ${unit} a day, goal ${goals[key]}` +
+                  (change ? `, ${change} compared with ${previousLabel}` : "")
+                }
+              >
+                <Text style={[styles.label, { color: colors.text }]}>{label}</Text>
+                <Text style={[styles.value, { color: colors.text }]}>
+                  {averages[key]} {unit}
+                </Text>
+                <Text style={[styles.goal, { color: colors.secondaryText }]}>
+                  / {goals[key]} {unit}
+                </Text>
+                <Text style={[styles.change, { color: colors.mutedText }]}>{change ?? ""}</Text>
+              </View>
+            );
+          })}
+          {previousAverages && (
+            <Text style={[styles.hint, { color: colors.mutedText }]}>Changes are compared with {previousLabel}.</Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  message: {
+    fontSize: 14,
+    marginBottom: 4
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1
+  },
+  label: {
+    flex: 1,
+    fontSize: 15
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: "500"
+  },
+  goal: {
+    fontSize: 13,
+    marginLeft: 4,
+    width: 80
+  },
+  change: {
+    fontSize: 13,
+    width: 48,
+    textAlign: "right"
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8
+  }
+});
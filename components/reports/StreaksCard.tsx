@@ -0,0 +1,72 @@
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useCardColors } from "@/hooks/useCardColors";
+import { formatStreak, ReportStreaks } from "@/services/reports";
+
+interface Props {
+  streaks: ReportStreaks;
+  isCurrentPeriod: boolean;
+}
+
+function Streak({ icon, value, label }: { icon: keyof typeof Ionicons.glyphMap; value: number; label: string }) {
+  const colors = useCardColors();
+  return (
+    <View style={styles.streak} accessible accessibilityLabel={`${label}: ${formatStreak(value)}`}>
+      <Ionicons name={icon} size={22} color={value > 0 ? colors.accent : colors.mutedText} />
+      <Text style={[styles.value, { color: colors.text }]}>{value}</Text>
+      <Text style={[styles.label, { color: colors.secondaryText }]}>{label}</Text>
+    </View>
+  );
+}
+
+// Days in a row logging and on target; for a past period they are counted up to its last day
+export function StreaksCard({ streaks, isCurrentPeriod }: Props) {
+  const colors = useCardColors();
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">Streaks</Text>
+      <View style={styles.streaks}>
+        <Streak icon="flame-outline" value={streaks.logging} label={isCurrentPeriod ? "Days logging" : "Logging at end"} />
+        <Streak icon="checkmark-circle-outline" value={streaks.onTarget} label={isCurrentPeriod ? "Days on target" : "On target at end"} />
+        <Streak icon="trophy-outline" value={streaks.longestOnTarget} label="Best run on target" />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: "95%",
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginVertical: 8
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  streaks: {
+    flexDirection: "row",
+    justifyContent: "space-around"
+  },
+  streak: {
+    alignItems: "center",
+    flex: 1
+  },
+  value: {
+    fontSize: 22,
+    fontWeight: "bold",
+    marginTop: 4
+  },
+  label: {
+    fontSize: 12,
+    textAlign: "center"
+  }
+});
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getFoodAnalyzer } from '@/services/vision';
+import { UsageSummary } from '@/services/vision/usage';
+
+// The signed in user's analysis usage and quota. usage stays null when the configured
+// analyzer does not track usage (local models and fixtures).
+export function useAnalysisUsage() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+
+  const refresh = useCallback(async () => {
+    const analyzer = getFoodAnalyzer();
+    if (!analyzer.getUsage) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      setUsage(await analyzer.getUsage());
+    } catch (err: any) {
+      console.error('Error loading analysis usage:', err);
+      setError(err?.message || 'Could not load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { usage, isLoading, error, refresh };
+}
@@ -0,0 +1,36 @@
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+// Surfaces and secondary shades used by cards, on top of the app's base Colors
+const CARD_COLORS = {
+  light: {
+    surface: '#fff',
+    border: '#ddd',
+    divider: '#eee',
+    secondaryText: '#666',
+    mutedText: '#888',
+    accent: '#4A90E2',
+    onAccent: '#fff',
+    warningBackground: '#FFF4E5',
+    warningText: '#8A5300',
+  },
+  dark: {
+    surface: '#1E2022',
+    border: '#3A3D40',
+    divider: '#2C2F33',
+    secondaryText: '#A5ABB0',
+    mutedText: '#8A9095',
+    accent: '#5AA2F0',
+    onAccent: '#fff',
+    warningBackground: '#3A2A10',
+    warningText: '#FFCC80',
+  },
+};
+
+export type CardColors = (typeof Colors)['light'] & (typeof CARD_COLORS)['light'];
+
+// Theme-aware colors for cards so they follow the light/dark scheme like the rest of the app
+export function useCardColors(): CardColors {
+  const colorScheme = useColorScheme() === 'dark' ? 'dark' : 'light';
+  return { ...Colors[colorScheme], ...CARD_COLORS[colorScheme] };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getPendingMeals } from '@/services/mealQueue';
+import { getMealRepository, mealsOnDay, subscribeToMealChanges, sumMealNutrients } from '@/services/meals';
+import { NutrientMap } from '@/services/nutrients';
+import { DailyGoals, DEFAULT_DAILY_GOALS, getProfileRepository } from '@/services/profile';
+import { dayBounds, getDeviceTimeZone, todayKey } from '@/services/timeZone';
+
+export interface DailyProgress {
+  day: string; // YYYY-MM-DD in timeZone
+  timeZone: string;
+  goals: DailyGoals;
+  hasCustomGoals: boolean; // false while the defaults are used
+  totals: NutrientMap;
+  mealCount: number;
+}
+
+// What the user has eaten today against their goals. Meals still waiting in the offline
+// queue are counted too, so the numbers match what the user just logged.
+export function useDailyProgress() {
+  const [progress, setProgress] = useState<DailyProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+
+      // Without the profile (e.g. offline) the defaults and the device's time zone still work
+      const profile = await getProfileRepository()
+        .get()
+        .catch(err => {
+          console.error('Error loading goals:', err);
+          return null;
+        });
+      const timeZone = profile?.timeZone || getDeviceTimeZone();
+      const day = todayKey(timeZone);
+
+      const [saved, pending] = await Promise.all([
+        getMealRepository().list(dayBounds(day, timeZone)),
+        getPendingMeals(),
+      ]);
+      const meals = [...saved, ...mealsOnDay(pending.map(item => item.meal), day, timeZone)];
+
+      setProgress({
+        day,
+        timeZone,
+        goals: profile?.goals ?? DEFAULT_DAILY_GOALS,
+        hasCustomGoals: !!profile?.goals,
+        totals: sumMealNutrients(meals),
+        mealCount: meals.length,
+      });
+    } catch (err: any) {
+      console.error('Error loading daily progress:', err);
+      setError(err?.message || 'Could not load today\'s meals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // A meal saved, edited or deleted anywhere in the app changes today's totals right away
+  useEffect(() => subscribeToMealChanges(refresh), [refresh]);
+
+  return { progress, isLoading, error, refresh };
+}
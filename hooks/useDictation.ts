@@ -0,0 +1,70 @@
+import { ExpoSpeechRecognitionModule, useSpeechRecognitionEvent } from 'expo-speech-recognition';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface Dictation {
+  isAvailable: boolean; // False when the device has no speech recognizer
+  isListening: boolean;
+  error?: string;
+  start: () => Promise<void>;
+  stop: () => void;
+}
+
+function isRecognitionAvailable(): boolean {
+  try {
+    return ExpoSpeechRecognitionModule.isRecognitionAvailable();
+  } catch {
+    return false;
+  }
+}
+
+// Speech to text for a text field. onTranscript receives the transcript so far, updated
+// while the user speaks; the screen decides how to combine it with what was typed.
+export function useDictation(onTranscript: (transcript: string) => void): Dictation {
+  const [isAvailable] = useState(isRecognitionAvailable);
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+  // The latest callback, so recognition events never call one from an earlier render
+  const transcriptListener = useRef(onTranscript);
+  transcriptListener.current = onTranscript;
+
+  useSpeechRecognitionEvent('start', () => setIsListening(true));
+  useSpeechRecognitionEvent('end', () => setIsListening(false));
+  useSpeechRecognitionEvent('result', event => {
+    const transcript = event.results[0]?.transcript.trim();
+    if (transcript) transcriptListener.current(transcript);
+  });
+  useSpeechRecognitionEvent('error', event => {
+    // Silence and stopping early are not failures
+    if (event.error === 'no-speech' || event.error === 'aborted') return;
+    console.error('Dictation error:', event.error, event.message);
+    setError(
+      event.error === 'not-allowed'
+        ? 'Allow microphone and speech recognition access in Settings to dictate.'
+        : 'Dictation stopped unexpectedly. Please try again.'
+    );
+  });
+
+  // Stop listening when the screen goes away
+  useEffect(() => () => ExpoSpeechRecognitionModule.abort(), []);
+
+  const start = useCallback(async () => {
+    setError(undefined);
+    try {
+      const { granted } = await ExpoSpeechRecognitionModule.requestPermissionsAsync();
+      if (!granted) {
+        setError('Allow microphone and speech recognition access in Settings to dictate.');
+        return;
+      }
+      ExpoSpeechRecognitionModule.start({ interimResults: true, addsPunctuation: true });
+    } catch (err) {
+      console.error('Error starting dictation:', err);
+      setError('Dictation is not available right now.');
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    ExpoSpeechRecognitionModule.stop();
+  }, []);
+
+  return { isAvailable, isListening, error, start, stop };
+}
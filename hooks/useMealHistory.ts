@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { getMealRepository, Meal, MealCursor, MealDayTotals, MealSearchFilters, subscribeToMealChanges } from '@/services/meals';
+import { getUserTimeZone } from '@/services/profile';
+import { dayKey } from '@/services/timeZone';
+
+export interface HistoryDay {
+  day: string; // YYYY-MM-DD in the user's time zone
+  meals: Meal[];
+  totals: MealDayTotals | null; // Whole-day subtotal, including meals on pages not loaded yet
+}
+
+// Meals matching the filters, a page at a time, grouped by day. Changing the filters
+// starts again from the newest meal, so pass a memoized object.
+export function useMealHistory(filters: MealSearchFilters) {
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [meals, setMeals] = useState<Meal[]>([]);
+  const [totals, setTotals] = useState<Record<string, MealDayTotals>>({});
+  const [nextCursor, setNextCursor] = useState<MealCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+  // Responses to a search the user has since replaced are dropped
+  const searchId = useRef(0);
+
+  useEffect(() => {
+    getUserTimeZone().then(setTimeZone);
+  }, []);
+
+  const loadTotals = useCallback(
+    async (page: Meal[], zone: string, id: number, known: Record<string, MealDayTotals>) => {
+      const days = [...new Set(page.map(meal => dayKey(meal.mealTime, zone)))].filter(day => !known[day]);
+      if (days.length === 0) return;
+      try {
+        const dayTotals = await getMealRepository().dayTotals(filters, days, zone);
+        if (id !== searchId.current) return;
+        setTotals(current => ({ ...current, ...Object.fromEntries(dayTotals.map(item => [item.day, item])) }));
+      } catch (err) {
+        // The meals are still worth showing without their subtotals
+        console.error('Error loading day totals:', err);
+      }
+    },
+    [filters]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!timeZone) return;
+    const id = ++searchId.current;
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const page = await getMealRepository().search(filters, { timeZone });
+      if (id !== searchId.current) return;
+      setMeals(page.meals);
+      setNextCursor(page.nextCursor);
+      setTotals({});
+      loadTotals(page.meals, timeZone, id, {});
+    } catch (err: any) {
+      if (id !== searchId.current) return;
+      console.error('Error loading meal history:', err);
+      setError(err?.message || 'Could not load your meals');
+    } finally {
+      if (id === searchId.current) setIsLoading(false);
+    }
+  }, [filters, timeZone, loadTotals]);
+
+  const loadMore = useCallback(async () => {
+    if (!timeZone || !nextCursor || isLoading || isLoadingMore) return;
+    const id = searchId.current;
+    try {
+      setIsLoadingMore(true);
+      setError(undefined);
+      const page = await getMealRepository().search(filters, { timeZone, cursor: nextCursor });
+      if (id !== searchId.current) return;
+      setMeals(current => [...current, ...page.meals]);
+      setNextCursor(page.nextCursor);
+      loadTotals(page.meals, timeZone, id, totals);
+    } catch (err: any) {
+      console.error('Error loading more meals:', err);
+      setError(err?.message || 'Could not load more meals');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [filters, timeZone, nextCursor, isLoading, isLoadingMore, totals, loadTotals]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Meals saved, edited or deleted elsewhere (including an undo) reload the list from the top
+  useEffect(() => subscribeToMealChanges(refresh), [refresh]);
+
+  const days = useMemo<HistoryDay[]>(() => {
+    if (!timeZone) return [];
+    const grouped: HistoryDay[] = [];
+    for (const meal of meals) {
+      const day = dayKey(meal.mealTime, timeZone);
+      const last = grouped[grouped.length - 1];
+      if (last?.day === day) {
+        last.meals.push(meal);
+      } else {
+        grouped.push({ day, meals: [meal], totals: null });
+      }
+    }
+    return grouped.map(group => ({ ...group, totals: totals[group.day] ?? null }));
+  }, [meals, totals, timeZone]);
+
+  return {
+    days,
+    timeZone,
+    hasMore: !!nextCursor,
+    isLoading: isLoading || !timeZone,
+    isLoadingMore,
+    error,
+    refresh,
+    loadMore,
+  };
+}
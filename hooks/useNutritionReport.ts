@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { subscribeToMealChanges } from '@/services/meals';
+import { loadNutritionReport, NutritionReport, ReportPeriodKind } from '@/services/reports';
+
+// The weekly or monthly report; offset 0 is the current period, -1 the one before and so on
+export function useNutritionReport(kind: ReportPeriodKind, offset: number) {
+  const [report, setReport] = useState<NutritionReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+  // Responses for a period the user has since moved away from are dropped
+  const requestId = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const id = ++requestId.current;
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const loaded = await loadNutritionReport(kind, offset);
+      if (id === requestId.current) setReport(loaded);
+    } catch (err: any) {
+      if (id !== requestId.current) return;
+      console.error('Error loading report:', err);
+      setError(err?.message || 'Could not load your report');
+    } finally {
+      if (id === requestId.current) setIsLoading(false);
+    }
+  }, [kind, offset]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => subscribeToMealChanges(refresh), [refresh]);
+
+  return { report, isLoading, error, refresh };
+}
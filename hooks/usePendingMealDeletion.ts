@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { getPendingDeletion, Meal, subscribeToMealDeletion } from '@/services/meals';
+
+// The meal deleted last while it can still be restored, otherwise null
+export function usePendingMealDeletion(): Meal | null {
+  const [meal, setMeal] = useState<Meal | null>(getPendingDeletion);
+
+  useEffect(() => subscribeToMealDeletion(setMeal), []);
+
+  return meal;
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { getPendingMeals, PendingMeal, subscribeToMealQueue } from '@/services/mealQueue';
+
+// Meals saved on this device that have not reached Supabase yet
+export function usePendingMeals(): PendingMeal[] {
+  const [pending, setPending] = useState<PendingMeal[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    getPendingMeals().then(queue => {
+      if (isMounted) setPending(queue);
+    });
+    const unsubscribe = subscribeToMealQueue(setPending);
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return pending;
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getProfileRepository, Profile, ProfileChanges } from '@/services/profile';
+
+// The signed in user's profile, with a save that keeps the screen in step
+export function useProfile() {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      setProfile(await getProfileRepository().get());
+    } catch (err: any) {
+      console.error('Error loading profile:', err);
+      setError(err?.message || 'Could not load your profile');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Throws so the caller can tell the user the save failed
+  const updateProfile = useCallback(async (changes: ProfileChanges) => {
+    const updated = await getProfileRepository().update(changes);
+    setProfile(updated);
+    return updated;
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { profile, isLoading, error, refresh, updateProfile };
+}
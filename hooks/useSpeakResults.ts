@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getSpeakResultsEnabled, setSpeakResultsEnabled, stopSpeaking } from '@/services/analysisSpeech';
+
+// Whether finished analyses are read aloud, with a toggle that persists the choice
+export function useSpeakResults(): [boolean, () => void] {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    getSpeakResultsEnabled().then(value => {
+      if (isMounted) setEnabled(value);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const toggle = useCallback(() => {
+    const next = !enabled;
+    setEnabled(next);
+    if (!next) stopSpeaking();
+    setSpeakResultsEnabled(next);
+  }, [enabled]);
+
+  return [enabled, toggle];
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getProfileRepository, WeightEntry } from '@/services/profile';
+
+const WEIGHT_LOG_LIMIT = 30;
+
+// The user's recent weigh-ins, newest first. entries[0] is the current weight.
+export function useWeightLog() {
+  const [entries, setEntries] = useState<WeightEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      setEntries(await getProfileRepository().listWeights({ limit: WEIGHT_LOG_LIMIT }));
+    } catch (err: any) {
+      console.error('Error loading weight log:', err);
+      setError(err?.message || 'Could not load your weight log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Both throw so the caller can tell the user the change failed
+  const logWeight = useCallback(async (weightKg: number) => {
+    const entry = await getProfileRepository().logWeight(weightKg);
+    setEntries(current =>
+      [entry, ...current].sort((a, b) => b.measuredAt.localeCompare(a.measuredAt)).slice(0, WEIGHT_LOG_LIMIT)
+    );
+    return entry;
+  }, []);
+
+  const deleteWeight = useCallback(async (id: string) => {
+    await getProfileRepository().deleteWeight(id);
+    setEntries(current => current.filter(entry => entry.id !== id));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { entries, isLoading, error, refresh, logWeight, deleteWeight };
+}
@@ -0,0 +1,15 @@
+import { isNutrientKey } from '../nutrients';
+
+describe('isNutrientKey', () => {
+  it('knows the nutrients in the map', () => {
+    expect(isNutrientKey('calories')).toBe(true);
+    expect(isNutrientKey('sodium')).toBe(true);
+    expect(isNutrientKey('taurine')).toBe(false);
+  });
+
+  it('does not take built-in object keys for nutrients', () => {
+    expect(isNutrientKey('constructor')).toBe(false);
+    expect(isNutrientKey('toString')).toBe(false);
+    expect(isNutrientKey('__proto__')).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { addDays, dayBounds, dayKey, hourOf, startOfDay, timeOfDay, zonedTime } from '../timeZone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function dayLengthHours(day: string, timeZone: string): number {
+  const { from, to } = dayBounds(day, timeZone);
+  return (Date.parse(to) - Date.parse(from)) / HOUR_MS;
+}
+
+describe('dayKey', () => {
+  it('counts a late evening meal for that evening in the user time zone', () => {
+    // 23:30 in Paris is already the next day in UTC
+    expect(dayKey('2025-06-09T21:30:00Z', 'Europe/Paris')).toBe('2025-06-09');
+    expect(dayKey('2025-06-09T22:30:00Z', 'Europe/Paris')).toBe('2025-06-10');
+    expect(dayKey('2025-06-09T22:30:00Z', 'UTC')).toBe('2025-06-09');
+  });
+
+  it('puts an early UTC morning on the previous day west of UTC', () => {
+    expect(dayKey('2025-06-10T03:00:00Z', 'America/New_York')).toBe('2025-06-09');
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year ends', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2025-01-01', -1)).toBe('2024-12-31');
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2025-02-28', 1)).toBe('2025-03-01');
+  });
+});
+
+describe('startOfDay and dayBounds', () => {
+  it('starts the day at local midnight', () => {
+    expect(startOfDay('2025-06-09', 'Europe/Paris').toISOString()).toBe('2025-06-08T22:00:00.000Z');
+    expect(startOfDay('2025-01-09', 'Europe/Paris').toISOString()).toBe('2025-01-08T23:00:00.000Z');
+    expect(startOfDay('2025-06-09', 'Asia/Kolkata').toISOString()).toBe('2025-06-08T18:30:00.000Z');
+  });
+
+  it('gives days the clocks change on their real length', () => {
+    expect(dayLengthHours('2025-03-29', 'Europe/Paris')).toBe(24);
+    expect(dayLengthHours('2025-03-30', 'Europe/Paris')).toBe(23);
+    expect(dayLengthHours('2025-10-26', 'Europe/Paris')).toBe(25);
+    expect(dayLengthHours('2025-03-09', 'America/New_York')).toBe(23);
+    expect(dayLengthHours('2025-11-02', 'America/New_York')).toBe(25);
+  });
+
+  it('leaves no gap or overlap between consecutive days', () => {
+    for (const day of ['2025-03-29', '2025-03-30', '2025-10-25', '2025-10-26']) {
+      expect(dayBounds(day, 'Europe/Paris').to).toBe(dayBounds(addDays(day, 1), 'Europe/Paris').from);
+    }
+  });
+});
+
+describe('zonedTime', () => {
+  it('uses the offset in force at that wall clock time', () => {
+    // Paris moves from UTC+1 to UTC+2 at 02:00 on 2025-03-30
+    expect(zonedTime('2025-03-30', 1, 30, 'Europe/Paris').toISOString()).toBe('2025-03-30T00:30:00.000Z');
+    expect(zonedTime('2025-03-30', 12, 0, 'Europe/Paris').toISOString()).toBe('2025-03-30T10:00:00.000Z');
+    expect(zonedTime('2025-10-26', 12, 0, 'Europe/Paris').toISOString()).toBe('2025-10-26T11:00:00.000Z');
+  });
+});
+
+describe('hourOf and timeOfDay', () => {
+  it('read the wall clock in the time zone', () => {
+    expect(hourOf('2025-06-09T21:30:00Z', 'Europe/Paris')).toBe(23);
+    expect(timeOfDay('2025-06-09T21:30:00Z', 'Europe/Paris')).toBe('23:30');
+    expect(hourOf('2025-06-09T22:30:00Z', 'Europe/Paris')).toBe(0);
+    expect(timeOfDay('2025-06-09T22:05:00Z', 'Asia/Kolkata')).toBe('03:35');
+  });
+});
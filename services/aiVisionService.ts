@@ -1,95 +1,92 @@
-import Constants from "expo-constants";
 import * as FileSystem from 'expo-file-system';
+import { getFoodAnalyzer } from './vision';
+import { buildCacheKey, getCachedAnalysis, hashAnalysisInput, setCachedAnalysis } from './vision/analysisCache';
+import { RequestOptions } from './vision/http';
+import { AnalysisInput } from './vision/pipeline';
+import { FoodAnalysisResult } from './vision/result';
+import { VisionTask } from './vision/types';
 
-// Access the API key from environment variables via Constants
-const OPENAI_KEY = Constants.expoConfig?.extra?.openaiApiKey || process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-const OPENAI_URL = "https://api.openai.com/v1/chat/completions";
+export * from './vision/result';
 
-export interface FoodAnalysisResult {
-  name: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  description: string;
+export interface AnalyzeOptions extends RequestOptions {
+  forceRefresh?: boolean; // Skip the cache and always ask the analyzer again
 }
 
-export async function analyzeFoodImage(imageUri: string): Promise<FoodAnalysisResult> {
-  try {
-    // Convert image to base64 if it's a local URI
-    let base64Image = imageUri;
-    if (imageUri.startsWith('file://')) {
-      base64Image = await FileSystem.readAsStringAsync(imageUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-    }
-    
-    // Make sure we have a proper base64 string for the API
-    if (!base64Image.startsWith('data:image')) {
-      base64Image = `data:image/jpeg;base64,${base64Image}`;
-    }
-    
-    const res = await fetch(OPENAI_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${OPENAI_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o", // Using the latest model with vision capabilities
-        max_tokens: 500,
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content: "You are a helpful nutritionist that analyzes food images. Identify the food and provide nutrition information. ALWAYS respond in JSON format with the following structure EXACTLY: {\"name\": \"Food name\", \"calories\": number, \"protein\": number, \"carbs\": number, \"fat\": number, \"description\": \"Brief description with additional nutrition info\"}. Use 0 for any nutritional value you cannot determine."
-          },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: "What food is in this image? Return a JSON object with the food name, calories, protein (g), carbs (g), fat (g), and a brief description." },
-              { type: "image_url", image_url: { url: base64Image } }
-            ]
-          }
-        ],
-      }),
+// Read a local image as the data URL the providers expect
+async function readImageAsDataUrl(imageUri: string): Promise<string> {
+  // Convert image to base64 if it's a local URI
+  let base64Image = imageUri;
+  if (imageUri.startsWith('file://')) {
+    base64Image = await FileSystem.readAsStringAsync(imageUri, {
+      encoding: FileSystem.EncodingType.Base64,
     });
+  }
+  
+  // Make sure we have a proper base64 string for the API
+  if (!base64Image.startsWith('data:image')) {
+    base64Image = `data:image/jpeg;base64,${base64Image}`;
+  }
+  return base64Image;
+}
 
-    if (!res.ok) {
-      const errorData = await res.json();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI error ${res.status}: ${errorData.error?.message || 'Unknown error'}`);
-    }
-    
-    const data = await res.json();
-    const contentString = data.choices?.[0]?.message?.content ?? "{}";
-    
-    try {
-      // Parse the JSON response
-      const parsedContent = JSON.parse(contentString);
-      
-      // Ensure all required fields exist with correct types
-      return {
-        name: parsedContent.name || "Unknown Food",
-        calories: Number(parsedContent.calories) || 0,
-        protein: Number(parsedContent.protein) || 0,
-        carbs: Number(parsedContent.carbs) || 0,
-        fat: Number(parsedContent.fat) || 0,
-        description: parsedContent.description || "No description available"
-      };
-    } catch (parseError) {
-      console.error('Error parsing OpenAI response:', parseError, contentString);
-      return {
-        name: "Unknown Food",
-        calories: 0,
-        protein: 0,
-        carbs: 0,
-        fat: 0,
-        description: contentString.substring(0, 500) // Use raw text as fallback
-      };
+// Stray whitespace from typing or dictation should not change the analysis
+function normalizeDescription(description: string): string {
+  return description.trim().replace(/\s+/g, ' ');
+}
+
+async function runAnalysis(task: VisionTask, input: AnalysisInput, options: AnalyzeOptions): Promise<FoodAnalysisResult> {
+  const analyzer = getFoodAnalyzer();
+  const { forceRefresh, ...requestOptions } = options;
+  
+  // Reuse an earlier analysis of the exact same input, task, prompt and model;
+  // descriptions that only differ in letter case share an entry
+  const inputHash = await hashAnalysisInput(input.imageDataUrl ?? input.text?.toLowerCase() ?? '');
+  if (!forceRefresh) {
+    const { model, promptVersion } = await analyzer.getVersion();
+    const cached = await getCachedAnalysis(buildCacheKey(inputHash, task, promptVersion, model));
+    if (cached) {
+      console.log(`Using cached ${task} analysis`);
+      return cached;
     }
+  }
+  
+  const result = await analyzer.analyze(task, input, requestOptions);
+  
+  // Stored under the version that produced it, which the backend reports with each answer
+  const { model, promptVersion } = await analyzer.getVersion();
+  await setCachedAnalysis(buildCacheKey(inputHash, task, promptVersion, model), result);
+  return result;
+}
+
+export async function analyzeFoodImage(imageUri: string, options: AnalyzeOptions = {}): Promise<FoodAnalysisResult> {
+  try {
+    return await runAnalysis('photo', { imageDataUrl: await readImageAsDataUrl(imageUri) }, options);
   } catch (error) {
     console.error('Error in analyzeFoodImage:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Read the per-serving facts table of a nutrition label photo
+export async function analyzeNutritionLabel(imageUri: string, options: AnalyzeOptions = {}): Promise<FoodAnalysisResult> {
+  try {
+    return await runAnalysis('label', { imageDataUrl: await readImageAsDataUrl(imageUri) }, options);
+  } catch (error) {
+    console.error('Error in analyzeNutritionLabel:', error);
+    throw error;
+  }
+}
+
+// Estimate a meal from a typed or dictated description, e.g. "two eggs and toast with butter"
+export async function analyzeMealDescription(description: string, options: AnalyzeOptions = {}): Promise<FoodAnalysisResult> {
+  try {
+    const text = normalizeDescription(description);
+    if (!text) {
+      throw new Error('Meal description is empty');
+    }
+    return await runAnalysis('text', { text }, options);
+  } catch (error) {
+    console.error('Error in analyzeMealDescription:', error);
+    throw error;
+  }
+}
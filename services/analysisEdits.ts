@@ -0,0 +1,88 @@
+import { FoodAnalysisResult, FoodItem } from './aiVisionService';
+import {
+  NutrientKey,
+  NutrientMap,
+  presentNutrientKeys,
+  roundNutrient,
+  scaleNutrientRanges,
+  scaleNutrients,
+} from './nutrients';
+
+// Portion chosen by the user: a quick multiplier or an exact weight in grams
+export type PortionSelection =
+  | { kind: 'multiplier'; value: number }
+  | { kind: 'grams'; grams: number };
+
+export const PORTION_MULTIPLIERS = [0.5, 1, 2];
+
+// User corrections on top of the AI estimate. Nutrients are stored for a 1× portion
+// so changing the portion always rescales from the same base.
+export interface AnalysisEdits {
+  name: string;
+  nutrients: NutrientMap;
+  portion: PortionSelection;
+}
+
+export function createInitialEdits(result: FoodAnalysisResult): AnalysisEdits {
+  return {
+    name: result.name,
+    nutrients: { ...result.nutrients },
+    portion: { kind: 'multiplier', value: 1 },
+  };
+}
+
+export function totalGrams(result: FoodAnalysisResult): number {
+  return result.items.reduce((sum, item) => sum + item.grams, 0);
+}
+
+// Turn a portion selection into a scale factor relative to the AI estimate. A gram weight
+// needs an estimated weight to scale from; the edit form only offers it when there is one.
+export function portionFactor(result: FoodAnalysisResult, portion: PortionSelection): number {
+  if (portion.kind === 'multiplier') {
+    return portion.value;
+  }
+  const estimatedGrams = totalGrams(result);
+  return estimatedGrams > 0 ? portion.grams / estimatedGrams : 1;
+}
+
+function scaleItem(item: FoodItem, factor: number): FoodItem {
+  return {
+    ...item,
+    grams: Math.round(item.grams * factor),
+    nutrients: scaleNutrients(item.nutrients, factor),
+    ranges: scaleNutrientRanges(item.ranges, factor),
+  };
+}
+
+function editedNutrientKeys(result: FoodAnalysisResult, edits: AnalysisEdits): NutrientKey[] {
+  return presentNutrientKeys(edits.nutrients).filter(key => edits.nutrients[key] !== result.nutrients[key]);
+}
+
+// Apply the user's corrections to the AI estimate; the original is left untouched
+export function applyEdits(result: FoodAnalysisResult, edits: AnalysisEdits): FoodAnalysisResult {
+  const factor = portionFactor(result, edits.portion);
+  const nutrients = scaleNutrients(edits.nutrients, factor);
+  const ranges = scaleNutrientRanges(result.ranges, factor);
+
+  // A value the user typed in is no longer a guess, so its range collapses to that value
+  for (const key of editedNutrientKeys(result, edits)) {
+    const value = roundNutrient(key, nutrients[key] as number);
+    ranges[key] = { low: value, high: value };
+  }
+
+  return {
+    ...result,
+    name: edits.name.trim() || result.name,
+    nutrients,
+    ranges,
+    items: result.items.map(item => scaleItem(item, factor)),
+  };
+}
+
+export function hasEdits(result: FoodAnalysisResult, edits: AnalysisEdits): boolean {
+  return (
+    edits.name.trim() !== result.name ||
+    editedNutrientKeys(result, edits).length > 0 ||
+    portionFactor(result, edits.portion) !== 1
+  );
+}
@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+import { FoodAnalysisResult } from './aiVisionService';
+import { ValueRange } from './nutrients';
+
+const SPEAK_RESULTS_STORAGE_KEY = 'settings:speakResults';
+
+const CONFIDENCE_SPEECH = {
+  low: 'The AI is not very confident, please check the numbers before saving.',
+  medium: 'Medium confidence.',
+  high: '',
+};
+
+function spokenRange(range: ValueRange): string {
+  return range.low === range.high ? '' : `, between ${range.low} and ${range.high}`;
+}
+
+// A short sentence-style summary that works both for speech and screen reader announcements
+export function buildSpokenSummary(result: FoodAnalysisResult): string {
+  const { nutrients, ranges } = result;
+  const parts = [
+    `${result.name}.`,
+    result.serving ? `Per serving of ${result.serving.size}.` : '',
+    `About ${nutrients.calories} calories${spokenRange(ranges.calories)}.`,
+    `${nutrients.protein} grams of protein, ${nutrients.carbs} grams of carbs and ${nutrients.fat} grams of fat.`,
+    CONFIDENCE_SPEECH[result.confidence],
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+// Read the summary aloud, interrupting anything still being spoken
+export function speakAnalysis(result: FoodAnalysisResult): void {
+  Speech.stop();
+  Speech.speak(buildSpokenSummary(result));
+}
+
+export function stopSpeaking(): void {
+  Speech.stop();
+}
+
+// Spoken read-back is opt-in and remembered on this device
+export async function getSpeakResultsEnabled(): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(SPEAK_RESULTS_STORAGE_KEY)) === 'true';
+  } catch (error) {
+    console.error('Error reading speech preference:', error);
+    return false;
+  }
+}
+
+export async function setSpeakResultsEnabled(enabled: boolean): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SPEAK_RESULTS_STORAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Error saving speech preference:', error);
+  }
+}
@@ -0,0 +1,149 @@
+import Constants from 'expo-constants';
+import { ProductDatabaseConfig, ProductDatabaseName } from '@/services/products/types';
+import { VisionConfig, VisionProviderName } from '@/services/vision/types';
+
+// Which backend the build talks to. Chosen with APP_PROFILE when the app is built or started;
+// app.config.js loads .env.<profile> and passes the values through `extra`.
+export const APP_PROFILES = ['development', 'staging', 'production'] as const;
+export type AppProfile = (typeof APP_PROFILES)[number];
+
+export interface AppConfig {
+  profile: AppProfile;
+  supabase: {
+    url: string;
+    anonKey: string;
+  };
+  vision: VisionConfig & { provider: VisionProviderName; endpointUrl: string };
+  products: ProductDatabaseConfig;
+  linking: {
+    scheme: string; // e.g. foodnsap, so links look like foodnsap://reset-password
+  };
+}
+
+const ANALYSIS_FUNCTION_PATH = '/functions/v1/analyze-food';
+// The app only talks to OpenAI through the backend, which holds the key
+const APP_VISION_PROVIDERS: VisionProviderName[] = ['backend', 'openai-compatible', 'stub'];
+const PRODUCT_DATABASES: ProductDatabaseName[] = ['openfoodfacts', 'fixture'];
+
+// Thrown at startup when the build is missing configuration or has values that cannot work
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`The app configuration is invalid:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+// Unset, empty and "your_..." template values all count as missing
+function readString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed && !/^your[_-]/i.test(trimmed) ? trimmed : undefined;
+}
+
+// Environment variables arrive as strings
+function readNumber(value: unknown, name: string, problems: string[]): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    problems.push(`${name} must be a non-negative number, got "${value}"`);
+    return undefined;
+  }
+  return parsed;
+}
+
+function isHttpUrl(value: string, requireHttps: boolean): boolean {
+  return requireHttps ? /^https:\/\/\S+$/.test(value) : /^https?:\/\/\S+$/.test(value);
+}
+
+// Validate everything at once so a broken build lists every problem, not just the first
+export function parseAppConfig(extra: Record<string, any>, scheme: unknown): AppConfig {
+  const problems: string[] = [];
+
+  const profile = (extra.profile ?? 'development') as AppProfile;
+  if (!APP_PROFILES.includes(profile)) {
+    problems.push(`APP_PROFILE must be one of ${APP_PROFILES.join(', ')}, got "${extra.profile}"`);
+  }
+  const isProduction = profile === 'production';
+
+  const supabaseUrl = readString(extra.supabase?.url);
+  const supabaseAnonKey = readString(extra.supabase?.anonKey);
+  if (!supabaseUrl) {
+    problems.push('EXPO_PUBLIC_SUPABASE_URL is not set');
+  } else if (!isHttpUrl(supabaseUrl, isProduction)) {
+    problems.push(`EXPO_PUBLIC_SUPABASE_URL must be an ${isProduction ? 'https' : 'http(s)'} URL, got "${supabaseUrl}"`);
+  }
+  if (!supabaseAnonKey) {
+    problems.push('EXPO_PUBLIC_SUPABASE_ANON_KEY is not set');
+  }
+
+  const visionProvider = (readString(extra.vision?.provider) ?? 'backend') as VisionProviderName;
+  if (!APP_VISION_PROVIDERS.includes(visionProvider)) {
+    problems.push(`EXPO_PUBLIC_VISION_PROVIDER must be one of ${APP_VISION_PROVIDERS.join(', ')}, got "${visionProvider}"`);
+  } else if (isProduction && visionProvider !== 'backend') {
+    problems.push(`Production builds must analyze food through the backend, not "${visionProvider}"`);
+  }
+  const visionBaseUrl = readString(extra.vision?.baseUrl);
+  if (visionProvider === 'openai-compatible' && !visionBaseUrl) {
+    problems.push('EXPO_PUBLIC_VISION_BASE_URL is required by the openai-compatible vision provider');
+  }
+
+  const productDatabase = (readString(extra.products?.provider) ?? 'openfoodfacts') as ProductDatabaseName;
+  if (!PRODUCT_DATABASES.includes(productDatabase)) {
+    problems.push(`EXPO_PUBLIC_PRODUCTS_PROVIDER must be one of ${PRODUCT_DATABASES.join(', ')}, got "${productDatabase}"`);
+  }
+
+  const linkingScheme = readString(scheme);
+  if (!linkingScheme) {
+    problems.push('The app has no URL scheme, so sign-in and password reset links cannot open it');
+  }
+
+  const vision = {
+    provider: visionProvider,
+    endpointUrl: readString(extra.vision?.endpointUrl) ?? `${supabaseUrl}${ANALYSIS_FUNCTION_PATH}`,
+    model: readString(extra.vision?.model),
+    baseUrl: visionBaseUrl,
+    stubFixture: readString(extra.vision?.stubFixture),
+    timeoutMs: readNumber(extra.vision?.timeoutMs, 'EXPO_PUBLIC_VISION_TIMEOUT_MS', problems),
+    maxRetries: readNumber(extra.vision?.maxRetries, 'EXPO_PUBLIC_VISION_MAX_RETRIES', problems),
+  };
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return {
+    profile,
+    supabase: { url: supabaseUrl as string, anonKey: supabaseAnonKey as string },
+    vision,
+    products: { provider: productDatabase, baseUrl: readString(extra.products?.baseUrl) },
+    linking: { scheme: linkingScheme as string },
+  };
+}
+
+let loadedConfig: { config: AppConfig | null; error: ConfigError | null } | null = null;
+
+// Parsed once from the Expo config; the root layout shows the error instead of the app
+export function loadAppConfig(): { config: AppConfig | null; error: ConfigError | null } {
+  if (!loadedConfig) {
+    try {
+      const expoConfig = Constants.expoConfig;
+      loadedConfig = { config: parseAppConfig(expoConfig?.extra ?? {}, expoConfig?.scheme), error: null };
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      console.error(error.message);
+      loadedConfig = { config: null, error };
+    }
+  }
+  return loadedConfig;
+}
+
+export function getAppConfig(): AppConfig {
+  const { config, error } = loadAppConfig();
+  if (!config) {
+    throw error;
+  }
+  return config;
+}
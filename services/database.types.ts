@@ -0,0 +1,322 @@
+// Generated by `npm run gen:types` (supabase gen types typescript --local) from supabase/migrations.
+// Do not edit by hand; change the schema with a migration and regenerate.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      analysis_quotas: {
+        Row: {
+          daily_limit: number | null
+          monthly_limit: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          daily_limit?: number | null
+          monthly_limit?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          daily_limit?: number | null
+          monthly_limit?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      analysis_usage: {
+        Row: {
+          completion_tokens: number
+          cost_usd: number
+          created_at: string
+          guest_network: string | null
+          id: number
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          requests: number
+          status: string
+          task: string
+          total_tokens: number
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          guest_network?: string | null
+          id?: never
+          latency_ms: number
+          model: string
+          prompt_tokens?: number
+          requests?: number
+          status: string
+          task: string
+          total_tokens?: number
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          guest_network?: string | null
+          id?: never
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number
+          requests?: number
+          status?: string
+          task?: string
+          total_tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      meals: {
+        Row: {
+          calories: number
+          carbs: number
+          client_id: string
+          created_at: string
+          fat: number
+          id: string
+          image_url: string | null
+          items: Json
+          meal_time: string
+          name: string
+          name_search: unknown
+          nutrients: Json
+          original_estimate: Json | null
+          portion_factor: number
+          protein: number
+          source: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calories?: number
+          carbs?: number
+          client_id?: string
+          created_at?: string
+          fat?: number
+          id?: string
+          image_url?: string | null
+          items?: Json
+          meal_time?: string
+          name: string
+          name_search?: never
+          nutrients?: Json
+          original_estimate?: Json | null
+          portion_factor?: number
+          protein?: number
+          source?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calories?: number
+          carbs?: number
+          client_id?: string
+          created_at?: string
+          fat?: number
+          id?: string
+          image_url?: string | null
+          items?: Json
+          meal_time?: string
+          name?: string
+          name_search?: never
+          nutrients?: Json
+          original_estimate?: Json | null
+          portion_factor?: number
+          protein?: number
+          source?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          activity_level: string | null
+          birth_year: number | null
+          calorie_goal: number | null
+          carbs_goal: number | null
+          created_at: string
+          fat_goal: number | null
+          height_cm: number | null
+          protein_goal: number | null
+          sex: string | null
+          time_zone: string | null
+          updated_at: string
+          user_id: string
+          weekly_rate_kg: number | null
+          weight_goal: string | null
+        }
+        Insert: {
+          activity_level?: string | null
+          birth_year?: number | null
+          calorie_goal?: number | null
+          carbs_goal?: number | null
+          created_at?: string
+          fat_goal?: number | null
+          height_cm?: number | null
+          protein_goal?: number | null
+          sex?: string | null
+          time_zone?: string | null
+          updated_at?: string
+          user_id: string
+          weekly_rate_kg?: number | null
+          weight_goal?: string | null
+        }
+        Update: {
+          activity_level?: string | null
+          birth_year?: number | null
+          calorie_goal?: number | null
+          carbs_goal?: number | null
+          created_at?: string
+          fat_goal?: number | null
+          height_cm?: number | null
+          protein_goal?: number | null
+          sex?: string | null
+          time_zone?: string | null
+          updated_at?: string
+          user_id?: string
+          weekly_rate_kg?: number | null
+          weight_goal?: string | null
+        }
+        Relationships: []
+      }
+      weight_entries: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          id: string
+          measured_at: string
+          user_id: string
+          weight_kg: number
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          measured_at?: string
+          user_id?: string
+          weight_kg: number
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          measured_at?: string
+          user_id?: string
+          weight_kg?: number
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      filtered_meals: {
+        Args: {
+          p_time_zone: string
+          p_query?: string | null
+          p_from?: string | null
+          p_to?: string | null
+          p_meal_types?: string[] | null
+          p_min_calories?: number | null
+          p_max_calories?: number | null
+        }
+        Returns: Database["public"]["Tables"]["meals"]["Row"][]
+      }
+      insert_meal: {
+        Args: {
+          p_name: string
+          p_thumbnail_url: string | null
+          p_calories: number
+          p_protein: number
+          p_carbs: number
+          p_fat: number
+          p_items?: Json
+          p_original_estimate?: Json | null
+          p_portion_factor?: number
+          p_client_id?: string
+          p_meal_time?: string
+          p_nutrients?: Json
+          p_source?: string
+        }
+        Returns: Database["public"]["Tables"]["meals"]["Row"]
+      }
+      meal_day_totals: {
+        Args: {
+          p_time_zone: string
+          p_days: string[]
+          p_query?: string | null
+          p_meal_types?: string[] | null
+          p_min_calories?: number | null
+          p_max_calories?: number | null
+        }
+        Returns: {
+          day: string
+          meal_count: number
+          calories: number
+          protein: number
+          carbs: number
+          fat: number
+        }[]
+      }
+      meal_name_query: {
+        Args: {
+          p_text: string
+        }
+        Returns: unknown
+      }
+      meal_type_at: {
+        Args: {
+          p_meal_time: string
+          p_time_zone: string
+        }
+        Returns: string
+      }
+      search_meals: {
+        Args: {
+          p_time_zone: string
+          p_query?: string | null
+          p_from?: string | null
+          p_to?: string | null
+          p_meal_types?: string[] | null
+          p_min_calories?: number | null
+          p_max_calories?: number | null
+          p_cursor_time?: string | null
+          p_cursor_id?: string | null
+          p_limit?: number
+        }
+        Returns: Database["public"]["Tables"]["meals"]["Row"][]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
@@ -0,0 +1,233 @@
+import 'react-native-get-random-values';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { v4 as uuidv4 } from 'uuid';
+import { getMealRepository, MealRecord, notifyMealChanges } from './meals';
+import { supabase } from '@/src/services/supabase';
+
+const QUEUE_STORAGE_KEY = 'mealQueue:v1';
+const QUEUE_IMAGE_DIR = `${FileSystem.documentDirectory}meal-queue/`;
+
+export interface PendingMeal {
+  clientId: string; // Idempotency key sent with insert_meal so retries never duplicate a meal
+  userId: string; // Who saved it; only synced, shown and counted while that user is signed in
+  imageUri: string | null; // Durable copy of the photo inside the app's document directory, if there is one
+  thumbnailUrl?: string; // Set once the upload succeeded so it is not repeated, or a product image URL
+  meal: MealRecord; // Everything needed to create the meal once we are back online
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+// The user meals are queued for. Guests save to the device, which needs no connection.
+export interface MealQueueOwner {
+  userId: string;
+  isGuest: boolean;
+}
+
+type QueueListener = (pending: PendingMeal[]) => void;
+
+const listeners = new Set<QueueListener>();
+let owner: MealQueueOwner | null = null;
+let flushPromise: Promise<void> | null = null;
+// Tail of the chain every queue write goes through, so two writers never interleave
+let queueLock: Promise<unknown> = Promise.resolve();
+
+async function readQueue(): Promise<PendingMeal[]> {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading meal queue:', error);
+    return [];
+  }
+}
+
+// Meals queued by other users stay parked until they sign in again
+function ownedByCurrentUser(queue: PendingMeal[]): PendingMeal[] {
+  return owner ? queue.filter(item => item.userId === owner?.userId) : [];
+}
+
+function notifyListeners(queue: PendingMeal[]): void {
+  const pending = ownedByCurrentUser(queue);
+  listeners.forEach(listener => listener(pending));
+}
+
+async function writeQueue(queue: PendingMeal[]): Promise<void> {
+  await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  notifyListeners(queue);
+}
+
+// Read, change and write the queue under the lock. Changes always start from the stored
+// queue rather than an earlier snapshot, so a meal enqueued during a flush is never lost.
+function mutateQueue(change: (queue: PendingMeal[]) => PendingMeal[]): Promise<void> {
+  const result = queueLock.then(async () => {
+    await writeQueue(change(await readQueue()));
+  });
+  queueLock = result.catch(() => {});
+  return result;
+}
+
+async function updatePendingMeal(
+  clientId: string,
+  changes: (pending: PendingMeal) => Partial<PendingMeal>
+): Promise<void> {
+  await mutateQueue(queue => queue.map(item => (item.clientId === clientId ? { ...item, ...changes(item) } : item)));
+}
+
+async function removePendingMeal(pending: PendingMeal): Promise<void> {
+  await mutateQueue(queue => queue.filter(item => item.clientId !== pending.clientId));
+  if (pending.imageUri) {
+    await FileSystem.deleteAsync(pending.imageUri, { idempotent: true });
+  }
+}
+
+// Copy the photo out of the cache directory so the OS cannot purge it before upload
+async function persistImage(imageUri: string, clientId: string): Promise<string> {
+  await FileSystem.makeDirectoryAsync(QUEUE_IMAGE_DIR, { intermediates: true }).catch(() => {});
+  const target = `${QUEUE_IMAGE_DIR}${clientId}.jpg`;
+  await FileSystem.copyAsync({ from: imageUri, to: target });
+  return target;
+}
+
+async function syncPendingMeal(pending: PendingMeal): Promise<void> {
+  const repository = getMealRepository();
+  let thumbnailUrl = pending.thumbnailUrl ?? null;
+
+  if (!thumbnailUrl && pending.imageUri) {
+    const uploadedUrl = await repository.uploadThumbnail(pending.clientId, pending.imageUri);
+    await updatePendingMeal(pending.clientId, () => ({ thumbnailUrl: uploadedUrl }));
+    thumbnailUrl = uploadedUrl;
+  }
+
+  // The client id makes a retry after a lost response return the meal created the first time
+  await repository.create({ ...pending.meal, clientId: pending.clientId, thumbnailUrl });
+  await removePendingMeal(pending);
+  // Totals include queued meals, so reload them once the meal has moved out of the queue
+  notifyMealChanges();
+  console.log('Queued meal synced:', pending.clientId);
+}
+
+async function runFlush(): Promise<void> {
+  const currentOwner = owner;
+  if (!currentOwner) {
+    console.log('No signed in user, leaving meals in the queue');
+    return;
+  }
+
+  // A guest's meals are written to the device, so neither a connection nor a session is needed
+  if (!currentOwner.isGuest) {
+    const network = await NetInfo.fetch();
+    if (!network.isConnected || network.isInternetReachable === false) {
+      console.log('Offline, leaving meals in the queue');
+      return;
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session?.user.id !== currentOwner.userId) {
+      console.log('No session for the user who queued the meals, leaving them in the queue');
+      return;
+    }
+  }
+
+  const queue = (await readQueue()).filter(item => item.userId === currentOwner.userId);
+  for (const pending of queue) {
+    // Signing out or switching users mid-flush parks the rest
+    if (owner !== currentOwner) return;
+    try {
+      await syncPendingMeal(pending);
+    } catch (error: any) {
+      console.error('Error syncing queued meal:', pending.clientId, error);
+      await updatePendingMeal(pending.clientId, current => ({
+        attempts: current.attempts + 1,
+        lastError: error?.message || 'Unknown error',
+      }));
+    }
+  }
+}
+
+// Upload every pending meal. Concurrent callers share the same flush.
+export function flushMealQueue(): Promise<void> {
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      try {
+        await runFlush();
+      } finally {
+        flushPromise = null;
+      }
+    })();
+  }
+  return flushPromise;
+}
+
+// Write the meal to the local queue first, then try to sync it straight away.
+// Meals without a photo (e.g. scanned barcodes) may pass a remote thumbnail URL instead.
+// Returns true when the meal was saved (to Supabase, or the device for a guest), false when
+// it is waiting in the queue.
+export async function enqueueMeal(meal: MealRecord, imageUri: string | null, thumbnailUrl?: string): Promise<boolean> {
+  if (!owner) {
+    throw new Error('You need to be signed in to save a meal');
+  }
+  const clientId = uuidv4();
+  const pending: PendingMeal = {
+    clientId,
+    userId: owner.userId,
+    imageUri: imageUri ? await persistImage(imageUri, clientId) : null,
+    thumbnailUrl,
+    meal,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  await mutateQueue(queue => [...queue, pending]);
+  notifyMealChanges();
+
+  // A flush already in progress read the queue before this meal was added
+  if (flushPromise) {
+    await flushPromise;
+  }
+  await flushMealQueue();
+  const remaining = await readQueue();
+  return !remaining.some(item => item.clientId === clientId);
+}
+
+// The current user's meals still waiting in the queue
+export async function getPendingMeals(): Promise<PendingMeal[]> {
+  return ownedByCurrentUser(await readQueue());
+}
+
+// Follows the auth state, including an expired session, whose user keeps their queued meals.
+// null on sign-out parks every queued meal until its user signs in again.
+export function setMealQueueOwner(next: MealQueueOwner | null): void {
+  if (owner?.userId === next?.userId && owner?.isGuest === next?.isGuest) return;
+  owner = next;
+  readQueue().then(notifyListeners);
+  notifyMealChanges();
+}
+
+export function subscribeToMealQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Flush the queue whenever connectivity comes back. Returns an unsubscribe function.
+export function startMealQueueSync(): () => void {
+  let wasConnected = true;
+
+  const unsubscribe = NetInfo.addEventListener(state => {
+    const isConnected = !!state.isConnected && state.isInternetReachable !== false;
+    if (isConnected && !wasConnected) {
+      console.log('Connectivity restored, flushing meal queue');
+      flushMealQueue();
+    }
+    wasConnected = isConnected;
+  });
+
+  // Catch up on anything left over from a previous session
+  flushMealQueue();
+
+  return unsubscribe;
+}
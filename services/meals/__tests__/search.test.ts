@@ -0,0 +1,87 @@
+import { matchesNameQuery, searchMeals, totalsByDay } from '../search';
+import { Meal } from '../types';
+
+const TIME_ZONE = 'Europe/Paris';
+
+function meal(id: string, name: string, mealTime: string, calories: number): Meal {
+  return {
+    id,
+    clientId: `client-${id}`,
+    name,
+    source: 'photo',
+    nutrients: { calories, protein: 10, carbs: 20, fat: 5 },
+    items: [],
+    originalEstimate: null,
+    portionFactor: 1,
+    mealTime,
+    thumbnailUrl: null,
+    createdAt: mealTime,
+    updatedAt: mealTime,
+  };
+}
+
+const MEALS = [
+  meal('a', 'Porridge with berries', '2025-06-09T06:00:00Z', 350), // 08:00 breakfast
+  meal('b', 'Chicken salad', '2025-06-09T10:30:00Z', 450), // 12:30 lunch
+  meal('c', 'Chicken curry', '2025-06-09T17:30:00Z', 700), // 19:30 dinner
+  meal('d', 'Crème brûlée', '2025-06-09T21:30:00Z', 300), // 23:30 snack, still 2025-06-09
+  meal('e', 'Chicken wrap', '2025-06-10T10:30:00Z', 500), // 12:30 lunch
+  meal('f', 'Salad', '2025-06-10T10:30:00Z', 150), // Same time as e
+];
+
+describe('matchesNameQuery', () => {
+  it('matches words that start a word of the name, in any order', () => {
+    expect(matchesNameQuery('Chicken Caesar salad', 'sal chick')).toBe(true);
+    expect(matchesNameQuery('Chicken Caesar salad', 'icken')).toBe(false);
+    expect(matchesNameQuery('Chicken Caesar salad', 'chicken pasta')).toBe(false);
+  });
+
+  it('ignores case, punctuation and accents in the query words', () => {
+    expect(matchesNameQuery('Crème brûlée', 'CRÈME')).toBe(true);
+    expect(matchesNameQuery("Ben & Jerry's", 'jerry')).toBe(true);
+  });
+
+  it('matches everything without a query', () => {
+    expect(matchesNameQuery('Anything', undefined)).toBe(true);
+    expect(matchesNameQuery('Anything', '  ')).toBe(true);
+  });
+});
+
+describe('searchMeals', () => {
+  it('filters by name, day, meal type and calories', () => {
+    const ids = (filters: Parameters<typeof searchMeals>[1]) =>
+      searchMeals(MEALS, filters, { timeZone: TIME_ZONE }).meals.map(found => found.id);
+
+    expect(ids({ text: 'chicken' })).toEqual(['e', 'c', 'b']);
+    expect(ids({ fromDay: '2025-06-09', toDay: '2025-06-09' })).toEqual(['d', 'c', 'b', 'a']);
+    expect(ids({ mealTypes: ['lunch'] })).toEqual(['f', 'e', 'b']);
+    expect(ids({ mealTypes: ['snack'] })).toEqual(['d']);
+    expect(ids({ minCalories: 400, maxCalories: 500 })).toEqual(['e', 'b']);
+  });
+
+  it('pages newest first without repeating or skipping meals at the same time', () => {
+    const first = searchMeals(MEALS, {}, { timeZone: TIME_ZONE, limit: 2 });
+    expect(first.meals.map(found => found.id)).toEqual(['f', 'e']);
+    expect(first.nextCursor).toEqual({ mealTime: '2025-06-10T10:30:00Z', id: 'e' });
+
+    const second = searchMeals(MEALS, {}, { timeZone: TIME_ZONE, limit: 2, cursor: first.nextCursor });
+    expect(second.meals.map(found => found.id)).toEqual(['d', 'c']);
+
+    const last = searchMeals(MEALS, {}, { timeZone: TIME_ZONE, limit: 2, cursor: second.nextCursor });
+    expect(last.meals.map(found => found.id)).toEqual(['b', 'a']);
+    expect(last.nextCursor).toBeNull();
+  });
+});
+
+describe('totalsByDay', () => {
+  it('adds up matching meals per day in the time zone', () => {
+    expect(totalsByDay(MEALS, { text: 'chicken' }, ['2025-06-09', '2025-06-10'], TIME_ZONE)).toEqual([
+      { day: '2025-06-09', mealCount: 2, nutrients: { calories: 1150, protein: 20, carbs: 40, fat: 10 } },
+      { day: '2025-06-10', mealCount: 1, nutrients: { calories: 500, protein: 10, carbs: 20, fat: 5 } },
+    ]);
+  });
+
+  it('leaves out days that were not asked for', () => {
+    expect(totalsByDay(MEALS, {}, ['2025-06-10'], TIME_ZONE).map(totals => totals.day)).toEqual(['2025-06-10']);
+  });
+});
@@ -0,0 +1,44 @@
+import { MealRepository } from './types';
+
+type MealChangeListener = () => void;
+
+const listeners = new Set<MealChangeListener>();
+
+// Called after any meal is created, edited or deleted, so screens showing meals or totals can reload
+export function subscribeToMealChanges(listener: MealChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Also called by the offline queue, whose meals count towards the totals before they are saved
+export function notifyMealChanges(): void {
+  listeners.forEach(listener => listener());
+}
+
+// Every repository the app hands out is wrapped, so no write can skip the notification
+export function withChangeNotifications(repository: MealRepository): MealRepository {
+  return {
+    ...repository,
+    async create(meal) {
+      const created = await repository.create(meal);
+      notifyMealChanges();
+      return created;
+    },
+    async update(id, changes) {
+      const updated = await repository.update(id, changes);
+      notifyMealChanges();
+      return updated;
+    },
+    async delete(id) {
+      await repository.delete(id);
+      notifyMealChanges();
+    },
+    async restore(meal) {
+      const restored = await repository.restore(meal);
+      notifyMealChanges();
+      return restored;
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { CORE_NUTRIENT_KEYS, NutrientKey, NutrientMap, roundNutrient } from '@/services/nutrients';
+import { dayKey } from '@/services/timeZone';
+import { MealRecord } from './types';
+
+// Adds up every nutrient the meals have. Core nutrients are always present, even on an empty day.
+// Unlike sumNutrients for the items of one meal, a detail nutrient some meals lack is still summed.
+export function sumMealNutrients(meals: Pick<MealRecord, 'nutrients'>[]): NutrientMap {
+  const totals: Partial<Record<NutrientKey, number>> = {};
+  for (const key of CORE_NUTRIENT_KEYS) {
+    totals[key] = 0;
+  }
+  for (const meal of meals) {
+    for (const [key, value] of Object.entries(meal.nutrients) as [NutrientKey, number | undefined][]) {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        totals[key] = (totals[key] ?? 0) + value;
+      }
+    }
+  }
+  for (const key of Object.keys(totals) as NutrientKey[]) {
+    totals[key] = roundNutrient(key, totals[key] as number);
+  }
+  return totals as NutrientMap;
+}
+
+// Meals eaten on the given day (YYYY-MM-DD) in the user's time zone
+export function mealsOnDay<T extends Pick<MealRecord, 'mealTime'>>(meals: T[], day: string, timeZone: string): T[] {
+  return meals.filter(meal => dayKey(meal.mealTime, timeZone) === day);
+}
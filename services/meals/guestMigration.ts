@@ -0,0 +1,42 @@
+import { isLocalThumbnail } from './localMealRepository';
+import { MealRepository } from './types';
+
+let migrationPromise: Promise<number> | null = null;
+
+async function runMigration(guest: MealRepository, account: MealRepository): Promise<number> {
+  const meals = await guest.list();
+  let migrated = 0;
+
+  for (const meal of meals) {
+    try {
+      // The thumbnail is stored under the meal's client id and create() ignores a client id it
+      // has already seen, so a migration interrupted halfway can simply run again
+      const thumbnailUrl = isLocalThumbnail(meal.thumbnailUrl)
+        ? await account.uploadThumbnail(meal.clientId, meal.thumbnailUrl)
+        : meal.thumbnailUrl;
+      await account.create({ ...meal, thumbnailUrl });
+      // Only forget the local copy once the account has it
+      await guest.delete(meal.id);
+      if (meal.thumbnailUrl) {
+        await guest.deleteThumbnail(meal.thumbnailUrl);
+      }
+      migrated++;
+    } catch (error) {
+      console.error('Error migrating guest meal:', meal.clientId, error);
+    }
+  }
+
+  return migrated;
+}
+
+// Move the meals logged in guest mode into the account that just signed in or signed up.
+// Resolves to the number of meals moved; meals that failed stay local for the next attempt.
+// Concurrent callers share the same run.
+export function migrateGuestMeals(guest: MealRepository, account: MealRepository): Promise<number> {
+  if (!migrationPromise) {
+    migrationPromise = runMigration(guest, account).finally(() => {
+      migrationPromise = null;
+    });
+  }
+  return migrationPromise;
+}
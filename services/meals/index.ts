@@ -0,0 +1,65 @@
+import { supabase } from '@/src/services/supabase';
+import { withChangeNotifications } from './changes';
+import { migrateGuestMeals as migrateMeals } from './guestMigration';
+import { createLocalMealRepository } from './localMealRepository';
+import { deleteMealWithUndo } from './mealDeletion';
+import { createSupabaseMealRepository } from './supabaseMealRepository';
+import { Meal, MealRepository } from './types';
+
+export * from './types';
+export { notifyMealChanges, subscribeToMealChanges } from './changes';
+export { mealsOnDay, sumMealNutrients } from './dailyTotals';
+export { MEAL_TYPE_KEYS, MEAL_TYPES, mealTypeAt } from './mealType';
+export { canReanalyzeMeal, editedMealChanges, mealAsResult, reanalyzeMeal } from './mealEdits';
+export { getPendingDeletion, subscribeToMealDeletion, undoMealDeletion, UNDO_WINDOW_MS } from './mealDeletion';
+export { createLocalMealRepository } from './localMealRepository';
+export { createMemoryMealRepository } from './memoryMealRepository';
+export { createSupabaseMealRepository, mealFromRow } from './supabaseMealRepository';
+
+let accountRepository: MealRepository | null = null;
+let guestRepository: MealRepository | null = null;
+let overrideRepository: MealRepository | null = null;
+let isGuestMode = false;
+
+// The signed in user's meals, through the app's Supabase client
+function getAccountMealRepository(): MealRepository {
+  if (!accountRepository) {
+    accountRepository = withChangeNotifications(createSupabaseMealRepository(supabase));
+  }
+  return accountRepository;
+}
+
+// Meals logged in guest mode, kept on the device until the guest creates an account
+function getGuestMealRepository(): MealRepository {
+  if (!guestRepository) {
+    guestRepository = withChangeNotifications(createLocalMealRepository());
+  }
+  return guestRepository;
+}
+
+export function getMealRepository(): MealRepository {
+  if (overrideRepository) {
+    return overrideRepository;
+  }
+  return isGuestMode ? getGuestMealRepository() : getAccountMealRepository();
+}
+
+// Follows the auth status: guests read and write meals on the device only
+export function setGuestMode(enabled: boolean): void {
+  isGuestMode = enabled;
+}
+
+// Allows tests and dev tooling to swap the repository at runtime
+export function setMealRepository(repository: MealRepository | null): void {
+  overrideRepository = repository && withChangeNotifications(repository);
+}
+
+// Called once a former guest has an account, to upload what they logged before signing up
+export function migrateGuestMeals(): Promise<number> {
+  return migrateMeals(getGuestMealRepository(), getAccountMealRepository());
+}
+
+// Deletes a meal from wherever the user's meals live now, with a short window to undo it
+export function deleteMeal(meal: Meal): Promise<void> {
+  return deleteMealWithUndo(getMealRepository(), meal);
+}
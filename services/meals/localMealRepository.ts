@@ -0,0 +1,113 @@
+import 'react-native-get-random-values';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { v4 as uuidv4 } from 'uuid';
+import { searchMeals, totalsByDay } from './search';
+import {
+  Meal,
+  MealChanges,
+  MealDayTotals,
+  MealListOptions,
+  MealPage,
+  MealRepository,
+  MealSearchFilters,
+  MealSearchOptions,
+  NewMeal,
+} from './types';
+
+const LOCAL_MEALS_STORAGE_KEY = 'guestMeals:v1';
+const LOCAL_THUMBNAIL_DIR = `${FileSystem.documentDirectory}guest-meals/`;
+
+export function isLocalThumbnail(url: string | null): url is string {
+  return !!url && url.startsWith(LOCAL_THUMBNAIL_DIR);
+}
+
+// Meals kept on the device only, used in guest mode. Photos are copied into the app's
+// document directory so they survive until the meals are migrated to an account.
+export function createLocalMealRepository(): MealRepository {
+  const readMeals = async (): Promise<Meal[]> => {
+    try {
+      const stored = await AsyncStorage.getItem(LOCAL_MEALS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading local meals:', error);
+      return [];
+    }
+  };
+
+  const writeMeals = (meals: Meal[]) => AsyncStorage.setItem(LOCAL_MEALS_STORAGE_KEY, JSON.stringify(meals));
+
+  return {
+    async create({ clientId = uuidv4(), thumbnailUrl = null, ...record }: NewMeal): Promise<Meal> {
+      const meals = await readMeals();
+      const existing = meals.find(meal => meal.clientId === clientId);
+      if (existing) {
+        return existing;
+      }
+
+      const now = new Date().toISOString();
+      const meal: Meal = { ...record, id: uuidv4(), clientId, thumbnailUrl, createdAt: now, updatedAt: now };
+      await writeMeals([...meals, meal]);
+      return meal;
+    },
+
+    async list({ from, to, limit }: MealListOptions = {}): Promise<Meal[]> {
+      const matching = (await readMeals())
+        .filter(meal => (!from || meal.mealTime >= from) && (!to || meal.mealTime < to))
+        .sort((a, b) => b.mealTime.localeCompare(a.mealTime));
+      return limit ? matching.slice(0, limit) : matching;
+    },
+
+    async search(filters: MealSearchFilters, options: MealSearchOptions): Promise<MealPage> {
+      return searchMeals(await readMeals(), filters, options);
+    },
+
+    async dayTotals(filters: MealSearchFilters, days: string[], timeZone: string): Promise<MealDayTotals[]> {
+      return totalsByDay(await readMeals(), filters, days, timeZone);
+    },
+
+    async get(id: string): Promise<Meal | null> {
+      return (await readMeals()).find(meal => meal.id === id) ?? null;
+    },
+
+    async update(id: string, changes: MealChanges): Promise<Meal> {
+      const meals = await readMeals();
+      const index = meals.findIndex(meal => meal.id === id);
+      if (index === -1) {
+        throw new Error(`Meal ${id} not found`);
+      }
+      const meal: Meal = { ...meals[index], ...changes, updatedAt: new Date().toISOString() };
+      meals[index] = meal;
+      await writeMeals(meals);
+      return meal;
+    },
+
+    async delete(id: string): Promise<void> {
+      const meals = await readMeals();
+      await writeMeals(meals.filter(item => item.id !== id));
+    },
+
+    async restore(meal: Meal): Promise<Meal> {
+      const meals = await readMeals();
+      const existing = meals.find(item => item.id === meal.id);
+      if (existing) {
+        return existing;
+      }
+      await writeMeals([...meals, meal]);
+      return meal;
+    },
+
+    async uploadThumbnail(clientId: string, imageUri: string): Promise<string> {
+      await FileSystem.makeDirectoryAsync(LOCAL_THUMBNAIL_DIR, { intermediates: true }).catch(() => {});
+      const target = `${LOCAL_THUMBNAIL_DIR}${clientId}.jpg`;
+      await FileSystem.copyAsync({ from: imageUri, to: target });
+      return target;
+    },
+
+    async deleteThumbnail(thumbnailUrl: string): Promise<void> {
+      if (isLocalThumbnail(thumbnailUrl)) {
+        await FileSystem.deleteAsync(thumbnailUrl, { idempotent: true });
+      }
+    },
+  };
+}
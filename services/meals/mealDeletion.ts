@@ -0,0 +1,90 @@
+import { Meal, MealRepository } from './types';
+
+// How long a deleted meal can be brought back before its photo is removed for good
+export const UNDO_WINDOW_MS = 5000;
+
+interface PendingDeletion {
+  meal: Meal;
+  repository: MealRepository;
+  timer: ReturnType<typeof setTimeout>;
+  isRestoring: boolean; // The photo is needed again, so it must not be removed
+}
+
+type DeletionListener = (meal: Meal | null) => void;
+
+let pending: PendingDeletion | null = null;
+const listeners = new Set<DeletionListener>();
+
+function notify(): void {
+  const meal = pending?.meal ?? null;
+  listeners.forEach(listener => listener(meal));
+}
+
+// Removes the photo of the meal waiting in the undo window; the meal itself is already gone
+async function finishDeletion(): Promise<void> {
+  if (!pending) return;
+  if (pending.isRestoring) {
+    // Deleting another meal takes over the undo bar; the restore carries on without it
+    pending = null;
+    notify();
+    return;
+  }
+  const { meal, repository, timer } = pending;
+  clearTimeout(timer);
+  pending = null;
+  notify();
+
+  if (meal.thumbnailUrl) {
+    try {
+      await repository.deleteThumbnail(meal.thumbnailUrl);
+    } catch (error) {
+      // An orphaned photo is only wasted storage; the meal is deleted either way
+      console.error('Error deleting meal thumbnail:', meal.clientId, error);
+    }
+  }
+}
+
+// Deletes the meal straight away, so totals update, but keeps its photo for UNDO_WINDOW_MS.
+// Only the latest deletion can be undone; deleting another meal finishes the previous one.
+export async function deleteMealWithUndo(repository: MealRepository, meal: Meal): Promise<void> {
+  await finishDeletion();
+  await repository.delete(meal.id);
+  pending = { meal, repository, timer: setTimeout(finishDeletion, UNDO_WINDOW_MS), isRestoring: false };
+  notify();
+}
+
+// Restores the meal deleted last exactly as it was, id included. The deletion stays pending
+// until the meal is back; when restoring fails it can be undone again for another window.
+// Resolves to null when the undo window has already closed.
+export async function undoMealDeletion(): Promise<Meal | null> {
+  const deletion = pending;
+  if (!deletion || deletion.isRestoring) return null;
+  clearTimeout(deletion.timer);
+  deletion.isRestoring = true;
+
+  try {
+    const restored = await deletion.repository.restore(deletion.meal);
+    if (pending === deletion) {
+      pending = null;
+      notify();
+    }
+    return restored;
+  } catch (error) {
+    deletion.isRestoring = false;
+    if (pending === deletion) {
+      deletion.timer = setTimeout(finishDeletion, UNDO_WINDOW_MS);
+    }
+    throw error;
+  }
+}
+
+export function getPendingDeletion(): Meal | null {
+  return pending?.meal ?? null;
+}
+
+export function subscribeToMealDeletion(listener: DeletionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,86 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  analyzeFoodImage,
+  analyzeMealDescription,
+  analyzeNutritionLabel,
+  AnalyzeOptions,
+  FoodAnalysisResult,
+} from '@/services/aiVisionService';
+import { AnalysisEdits, applyEdits, hasEdits, portionFactor } from '@/services/analysisEdits';
+import { NutrientRanges, presentNutrientKeys } from '@/services/nutrients';
+import { Meal, MealChanges } from './types';
+
+// The saved meal as an analysis result, so the analysis edit form can correct it. The saved
+// numbers were accepted by the user, so they carry no uncertainty.
+export function mealAsResult(meal: Meal): FoodAnalysisResult {
+  const ranges = Object.fromEntries(
+    presentNutrientKeys(meal.nutrients).map(key => [key, { low: meal.nutrients[key], high: meal.nutrients[key] }])
+  ) as NutrientRanges;
+
+  return {
+    name: meal.name,
+    description: meal.originalEstimate?.description ?? '',
+    nutrients: meal.nutrients,
+    items: meal.items,
+    confidence: 'high',
+    ranges,
+    issues: [],
+    source: meal.source,
+  };
+}
+
+// What to save after editing a meal. base is what the form started from: the saved meal
+// (mealAsResult), or a fresh analysis when the user re-ran the AI.
+export function editedMealChanges(
+  meal: Meal,
+  base: FoodAnalysisResult,
+  edits: AnalysisEdits,
+  isReanalysis: boolean
+): MealChanges {
+  const edited = applyEdits(base, edits);
+  const factor = portionFactor(base, edits.portion);
+  const isEdited = hasEdits(base, edits);
+
+  // A fresh analysis replaces the estimate; otherwise the first estimate on record is kept,
+  // and a meal saved as the AI suggested becomes its own estimate once the user changes it
+  const originalEstimate = isReanalysis
+    ? isEdited ? base : null
+    : meal.originalEstimate ?? (isEdited ? base : null);
+
+  return {
+    name: edited.name,
+    nutrients: edited.nutrients,
+    items: edited.items,
+    originalEstimate,
+    portionFactor: isReanalysis ? factor : meal.portionFactor * factor,
+  };
+}
+
+// Only meals the AI estimated in the first place, with their photo when they came from one
+export function canReanalyzeMeal(meal: Meal): boolean {
+  return meal.source === 'text' || ((meal.source === 'photo' || meal.source === 'label') && !!meal.thumbnailUrl);
+}
+
+// The analysis reads local files, so a stored photo is downloaded to the cache first
+async function localImageFor(meal: Meal): Promise<string> {
+  const url = meal.thumbnailUrl as string;
+  if (url.startsWith('file://')) {
+    return url;
+  }
+  const { uri } = await FileSystem.downloadAsync(url, `${FileSystem.cacheDirectory}meal-${meal.clientId}.jpg`);
+  return uri;
+}
+
+// Runs the AI again on the meal's photo, or on its name for a described meal, whose
+// original wording is not kept. Always skips the analysis cache.
+export async function reanalyzeMeal(meal: Meal, options: AnalyzeOptions = {}): Promise<FoodAnalysisResult> {
+  if (!canReanalyzeMeal(meal)) {
+    throw new Error('This meal cannot be analyzed again');
+  }
+  if (meal.source === 'text') {
+    return analyzeMealDescription(meal.name, { ...options, forceRefresh: true });
+  }
+  const imageUri = await localImageFor(meal);
+  const analyze = meal.source === 'label' ? analyzeNutritionLabel : analyzeFoodImage;
+  return analyze(imageUri, { ...options, forceRefresh: true });
+}
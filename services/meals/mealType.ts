@@ -0,0 +1,20 @@
+import { hourOf } from '@/services/timeZone';
+import { MealType } from './types';
+
+export const MEAL_TYPES: Record<MealType, { label: string }> = {
+  breakfast: { label: 'Breakfast' },
+  lunch: { label: 'Lunch' },
+  dinner: { label: 'Dinner' },
+  snack: { label: 'Snack' },
+};
+
+export const MEAL_TYPE_KEYS = Object.keys(MEAL_TYPES) as MealType[];
+
+// Same hours as meal_type_at in supabase/migrations/20250610000000_meal_search.sql
+export function mealTypeAt(mealTime: string, timeZone: string): MealType {
+  const hour = hourOf(mealTime, timeZone);
+  if (hour >= 5 && hour <= 10) return 'breakfast';
+  if (hour >= 11 && hour <= 15) return 'lunch';
+  if (hour >= 17 && hour <= 21) return 'dinner';
+  return 'snack';
+}
@@ -0,0 +1,88 @@
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+import { searchMeals, totalsByDay } from './search';
+import {
+  Meal,
+  MealChanges,
+  MealDayTotals,
+  MealListOptions,
+  MealPage,
+  MealRepository,
+  MealSearchFilters,
+  MealSearchOptions,
+  NewMeal,
+} from './types';
+
+// Keeps meals in memory, for tests and for running the app without a Supabase project.
+// Behaves like the Supabase repository, including client id idempotency.
+export function createMemoryMealRepository(initialMeals: Meal[] = []): MealRepository {
+  const meals = new Map(initialMeals.map(meal => [meal.id, meal]));
+
+  const find = (id: string): Meal => {
+    const meal = meals.get(id);
+    if (!meal) {
+      throw new Error(`Meal ${id} not found`);
+    }
+    return meal;
+  };
+
+  return {
+    async create({ clientId = uuidv4(), thumbnailUrl = null, ...record }: NewMeal): Promise<Meal> {
+      const existing = [...meals.values()].find(meal => meal.clientId === clientId);
+      if (existing) {
+        return existing;
+      }
+
+      const now = new Date().toISOString();
+      const meal: Meal = { ...record, id: uuidv4(), clientId, thumbnailUrl, createdAt: now, updatedAt: now };
+      meals.set(meal.id, meal);
+      return meal;
+    },
+
+    async list({ from, to, limit }: MealListOptions = {}): Promise<Meal[]> {
+      const matching = [...meals.values()]
+        .filter(meal => (!from || meal.mealTime >= from) && (!to || meal.mealTime < to))
+        .sort((a, b) => b.mealTime.localeCompare(a.mealTime));
+      return limit ? matching.slice(0, limit) : matching;
+    },
+
+    async search(filters: MealSearchFilters, options: MealSearchOptions): Promise<MealPage> {
+      return searchMeals([...meals.values()], filters, options);
+    },
+
+    async dayTotals(filters: MealSearchFilters, days: string[], timeZone: string): Promise<MealDayTotals[]> {
+      return totalsByDay([...meals.values()], filters, days, timeZone);
+    },
+
+    async get(id: string): Promise<Meal | null> {
+      return meals.get(id) ?? null;
+    },
+
+    async update(id: string, changes: MealChanges): Promise<Meal> {
+      const meal: Meal = { ...find(id), ...changes, updatedAt: new Date().toISOString() };
+      meals.set(id, meal);
+      return meal;
+    },
+
+    async delete(id: string): Promise<void> {
+      meals.delete(id);
+    },
+
+    async restore(meal: Meal): Promise<Meal> {
+      const existing = meals.get(meal.id);
+      if (existing) {
+        return existing;
+      }
+      meals.set(meal.id, meal);
+      return meal;
+    },
+
+    // The local file doubles as the thumbnail
+    async uploadThumbnail(_clientId: string, imageUri: string): Promise<string> {
+      return imageUri;
+    },
+
+    // The file belongs to whoever passed it in
+    async deleteThumbnail(): Promise<void> {},
+  };
+}
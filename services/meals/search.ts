@@ -0,0 +1,80 @@
+import { CORE_NUTRIENT_KEYS, roundNutrient } from '@/services/nutrients';
+import { dayBounds, dayKey } from '@/services/timeZone';
+import { mealTypeAt } from './mealType';
+import { Meal, MealDayTotals, MealPage, MealSearchFilters, MealSearchOptions } from './types';
+
+// History search over meals held on the device, for the local and memory repositories.
+// Mirrors search_meals and meal_day_totals in supabase/migrations/20250610000000_meal_search.sql.
+
+export const DEFAULT_PAGE_SIZE = 30;
+
+function words(text: string): string[] {
+  // Letters (including accented Latin ones) and digits, like Postgres' [[:alnum:]]
+  return text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f]+/).filter(Boolean);
+}
+
+export function matchesNameQuery(name: string, text: string | undefined): boolean {
+  const queryWords = words(text ?? '');
+  if (queryWords.length === 0) return true;
+  const nameWords = words(name);
+  return queryWords.every(queryWord => nameWords.some(nameWord => nameWord.startsWith(queryWord)));
+}
+
+export function matchesFilters(meal: Meal, filters: MealSearchFilters, timeZone: string): boolean {
+  const calories = Math.round(meal.nutrients.calories);
+  return (
+    matchesNameQuery(meal.name, filters.text) &&
+    (!filters.fromDay || meal.mealTime >= dayBounds(filters.fromDay, timeZone).from) &&
+    (!filters.toDay || meal.mealTime < dayBounds(filters.toDay, timeZone).to) &&
+    (!filters.mealTypes?.length || filters.mealTypes.includes(mealTypeAt(meal.mealTime, timeZone))) &&
+    (filters.minCalories === undefined || calories >= filters.minCalories) &&
+    (filters.maxCalories === undefined || calories <= filters.maxCalories)
+  );
+}
+
+// Newest first, with the id breaking ties between meals logged at the same time
+function compareNewestFirst(a: Meal, b: Meal): number {
+  return b.mealTime.localeCompare(a.mealTime) || b.id.localeCompare(a.id);
+}
+
+export function searchMeals(meals: Meal[], filters: MealSearchFilters, options: MealSearchOptions): MealPage {
+  const { timeZone, cursor, limit = DEFAULT_PAGE_SIZE } = options;
+  const matching = meals
+    .filter(meal => matchesFilters(meal, filters, timeZone))
+    .filter(
+      meal => !cursor || meal.mealTime < cursor.mealTime || (meal.mealTime === cursor.mealTime && meal.id < cursor.id)
+    )
+    .sort(compareNewestFirst);
+
+  const page = matching.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    meals: page,
+    nextCursor: matching.length > limit ? { mealTime: last.mealTime, id: last.id } : null,
+  };
+}
+
+export function totalsByDay(meals: Meal[], filters: MealSearchFilters, days: string[], timeZone: string): MealDayTotals[] {
+  const totals = new Map<string, MealDayTotals>();
+  for (const meal of meals) {
+    const day = dayKey(meal.mealTime, timeZone);
+    if (!days.includes(day) || !matchesFilters(meal, filters, timeZone)) continue;
+
+    let dayTotals = totals.get(day);
+    if (!dayTotals) {
+      dayTotals = { day, mealCount: 0, nutrients: { calories: 0, protein: 0, carbs: 0, fat: 0 } };
+      totals.set(day, dayTotals);
+    }
+    dayTotals.mealCount++;
+    for (const key of CORE_NUTRIENT_KEYS) {
+      dayTotals.nutrients[key] += meal.nutrients[key] ?? 0;
+    }
+  }
+
+  return [...totals.values()].map(dayTotals => {
+    for (const key of CORE_NUTRIENT_KEYS) {
+      dayTotals.nutrients[key] = roundNutrient(key, dayTotals.nutrients[key]);
+    }
+    return dayTotals;
+  });
+}
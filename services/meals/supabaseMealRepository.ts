@@ -0,0 +1,247 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { toByteArray } from 'base64-js';
+import * as FileSystem from 'expo-file-system';
+import { Database, Json, Tables, TablesUpdate } from '@/services/database.types';
+import { NutrientMap, roundNutrient } from '@/services/nutrients';
+import { dayBounds } from '@/services/timeZone';
+import { AnalysisSource, FoodAnalysisResult, FoodItem } from '@/services/vision/result';
+import { DEFAULT_PAGE_SIZE } from './search';
+import {
+  Meal,
+  MealChanges,
+  MealDayTotals,
+  MealListOptions,
+  MealPage,
+  MealRepository,
+  MealSearchFilters,
+  MealSearchOptions,
+  NewMeal,
+} from './types';
+
+export const MEAL_THUMBNAIL_BUCKET = 'meal-thumbnails';
+
+type MealRow = Tables<'meals'>;
+
+// The calories/protein/carbs/fat columns are rounded copies of the nutrients map, kept for indexing
+function coreColumns(nutrients: NutrientMap) {
+  return {
+    calories: Math.round(Number(nutrients.calories)) || 0,
+    protein: Math.round(Number(nutrients.protein)) || 0,
+    carbs: Math.round(Number(nutrients.carbs)) || 0,
+    fat: Math.round(Number(nutrients.fat)) || 0,
+  };
+}
+
+export function mealFromRow(row: MealRow): Meal {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    name: row.name,
+    source: row.source as AnalysisSource,
+    // Meals from before the nutrients column only have the core values
+    nutrients: {
+      calories: row.calories,
+      protein: row.protein,
+      carbs: row.carbs,
+      fat: row.fat,
+      ...(row.nutrients as Partial<NutrientMap>),
+    },
+    items: (row.items as unknown as FoodItem[]) ?? [],
+    originalEstimate: row.original_estimate as unknown as FoodAnalysisResult | null,
+    portionFactor: Number(row.portion_factor),
+    mealTime: row.meal_time,
+    thumbnailUrl: row.image_url,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// The search_meals and meal_day_totals arguments shared by both calls
+function filterArgs(filters: MealSearchFilters) {
+  return {
+    p_query: filters.text?.trim() || null,
+    p_meal_types: filters.mealTypes?.length ? filters.mealTypes : null,
+    p_min_calories: filters.minCalories ?? null,
+    p_max_calories: filters.maxCalories ?? null,
+  };
+}
+
+function changesToRow(changes: MealChanges): TablesUpdate<'meals'> {
+  const row: TablesUpdate<'meals'> = {};
+  if (changes.name !== undefined) row.name = changes.name;
+  if (changes.source !== undefined) row.source = changes.source;
+  if (changes.nutrients !== undefined) {
+    Object.assign(row, coreColumns(changes.nutrients));
+    row.nutrients = changes.nutrients as unknown as Json;
+  }
+  if (changes.items !== undefined) row.items = changes.items as unknown as Json;
+  if (changes.originalEstimate !== undefined) row.original_estimate = changes.originalEstimate as unknown as Json;
+  if (changes.portionFactor !== undefined) row.portion_factor = changes.portionFactor;
+  if (changes.mealTime !== undefined) row.meal_time = changes.mealTime;
+  if (changes.thumbnailUrl !== undefined) row.image_url = changes.thumbnailUrl;
+  return row;
+}
+
+// Meals in the Supabase meals table. Row level security limits every query to the
+// client's signed in user, so the same code runs against the hosted project or `supabase start`.
+export function createSupabaseMealRepository(client: SupabaseClient<Database>): MealRepository {
+  return {
+    async create(meal: NewMeal): Promise<Meal> {
+      // insert_meal ignores a client id it has already seen and returns the stored meal
+      const core = coreColumns(meal.nutrients);
+      const { data, error } = await client.rpc('insert_meal', {
+        p_client_id: meal.clientId,
+        p_name: meal.name,
+        p_source: meal.source,
+        p_thumbnail_url: meal.thumbnailUrl ?? null,
+        p_calories: core.calories,
+        p_protein: core.protein,
+        p_carbs: core.carbs,
+        p_fat: core.fat,
+        p_nutrients: meal.nutrients as unknown as Json,
+        p_items: meal.items as unknown as Json,
+        p_original_estimate: meal.originalEstimate as unknown as Json,
+        p_portion_factor: meal.portionFactor,
+        p_meal_time: meal.mealTime,
+      });
+      if (error) throw error;
+      return mealFromRow(data);
+    },
+
+    async list({ from, to, limit }: MealListOptions = {}): Promise<Meal[]> {
+      let query = client.from('meals').select('*').order('meal_time', { ascending: false });
+      if (from) query = query.gte('meal_time', from);
+      if (to) query = query.lt('meal_time', to);
+      if (limit) query = query.limit(limit);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data.map(mealFromRow);
+    },
+
+    async search(filters: MealSearchFilters, { timeZone, cursor, limit = DEFAULT_PAGE_SIZE }: MealSearchOptions): Promise<MealPage> {
+      // One extra row tells whether there is a next page without a count query
+      const { data, error } = await client.rpc('search_meals', {
+        ...filterArgs(filters),
+        p_time_zone: timeZone,
+        p_from: filters.fromDay ? dayBounds(filters.fromDay, timeZone).from : null,
+        p_to: filters.toDay ? dayBounds(filters.toDay, timeZone).to : null,
+        p_cursor_time: cursor?.mealTime ?? null,
+        p_cursor_id: cursor?.id ?? null,
+        p_limit: limit + 1,
+      });
+      if (error) throw error;
+
+      const meals = data.slice(0, limit).map(mealFromRow);
+      const last = meals[meals.length - 1];
+      return {
+        meals,
+        nextCursor: data.length > limit ? { mealTime: last.mealTime, id: last.id } : null,
+      };
+    },
+
+    async dayTotals(filters: MealSearchFilters, days: string[], timeZone: string): Promise<MealDayTotals[]> {
+      if (days.length === 0) return [];
+      const { data, error } = await client.rpc('meal_day_totals', {
+        ...filterArgs(filters),
+        p_time_zone: timeZone,
+        p_days: days,
+      });
+      if (error) throw error;
+
+      return data.map(row => ({
+        day: row.day,
+        mealCount: row.meal_count,
+        nutrients: {
+          calories: roundNutrient('calories', Number(row.calories)),
+          protein: roundNutrient('protein', Number(row.protein)),
+          carbs: roundNutrient('carbs', Number(row.carbs)),
+          fat: roundNutrient('fat', Number(row.fat)),
+        },
+      }));
+    },
+
+    async get(id: string): Promise<Meal | null> {
+      const { data, error } = await client.from('meals').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ? mealFromRow(data) : null;
+    },
+
+    async update(id: string, changes: MealChanges): Promise<Meal> {
+      const { data, error } = await client.from('meals').update(changesToRow(changes)).eq('id', id).select().single();
+      if (error) throw error;
+      return mealFromRow(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await client.from('meals').delete().eq('id', id);
+      if (error) throw error;
+    },
+
+    async restore(meal: Meal): Promise<Meal> {
+      const { data: { session } } = await client.auth.getSession();
+      if (!session) {
+        throw new Error('You need to be signed in to restore a meal');
+      }
+
+      // An upsert, so restoring again after a lost response returns the same meal
+      const { data, error } = await client
+        .from('meals')
+        .upsert(
+          {
+            id: meal.id,
+            user_id: session.user.id,
+            client_id: meal.clientId,
+            name: meal.name,
+            source: meal.source,
+            ...coreColumns(meal.nutrients),
+            nutrients: meal.nutrients as unknown as Json,
+            items: meal.items as unknown as Json,
+            original_estimate: meal.originalEstimate as unknown as Json,
+            portion_factor: meal.portionFactor,
+            meal_time: meal.mealTime,
+            image_url: meal.thumbnailUrl,
+            created_at: meal.createdAt,
+            updated_at: meal.updatedAt,
+          },
+          { onConflict: 'id' }
+        )
+        .select()
+        .single();
+      if (error) throw error;
+      return mealFromRow(data);
+    },
+
+    async uploadThumbnail(clientId: string, imageUri: string): Promise<string> {
+      const { data: { session } } = await client.auth.getSession();
+      if (!session) {
+        throw new Error('You need to be signed in to upload a meal photo');
+      }
+
+      const base64 = await FileSystem.readAsStringAsync(imageUri, { encoding: FileSystem.EncodingType.Base64 });
+      // Named after the client id so a retried upload replaces the earlier attempt
+      const path = `${session.user.id}/${clientId}.jpg`;
+      const { error } = await client.storage
+        .from(MEAL_THUMBNAIL_BUCKET)
+        .upload(path, toByteArray(base64), { contentType: 'image/jpeg', upsert: true });
+      if (error) throw error;
+
+      return client.storage.from(MEAL_THUMBNAIL_BUCKET).getPublicUrl(path).data.publicUrl;
+    },
+
+    async deleteThumbnail(thumbnailUrl: string): Promise<void> {
+      // Public URLs end in /object/public/<bucket>/<path>
+      const marker = `/object/public/${MEAL_THUMBNAIL_BUCKET}/`;
+      const index = thumbnailUrl.indexOf(marker);
+      if (index === -1) return;
+
+      const path = decodeURIComponent(thumbnailUrl.slice(index + marker.length).split('?')[0]);
+      const { data, error } = await client.storage.from(MEAL_THUMBNAIL_BUCKET).remove([path]);
+      if (error) throw error;
+      // Storage reports no error when row level security hides the object; it just removes nothing
+      if (!data || data.length === 0) {
+        throw new Error(`Meal photo ${path} was not deleted`);
+      }
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { CoreNutrientKey, NutrientMap } from '@/services/nutrients';
+import { AnalysisSource, FoodAnalysisResult, FoodItem } from '@/services/vision/result';
+
+// What the user logged. The same shape is queued while offline and stored in the meals table.
+export interface MealRecord {
+  name: string;
+  source: AnalysisSource; // How the meal was logged: photo, label, barcode or text
+  nutrients: NutrientMap;
+  items: FoodItem[];
+  originalEstimate: FoodAnalysisResult | null; // The AI estimate, when the user corrected it
+  portionFactor: number;
+  mealTime: string; // ISO timestamp of when the meal was eaten, not when it synced
+}
+
+// A stored meal
+export interface Meal extends MealRecord {
+  id: string;
+  clientId: string; // Idempotency key generated on the device
+  thumbnailUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewMeal extends MealRecord {
+  clientId?: string; // Creating a meal with a client id that already exists returns the existing meal
+  thumbnailUrl?: string | null;
+}
+
+export type MealChanges = Partial<MealRecord> & { thumbnailUrl?: string | null };
+
+export interface MealListOptions {
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+  limit?: number;
+}
+
+// When in the day a meal was eaten, from its local time (see mealType.ts)
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// History filters; an unset field does not filter
+export interface MealSearchFilters {
+  text?: string; // Every word must start a word of the meal name
+  fromDay?: string; // YYYY-MM-DD in the search time zone, inclusive
+  toDay?: string; // YYYY-MM-DD in the search time zone, inclusive
+  mealTypes?: MealType[];
+  minCalories?: number;
+  maxCalories?: number;
+}
+
+// Where the next page starts: the last meal of the previous page
+export interface MealCursor {
+  mealTime: string;
+  id: string;
+}
+
+export interface MealSearchOptions {
+  timeZone: string; // Decides day boundaries and meal types
+  cursor?: MealCursor | null;
+  limit?: number;
+}
+
+export interface MealPage {
+  meals: Meal[]; // Newest meal time first
+  nextCursor: MealCursor | null; // null on the last page
+}
+
+export interface MealDayTotals {
+  day: string; // YYYY-MM-DD
+  mealCount: number;
+  nutrients: Record<CoreNutrientKey, number>;
+}
+
+// Every read and write of the signed in user's meals goes through a repository
+export interface MealRepository {
+  create(meal: NewMeal): Promise<Meal>;
+  list(options?: MealListOptions): Promise<Meal[]>; // Newest meal time first
+  search(filters: MealSearchFilters, options: MealSearchOptions): Promise<MealPage>;
+  // Totals of the meals matching the filters on each of the given days; days without meals are left out
+  dayTotals(filters: MealSearchFilters, days: string[], timeZone: string): Promise<MealDayTotals[]>;
+  get(id: string): Promise<Meal | null>;
+  update(id: string, changes: MealChanges): Promise<Meal>;
+  delete(id: string): Promise<void>; // Leaves the thumbnail, so a deleted meal can be restored as it was
+  // Puts a deleted meal back exactly as it was, id included, so links to it keep working
+  restore(meal: Meal): Promise<Meal>;
+  // Stores a meal photo and returns the URL to save as the meal's thumbnail
+  uploadThumbnail(clientId: string, imageUri: string): Promise<string>;
+  // Removes a photo stored by uploadThumbnail; other URLs, e.g. product images, are left alone
+  deleteThumbnail(thumbnailUrl: string): Promise<void>;
+}
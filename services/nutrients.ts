@@ -0,0 +1,136 @@
+// Every nutrient the app knows about. Adding a nutrient here is enough for it to be
+// requested from the model, validated, shown on the card and stored with the meal.
+
+export type NutrientKey =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'fiber'
+  | 'sugar'
+  | 'saturatedFat'
+  | 'sodium'
+  | 'cholesterol'
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD';
+
+// The nutrients every analysis must contain
+export type CoreNutrientKey = 'calories' | 'protein' | 'carbs' | 'fat';
+
+export type NutrientUnit = 'kcal' | 'g' | 'mg' | 'µg';
+
+export interface NutrientDefinition {
+  key: NutrientKey;
+  label: string;
+  unit: NutrientUnit;
+  decimals: number; // Precision used when rounding and displaying
+  // Another nutrient this one is part of (e.g. sugar is part of carbs), used for sanity checks
+  partOf?: CoreNutrientKey;
+}
+
+export const NUTRIENTS: Record<NutrientKey, NutrientDefinition> = {
+  calories: { key: 'calories', label: 'Calories', unit: 'kcal', decimals: 0 },
+  protein: { key: 'protein', label: 'Protein', unit: 'g', decimals: 1 },
+  carbs: { key: 'carbs', label: 'Carbs', unit: 'g', decimals: 1 },
+  fat: { key: 'fat', label: 'Fat', unit: 'g', decimals: 1 },
+  fiber: { key: 'fiber', label: 'Fiber', unit: 'g', decimals: 1, partOf: 'carbs' },
+  sugar: { key: 'sugar', label: 'Sugar', unit: 'g', decimals: 1, partOf: 'carbs' },
+  saturatedFat: { key: 'saturatedFat', label: 'Saturated fat', unit: 'g', decimals: 1, partOf: 'fat' },
+  sodium: { key: 'sodium', label: 'Sodium', unit: 'mg', decimals: 0 },
+  cholesterol: { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', decimals: 0 },
+  potassium: { key: 'potassium', label: 'Potassium', unit: 'mg', decimals: 0 },
+  calcium: { key: 'calcium', label: 'Calcium', unit: 'mg', decimals: 0 },
+  iron: { key: 'iron', label: 'Iron', unit: 'mg', decimals: 1 },
+  vitaminA: { key: 'vitaminA', label: 'Vitamin A', unit: 'µg', decimals: 0 },
+  vitaminC: { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', decimals: 1 },
+  vitaminD: { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', decimals: 1 },
+};
+
+export const NUTRIENT_KEYS = Object.keys(NUTRIENTS) as NutrientKey[];
+
+export const CORE_NUTRIENT_KEYS: CoreNutrientKey[] = ['calories', 'protein', 'carbs', 'fat'];
+
+export const DETAIL_NUTRIENT_KEYS = NUTRIENT_KEYS.filter(
+  key => !(CORE_NUTRIENT_KEYS as NutrientKey[]).includes(key)
+);
+
+// Core nutrients are always present; the others only when they could be estimated
+export type NutrientMap = Record<CoreNutrientKey, number> & Partial<Record<NutrientKey, number>>;
+
+// Plausible low/high bounds around an estimated value
+export interface ValueRange {
+  low: number;
+  high: number;
+}
+
+export type NutrientRanges = Record<CoreNutrientKey, ValueRange> & Partial<Record<NutrientKey, ValueRange>>;
+
+// Own keys only, so a model answering with "constructor" or "toString" is not taken for a nutrient
+export function isNutrientKey(key: string): key is NutrientKey {
+  return Object.prototype.hasOwnProperty.call(NUTRIENTS, key);
+}
+
+export function roundNutrient(key: NutrientKey, value: number): number {
+  const factor = Math.pow(10, NUTRIENTS[key].decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// e.g. "12.5 g" or "640 kcal"
+export function formatNutrient(key: NutrientKey, value: number): string {
+  return `${roundNutrient(key, value)} ${NUTRIENTS[key].unit}`;
+}
+
+// Nutrient keys present in a map, in display order
+export function presentNutrientKeys(nutrients: Partial<Record<NutrientKey, unknown>>): NutrientKey[] {
+  return NUTRIENT_KEYS.filter(key => nutrients[key] !== undefined);
+}
+
+// Add several nutrient maps together. A detail nutrient is only kept when every map has it,
+// otherwise the total would silently understate it.
+export function sumNutrients(maps: NutrientMap[]): NutrientMap {
+  const total: NutrientMap = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  for (const key of NUTRIENT_KEYS) {
+    if (maps.length > 0 && maps.every(map => map[key] !== undefined)) {
+      total[key] = roundNutrient(key, maps.reduce((sum, map) => sum + (map[key] as number), 0));
+    }
+  }
+  return total;
+}
+
+export function sumNutrientRanges(ranges: NutrientRanges[]): NutrientRanges {
+  const zero = { low: 0, high: 0 };
+  const total: NutrientRanges = { calories: zero, protein: zero, carbs: zero, fat: zero };
+  for (const key of NUTRIENT_KEYS) {
+    if (ranges.length > 0 && ranges.every(range => range[key] !== undefined)) {
+      total[key] = {
+        low: roundNutrient(key, ranges.reduce((sum, range) => sum + (range[key] as ValueRange).low, 0)),
+        high: roundNutrient(key, ranges.reduce((sum, range) => sum + (range[key] as ValueRange).high, 0)),
+      };
+    }
+  }
+  return total;
+}
+
+export function scaleNutrients(nutrients: NutrientMap, factor: number): NutrientMap {
+  const scaled = { ...nutrients };
+  for (const key of presentNutrientKeys(nutrients)) {
+    scaled[key] = roundNutrient(key, (nutrients[key] as number) * factor);
+  }
+  return scaled;
+}
+
+export function scaleNutrientRanges(ranges: NutrientRanges, factor: number): NutrientRanges {
+  const scaled = { ...ranges };
+  for (const key of presentNutrientKeys(ranges)) {
+    const range = ranges[key] as ValueRange;
+    scaled[key] = {
+      low: roundNutrient(key, range.low * factor),
+      high: roundNutrient(key, range.high * factor),
+    };
+  }
+  return scaled;
+}
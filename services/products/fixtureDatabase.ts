@@ -0,0 +1,14 @@
+import fixtures from './fixtures.json';
+import { ProductDatabase, ProductRecord } from './types';
+
+// Local product database used in tests and offline development
+export const PRODUCT_FIXTURES = fixtures as Record<string, ProductRecord>;
+
+export function createFixtureProductDatabase(products: Record<string, ProductRecord> = PRODUCT_FIXTURES): ProductDatabase {
+  return {
+    name: 'fixture',
+    async lookup(barcode: string): Promise<ProductRecord | null> {
+      return products[barcode] ?? null;
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { FoodAnalysisResult } from '@/services/aiVisionService';
+import { getAppConfig } from '@/services/config';
+import { NutrientRanges, presentNutrientKeys } from '@/services/nutrients';
+import { createFixtureProductDatabase } from './fixtureDatabase';
+import { createOpenFoodFactsDatabase } from './openFoodFactsDatabase';
+import { RequestOptions } from '@/services/vision/http';
+import { ProductDatabase, ProductDatabaseConfig, ProductRecord } from './types';
+
+export * from './types';
+
+// EAN/UPC symbologies printed on food packaging
+export const PRODUCT_BARCODE_TYPES = ['ean13', 'ean8', 'upc_a', 'upc_e'] as const;
+
+let cachedDatabase: ProductDatabase | null = null;
+
+// Products looked up this session, so the results screen can reuse the camera's lookup
+const productCache = new Map<string, ProductRecord>();
+
+export function createProductDatabase(config: ProductDatabaseConfig): ProductDatabase {
+  switch (config.provider ?? 'openfoodfacts') {
+    case 'fixture':
+      return createFixtureProductDatabase();
+    case 'openfoodfacts':
+      return createOpenFoodFactsDatabase(config.baseUrl);
+    default:
+      throw new Error(`Unknown product database "${config.provider}"`);
+  }
+}
+
+// The database is chosen once from the app configuration
+export function getProductDatabase(): ProductDatabase {
+  if (!cachedDatabase) {
+    cachedDatabase = createProductDatabase(getAppConfig().products);
+    console.log(`Using ${cachedDatabase.name} product database`);
+  }
+  return cachedDatabase;
+}
+
+// Allows tests and dev tooling to swap the database at runtime
+export function setProductDatabase(database: ProductDatabase | null): void {
+  cachedDatabase = database;
+  productCache.clear();
+}
+
+export async function lookupProduct(barcode: string, options?: RequestOptions): Promise<ProductRecord | null> {
+  const cached = productCache.get(barcode);
+  if (cached) {
+    return cached;
+  }
+
+  const product = await getProductDatabase().lookup(barcode, options);
+  if (product) {
+    productCache.set(barcode, product);
+  }
+  return product;
+}
+
+// Turn a product into an analysis the results screen can show, edit and save.
+// Database values are exact, so every range collapses to the value.
+export function productToAnalysis(product: ProductRecord): FoodAnalysisResult {
+  const ranges = {} as NutrientRanges;
+  for (const key of presentNutrientKeys(product.nutrients)) {
+    const value = product.nutrients[key] as number;
+    ranges[key] = { low: value, high: value };
+  }
+
+  const name = product.brand && !product.name.includes(product.brand)
+    ? `${product.name} (${product.brand})`
+    : product.name;
+
+  return {
+    name,
+    description: `Nutrition facts for barcode ${product.barcode}.`,
+    nutrients: product.nutrients,
+    items: [
+      {
+        name,
+        portion: product.serving.size,
+        grams: product.serving.grams ?? 0,
+        nutrients: product.nutrients,
+        ranges,
+      },
+    ],
+    confidence: 'high',
+    ranges,
+    issues: [],
+    source: 'barcode',
+    serving: product.serving,
+  };
+}
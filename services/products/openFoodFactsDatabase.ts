@@ -0,0 +1,100 @@
+import { NutrientKey, NutrientMap, roundNutrient } from '@/services/nutrients';
+import { fetchWithRetry, RequestOptions } from '@/services/vision/http';
+import { ProductDatabase, ProductRecord } from './types';
+
+const DEFAULT_BASE_URL = 'https://world.openfoodfacts.org';
+const PRODUCT_FIELDS = 'product_name,brands,image_front_small_url,serving_size,serving_quantity,nutriments';
+// A lookup runs while the user waits on the scanner, so give up much sooner than an analysis
+const LOOKUP_TIMEOUT_MS = 10000;
+
+// Open Food Facts nutriment names, and the factor converting their stored unit to ours.
+// Energy is stored in kcal and macros in grams; minerals and vitamins are stored in grams too.
+const NUTRIMENT_MAPPING: Record<NutrientKey, { field: string; factor: number }> = {
+  calories: { field: 'energy-kcal', factor: 1 },
+  protein: { field: 'proteins', factor: 1 },
+  carbs: { field: 'carbohydrates', factor: 1 },
+  fat: { field: 'fat', factor: 1 },
+  fiber: { field: 'fiber', factor: 1 },
+  sugar: { field: 'sugars', factor: 1 },
+  saturatedFat: { field: 'saturated-fat', factor: 1 },
+  sodium: { field: 'sodium', factor: 1000 },
+  cholesterol: { field: 'cholesterol', factor: 1000 },
+  potassium: { field: 'potassium', factor: 1000 },
+  calcium: { field: 'calcium', factor: 1000 },
+  iron: { field: 'iron', factor: 1000 },
+  vitaminA: { field: 'vitamin-a', factor: 1000000 },
+  vitaminC: { field: 'vitamin-c', factor: 1000 },
+  vitaminD: { field: 'vitamin-d', factor: 1000000 },
+};
+
+// Read nutrients for one basis ("serving" or "100g"); null when the core values are missing
+function readNutriments(nutriments: Record<string, any>, basis: 'serving' | '100g'): NutrientMap | null {
+  const nutrients: Partial<Record<NutrientKey, number>> = {};
+
+  for (const [key, { field, factor }] of Object.entries(NUTRIMENT_MAPPING) as [NutrientKey, { field: string; factor: number }][]) {
+    const value = Number(nutriments[`${field}_${basis}`]);
+    if (nutriments[`${field}_${basis}`] !== undefined && Number.isFinite(value) && value >= 0) {
+      nutrients[key] = roundNutrient(key, value * factor);
+    }
+  }
+
+  const hasCore = ['calories', 'protein', 'carbs', 'fat'].every(key => nutrients[key as NutrientKey] !== undefined);
+  return hasCore ? (nutrients as NutrientMap) : null;
+}
+
+export function mapOpenFoodFactsProduct(barcode: string, product: Record<string, any>): ProductRecord | null {
+  const nutriments = product.nutriments ?? {};
+  const servingGrams = Number(product.serving_quantity);
+  const hasServingGrams = Number.isFinite(servingGrams) && servingGrams > 0;
+  const servingSize: string | undefined = product.serving_size || (hasServingGrams ? `${servingGrams} g` : undefined);
+
+  // Prefer per-serving values; fall back to per 100 g when the product has no serving data,
+  // or a serving we cannot describe. Per-serving values without a size are still better than none.
+  const per100g = readNutriments(nutriments, '100g');
+  const perServing = servingSize || !per100g ? readNutriments(nutriments, 'serving') : null;
+  if (!perServing && !per100g) {
+    return null;
+  }
+
+  return {
+    barcode,
+    name: product.product_name || 'Unknown product',
+    brand: product.brands?.split(',')[0]?.trim() || undefined,
+    imageUrl: product.image_front_small_url || undefined,
+    serving: perServing
+      ? {
+          size: servingSize ?? '1 serving',
+          grams: hasServingGrams ? servingGrams : undefined,
+        }
+      : { size: '100 g', grams: 100 },
+    nutrients: (perServing ?? per100g) as NutrientMap,
+  };
+}
+
+export function createOpenFoodFactsDatabase(baseUrl: string = DEFAULT_BASE_URL): ProductDatabase {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'openfoodfacts',
+    async lookup(barcode: string, options: RequestOptions = {}): Promise<ProductRecord | null> {
+      const res = await fetchWithRetry(
+        `${root}/api/v2/product/${encodeURIComponent(barcode)}.json?fields=${PRODUCT_FIELDS}`,
+        { headers: { 'User-Agent': 'Foodnsap/1.0' } },
+        { timeoutMs: LOOKUP_TIMEOUT_MS, ...options }
+      );
+
+      if (res.status === 404) {
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error(`Open Food Facts error ${res.status}`);
+      }
+
+      const data = await res.json();
+      if (data.status !== 1 || !data.product) {
+        return null;
+      }
+      return mapOpenFoodFactsProduct(barcode, data.product);
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { ServingInfo } from '@/services/aiVisionService';
+import { NutrientMap } from '@/services/nutrients';
+import { RequestOptions } from '@/services/vision/http';
+
+// A packaged product found by its barcode. Nutrients are per serving.
+export interface ProductRecord {
+  barcode: string;
+  name: string;
+  brand?: string;
+  imageUrl?: string;
+  serving: ServingInfo;
+  nutrients: NutrientMap;
+}
+
+// Any source of product nutrition data that can be searched by EAN/UPC barcode
+export interface ProductDatabase {
+  name: string;
+  // Resolves to null when the product is unknown; rejects only on lookup failures
+  lookup(barcode: string, options?: RequestOptions): Promise<ProductRecord | null>;
+}
+
+export type ProductDatabaseName = 'openfoodfacts' | 'fixture';
+
+export interface ProductDatabaseConfig {
+  provider?: ProductDatabaseName;
+  baseUrl?: string; // Open Food Facts compatible server
+}
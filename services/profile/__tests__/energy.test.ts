@@ -0,0 +1,105 @@
+import { basalMetabolicRate, energyInputFrom, EnergyInput, estimateEnergy, recalculatedGoals } from '../energy';
+import { BodyMetrics, EMPTY_BODY_METRICS } from '../types';
+
+const MALE: EnergyInput = {
+  weightKg: 80,
+  heightCm: 180,
+  age: 30,
+  sex: 'male',
+  activityLevel: 'moderate',
+  weightGoal: 'maintain',
+  weeklyRateKg: 0.5,
+};
+
+const BODY: BodyMetrics = {
+  heightCm: 180,
+  birthYear: 1995,
+  sex: 'male',
+  activityLevel: 'moderate',
+  weightGoal: 'lose',
+  weeklyRateKg: 0.5,
+};
+
+describe('basalMetabolicRate', () => {
+  it('follows Mifflin-St Jeor', () => {
+    // 10 × 80 + 6.25 × 180 − 5 × 30 + 5
+    expect(basalMetabolicRate(MALE)).toBe(1780);
+    // 10 × 60 + 6.25 × 165 − 5 × 25 − 161
+    expect(basalMetabolicRate({ weightKg: 60, heightCm: 165, age: 25, sex: 'female' })).toBe(1345.25);
+  });
+});
+
+describe('estimateEnergy', () => {
+  it('keeps weight steady at the activity level', () => {
+    expect(estimateEnergy(MALE)).toEqual({
+      bmr: 1780,
+      tdee: 2759,
+      // 1.6 g protein per kg, 25% of calories from fat, carbs for the rest
+      goals: { calories: 2759, protein: 128, carbs: 389, fat: 77 },
+      isCaloriesClamped: false,
+    });
+  });
+
+  it('takes 7700 kcal per kg off over the week to lose weight', () => {
+    const { goals, isCaloriesClamped } = estimateEnergy({ ...MALE, weightGoal: 'lose' });
+    expect(goals.calories).toBe(2759 - 550);
+    expect(goals.protein).toBe(160);
+    expect(isCaloriesClamped).toBe(false);
+  });
+
+  it('adds the surplus to gain weight', () => {
+    expect(estimateEnergy({ ...MALE, weightGoal: 'gain', weeklyRateKg: 0.25 }).goals.calories).toBe(2759 + 275);
+  });
+
+  it('never goes below the safe minimum', () => {
+    const female = estimateEnergy({
+      weightKg: 60, heightCm: 165, age: 25, sex: 'female',
+      activityLevel: 'sedentary', weightGoal: 'lose', weeklyRateKg: 1,
+    });
+    expect(female.goals.calories).toBe(1200);
+    expect(female.isCaloriesClamped).toBe(true);
+
+    const male = estimateEnergy({ ...MALE, activityLevel: 'sedentary', weightGoal: 'lose', weeklyRateKg: 1 });
+    expect(male.goals.calories).toBe(1500);
+    expect(male.isCaloriesClamped).toBe(true);
+  });
+});
+
+describe('energyInputFrom', () => {
+  it('lists the fields still missing', () => {
+    expect(energyInputFrom(EMPTY_BODY_METRICS, null)).toEqual({
+      input: null,
+      missing: ['weight', 'height', 'year of birth', 'sex', 'activity level', 'goal'],
+    });
+    expect(energyInputFrom({ ...BODY, sex: null }, 80).missing).toEqual(['sex']);
+  });
+
+  it('works out the age and defaults the weekly rate', () => {
+    const { input } = energyInputFrom({ ...BODY, weeklyRateKg: null }, 80, new Date(2025, 5, 1));
+    expect(input).toEqual({ ...MALE, age: 30, weightGoal: 'lose' });
+  });
+});
+
+describe('recalculatedGoals', () => {
+  const goalsAt = (weightKg: number) => {
+    const { input } = energyInputFrom(BODY, weightKg);
+    return estimateEnergy(input as EnergyInput).goals;
+  };
+
+  it('updates goals that came from the calculator', () => {
+    expect(recalculatedGoals(BODY, goalsAt(82), 82, 80)).toEqual(goalsAt(80));
+  });
+
+  it('suggests goals when none are set', () => {
+    expect(recalculatedGoals(BODY, null, null, 80)).toEqual(goalsAt(80));
+  });
+
+  it('leaves goals the user typed in alone', () => {
+    expect(recalculatedGoals(BODY, { calories: 1800, protein: 150, carbs: 150, fat: 60 }, 82, 80)).toBeNull();
+  });
+
+  it('offers nothing when the goals would not change or the body metrics are incomplete', () => {
+    expect(recalculatedGoals(BODY, goalsAt(80), 80, 80)).toBeNull();
+    expect(recalculatedGoals({ ...BODY, heightCm: null }, null, null, 80)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { migrateGuestProfile } from '../guestMigration';
+import { EMPTY_PROFILE, ProfileRepository, WeightEntry } from '../types';
+
+// Weight log kept in memory, deduplicating on the client id like the real repositories
+function memoryRepository(entries: WeightEntry[] = []): ProfileRepository & { entries: WeightEntry[] } {
+  let nextId = 1;
+  return {
+    entries,
+    get: async () => EMPTY_PROFILE,
+    update: async () => EMPTY_PROFILE,
+    listWeights: async () => [...entries],
+    async logWeight(weightKg, measuredAt = new Date().toISOString(), clientId) {
+      const existing = entries.find(entry => clientId && entry.id === `account-${clientId}`);
+      if (existing) return existing;
+      const entry = { id: clientId ? `account-${clientId}` : `account-${nextId++}`, weightKg, measuredAt };
+      entries.push(entry);
+      return entry;
+    },
+    async deleteWeight(id) {
+      entries.splice(entries.findIndex(entry => entry.id === id), 1);
+    },
+  };
+}
+
+describe('migrateGuestProfile', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('does not log a weigh-in twice when a retry runs before it was forgotten locally', async () => {
+    const guest = memoryRepository([{ id: 'local-1', weightKg: 80, measuredAt: '2025-06-09T07:00:00Z' }]);
+    const account = memoryRepository();
+    const clearGuestProfile = jest.fn(async () => {});
+
+    // The app is closed between logging the weigh-in and forgetting it locally
+    const deleteWeight = guest.deleteWeight;
+    guest.deleteWeight = jest.fn().mockRejectedValueOnce(new Error('Interrupted'));
+    await migrateGuestProfile(guest, account, clearGuestProfile);
+    expect(guest.entries).toHaveLength(1);
+
+    guest.deleteWeight = deleteWeight;
+    await migrateGuestProfile(guest, account, clearGuestProfile);
+
+    expect(account.entries).toEqual([{ id: 'account-local-1', weightKg: 80, measuredAt: '2025-06-09T07:00:00Z' }]);
+    expect(guest.entries).toEqual([]);
+  });
+});
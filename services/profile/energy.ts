@@ -0,0 +1,124 @@
+import { ActivityLevel, BodyMetrics, DailyGoals, Sex, WeightGoal } from './types';
+
+export interface ActivityLevelDefinition {
+  label: string;
+  description: string;
+  factor: number; // TDEE = BMR × factor
+}
+
+export const ACTIVITY_LEVELS: Record<ActivityLevel, ActivityLevelDefinition> = {
+  sedentary: { label: 'Sedentary', description: 'Little or no exercise', factor: 1.2 },
+  light: { label: 'Lightly active', description: 'Exercise 1–3 days a week', factor: 1.375 },
+  moderate: { label: 'Moderately active', description: 'Exercise 3–5 days a week', factor: 1.55 },
+  active: { label: 'Very active', description: 'Hard exercise 6–7 days a week', factor: 1.725 },
+  very_active: { label: 'Extra active', description: 'Physical job or training twice a day', factor: 1.9 },
+};
+
+// Rates offered for losing or gaining weight, in kg per week
+export const WEEKLY_RATES_KG = [0.25, 0.5, 0.75, 1];
+
+// Energy stored in a kilogram of body fat
+const KCAL_PER_KG = 7700;
+// Below these intakes it is hard to get enough nutrients without medical supervision
+const MIN_CALORIES: Record<Sex, number> = { male: 1500, female: 1200 };
+// Protein per kg of body weight; higher while losing weight to hold on to muscle
+const PROTEIN_G_PER_KG: Record<WeightGoal, number> = { lose: 2.0, maintain: 1.6, gain: 1.8 };
+const FAT_SHARE = 0.25;
+
+export interface EnergyInput {
+  weightKg: number;
+  heightCm: number;
+  age: number;
+  sex: Sex;
+  activityLevel: ActivityLevel;
+  weightGoal: WeightGoal;
+  weeklyRateKg: number;
+}
+
+export interface EnergyEstimate {
+  bmr: number; // kcal burned at rest
+  tdee: number; // kcal burned in a day at the given activity level
+  goals: DailyGoals; // suggested daily targets
+  isCaloriesClamped: boolean; // the requested rate would have gone below the safe minimum
+}
+
+// Mifflin-St Jeor basal metabolic rate in kcal/day
+export function basalMetabolicRate({ weightKg, heightCm, age, sex }: Pick<EnergyInput, 'weightKg' | 'heightCm' | 'age' | 'sex'>): number {
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + (sex === 'male' ? 5 : -161);
+}
+
+export function estimateEnergy(input: EnergyInput): EnergyEstimate {
+  const bmr = basalMetabolicRate(input);
+  const tdee = bmr * ACTIVITY_LEVELS[input.activityLevel].factor;
+
+  const dailyChange = input.weightGoal === 'maintain' ? 0 : (input.weeklyRateKg * KCAL_PER_KG) / 7;
+  const target = input.weightGoal === 'lose' ? tdee - dailyChange : tdee + dailyChange;
+  const calories = Math.round(Math.max(target, MIN_CALORIES[input.sex]));
+
+  // Protein from body weight, fat as a share of calories, and carbs make up the rest
+  const protein = Math.round(input.weightKg * PROTEIN_G_PER_KG[input.weightGoal]);
+  const fat = Math.round((calories * FAT_SHARE) / 9);
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4));
+
+  return {
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    goals: { calories, protein, carbs, fat },
+    isCaloriesClamped: calories > Math.round(target),
+  };
+}
+
+// The calculator input from the profile and the latest weight, or the fields still missing
+export function energyInputFrom(
+  body: BodyMetrics,
+  weightKg: number | null,
+  now = new Date()
+): { input: EnergyInput; missing: [] } | { input: null; missing: string[] } {
+  const missing: string[] = [];
+  if (weightKg === null) missing.push('weight');
+  if (body.heightCm === null) missing.push('height');
+  if (body.birthYear === null) missing.push('year of birth');
+  if (body.sex === null) missing.push('sex');
+  if (body.activityLevel === null) missing.push('activity level');
+  if (body.weightGoal === null) missing.push('goal');
+
+  if (missing.length > 0) {
+    return { input: null, missing };
+  }
+  return {
+    input: {
+      weightKg: weightKg as number,
+      heightCm: body.heightCm as number,
+      age: now.getFullYear() - (body.birthYear as number),
+      sex: body.sex as Sex,
+      activityLevel: body.activityLevel as ActivityLevel,
+      weightGoal: body.weightGoal as WeightGoal,
+      weeklyRateKg: body.weeklyRateKg ?? 0.5,
+    },
+    missing: [],
+  };
+}
+
+function sameGoals(a: DailyGoals, b: DailyGoals): boolean {
+  return a.calories === b.calories && a.protein === b.protein && a.carbs === b.carbs && a.fat === b.fat;
+}
+
+// New targets to offer after a weigh-in. Only goals the user took from the calculator (or no
+// goals at all) are offered an update; goals they typed in themselves are left alone.
+export function recalculatedGoals(
+  body: BodyMetrics,
+  currentGoals: DailyGoals | null,
+  previousWeightKg: number | null,
+  weightKg: number
+): DailyGoals | null {
+  const { input } = energyInputFrom(body, weightKg);
+  if (!input) return null;
+  const next = estimateEnergy(input).goals;
+  if (currentGoals && sameGoals(currentGoals, next)) return null;
+
+  if (currentGoals) {
+    const previous = previousWeightKg !== null ? energyInputFrom(body, previousWeightKg).input : null;
+    if (!previous || !sameGoals(currentGoals, estimateEnergy(previous).goals)) return null;
+  }
+  return next;
+}
@@ -0,0 +1,57 @@
+import { BodyMetrics, Profile, ProfileChanges, ProfileRepository } from './types';
+
+let migrationPromise: Promise<void> | null = null;
+
+// What the guest set that the account has not; an account's own settings are never overwritten
+function changesToMigrate(guest: Profile, account: Profile): ProfileChanges {
+  const changes: ProfileChanges = {};
+  if (guest.timeZone && !account.timeZone) changes.timeZone = guest.timeZone;
+  if (guest.goals && !account.goals) changes.goals = guest.goals;
+
+  const body: Partial<BodyMetrics> = {};
+  for (const key of Object.keys(guest.body) as (keyof BodyMetrics)[]) {
+    if (guest.body[key] !== null && account.body[key] === null) {
+      Object.assign(body, { [key]: guest.body[key] });
+    }
+  }
+  if (Object.keys(body).length > 0) changes.body = body;
+  return changes;
+}
+
+async function runMigration(guest: ProfileRepository, account: ProfileRepository, clearGuestProfile: () => Promise<void>) {
+  const guestProfile = await guest.get();
+  if (guestProfile.updatedAt) {
+    const changes = changesToMigrate(guestProfile, await account.get());
+    if (Object.keys(changes).length > 0) {
+      await account.update(changes);
+    }
+    await clearGuestProfile();
+  }
+
+  // The local id is sent as the client id, so a weigh-in the account already has is not logged
+  // twice when a retry runs before it was forgotten locally
+  for (const entry of await guest.listWeights()) {
+    try {
+      await account.logWeight(entry.weightKg, entry.measuredAt, entry.id);
+      await guest.deleteWeight(entry.id);
+    } catch (error) {
+      console.error('Error migrating guest weight:', entry.id, error);
+    }
+  }
+}
+
+// Move the goals, body metrics and weight log set in guest mode into the account that just
+// signed in or signed up. Anything that failed stays local for the next attempt. Concurrent
+// callers share the same run.
+export function migrateGuestProfile(
+  guest: ProfileRepository,
+  account: ProfileRepository,
+  clearGuestProfile: () => Promise<void>
+): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = runMigration(guest, account, clearGuestProfile).finally(() => {
+      migrationPromise = null;
+    });
+  }
+  return migrationPromise;
+}
@@ -0,0 +1,64 @@
+import { getDeviceTimeZone } from '@/services/timeZone';
+import { supabase } from '@/src/services/supabase';
+import { migrateGuestProfile as migrateProfile } from './guestMigration';
+import { clearLocalProfile, createLocalProfileRepository } from './localProfileRepository';
+import { createSupabaseProfileRepository } from './supabaseProfileRepository';
+import { ProfileRepository } from './types';
+
+export * from './types';
+export * from './energy';
+export { createLocalProfileRepository } from './localProfileRepository';
+export { createSupabaseProfileRepository, profileFromRow } from './supabaseProfileRepository';
+
+let accountRepository: ProfileRepository | null = null;
+let guestRepository: ProfileRepository | null = null;
+let overrideRepository: ProfileRepository | null = null;
+let isGuestMode = false;
+
+function getAccountProfileRepository(): ProfileRepository {
+  if (!accountRepository) {
+    accountRepository = createSupabaseProfileRepository(supabase);
+  }
+  return accountRepository;
+}
+
+// Like their meals, a guest's profile and weight log stay on the device until they sign up
+function getGuestProfileRepository(): ProfileRepository {
+  if (!guestRepository) {
+    guestRepository = createLocalProfileRepository();
+  }
+  return guestRepository;
+}
+
+export function getProfileRepository(): ProfileRepository {
+  if (overrideRepository) {
+    return overrideRepository;
+  }
+  return isGuestMode ? getGuestProfileRepository() : getAccountProfileRepository();
+}
+
+// Follows the auth status together with the meals' guest mode
+export function setProfileGuestMode(enabled: boolean): void {
+  isGuestMode = enabled;
+}
+
+// Called once a former guest has an account, alongside migrateGuestMeals
+export function migrateGuestProfile(): Promise<void> {
+  return migrateProfile(getGuestProfileRepository(), getAccountProfileRepository(), clearLocalProfile);
+}
+
+// The time zone the user's days are counted in; the device's when the profile has none or is unreachable
+export async function getUserTimeZone(): Promise<string> {
+  try {
+    const profile = await getProfileRepository().get();
+    return profile.timeZone || getDeviceTimeZone();
+  } catch (error) {
+    console.error('Error loading time zone:', error);
+    return getDeviceTimeZone();
+  }
+}
+
+// Allows tests and dev tooling to swap the repository at runtime
+export function setProfileRepository(next: ProfileRepository | null): void {
+  overrideRepository = next;
+}
@@ -0,0 +1,67 @@
+import 'react-native-get-random-values';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import { EMPTY_PROFILE, Profile, ProfileChanges, ProfileRepository, WeightEntry } from './types';
+
+const LOCAL_PROFILE_STORAGE_KEY = 'guestProfile:v1';
+const LOCAL_WEIGHTS_STORAGE_KEY = 'guestWeights:v1';
+
+async function readStored<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return fallback;
+  }
+}
+
+// The guest's goals, body metrics and weight log, kept on the device like their meals
+// until they create an account
+export function createLocalProfileRepository(): ProfileRepository {
+  const readProfile = () => readStored<Profile>(LOCAL_PROFILE_STORAGE_KEY, EMPTY_PROFILE);
+  const readWeights = () => readStored<WeightEntry[]>(LOCAL_WEIGHTS_STORAGE_KEY, []);
+  const writeWeights = (entries: WeightEntry[]) =>
+    AsyncStorage.setItem(LOCAL_WEIGHTS_STORAGE_KEY, JSON.stringify(entries));
+
+  return {
+    get: readProfile,
+
+    async update(changes: ProfileChanges): Promise<Profile> {
+      const current = await readProfile();
+      const profile: Profile = {
+        timeZone: changes.timeZone !== undefined ? changes.timeZone : current.timeZone,
+        goals: changes.goals !== undefined ? changes.goals : current.goals,
+        body: { ...current.body, ...changes.body },
+        updatedAt: new Date().toISOString(),
+      };
+      await AsyncStorage.setItem(LOCAL_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+      return profile;
+    },
+
+    async listWeights({ limit }: { limit?: number } = {}): Promise<WeightEntry[]> {
+      const entries = (await readWeights()).sort((a, b) => b.measuredAt.localeCompare(a.measuredAt));
+      return limit ? entries.slice(0, limit) : entries;
+    },
+
+    async logWeight(weightKg: number, measuredAt: string = new Date().toISOString(), clientId?: string): Promise<WeightEntry> {
+      // On the device the client id is the entry's id
+      const entries = await readWeights();
+      const existing = clientId ? entries.find(entry => entry.id === clientId) : undefined;
+      if (existing) return existing;
+
+      const entry: WeightEntry = { id: clientId ?? uuidv4(), weightKg, measuredAt };
+      await writeWeights([...entries, entry]);
+      return entry;
+    },
+
+    async deleteWeight(id: string): Promise<void> {
+      await writeWeights((await readWeights()).filter(entry => entry.id !== id));
+    },
+  };
+}
+
+// Forget the guest's profile once it has moved to an account
+export async function clearLocalProfile(): Promise<void> {
+  await AsyncStorage.removeItem(LOCAL_PROFILE_STORAGE_KEY);
+}
@@ -0,0 +1,139 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, Tables, TablesInsert } from '@/services/database.types';
+import {
+  ActivityLevel,
+  DEFAULT_DAILY_GOALS,
+  EMPTY_PROFILE,
+  Profile,
+  ProfileChanges,
+  ProfileRepository,
+  Sex,
+  WeightEntry,
+  WeightGoal,
+} from './types';
+
+type ProfileRow = Tables<'profiles'>;
+
+function numberOrNull(value: number | null): number | null {
+  return value !== null ? Number(value) : null;
+}
+
+export function profileFromRow(row: ProfileRow): Profile {
+  const hasGoals = [row.calorie_goal, row.protein_goal, row.carbs_goal, row.fat_goal].some(value => value !== null);
+  return {
+    timeZone: row.time_zone,
+    // A goal left empty falls back to the default rather than to zero
+    goals: hasGoals
+      ? {
+          calories: row.calorie_goal ?? DEFAULT_DAILY_GOALS.calories,
+          protein: row.protein_goal !== null ? Number(row.protein_goal) : DEFAULT_DAILY_GOALS.protein,
+          carbs: row.carbs_goal !== null ? Number(row.carbs_goal) : DEFAULT_DAILY_GOALS.carbs,
+          fat: row.fat_goal !== null ? Number(row.fat_goal) : DEFAULT_DAILY_GOALS.fat,
+        }
+      : null,
+    body: {
+      heightCm: numberOrNull(row.height_cm),
+      birthYear: row.birth_year,
+      sex: row.sex as Sex | null,
+      activityLevel: row.activity_level as ActivityLevel | null,
+      weightGoal: row.weight_goal as WeightGoal | null,
+      weeklyRateKg: numberOrNull(row.weekly_rate_kg),
+    },
+    updatedAt: row.updated_at,
+  };
+}
+
+function weightEntryFromRow(row: Tables<'weight_entries'>): WeightEntry {
+  return { id: row.id, weightKg: Number(row.weight_kg), measuredAt: row.measured_at };
+}
+
+function changesToRow(userId: string, changes: ProfileChanges): TablesInsert<'profiles'> {
+  const row: TablesInsert<'profiles'> = { user_id: userId };
+  if (changes.timeZone !== undefined) row.time_zone = changes.timeZone;
+  if (changes.goals !== undefined) {
+    row.calorie_goal = changes.goals ? Math.round(changes.goals.calories) : null;
+    row.protein_goal = changes.goals?.protein ?? null;
+    row.carbs_goal = changes.goals?.carbs ?? null;
+    row.fat_goal = changes.goals?.fat ?? null;
+  }
+  if (changes.body) {
+    const { heightCm, birthYear, sex, activityLevel, weightGoal, weeklyRateKg } = changes.body;
+    if (heightCm !== undefined) row.height_cm = heightCm;
+    if (birthYear !== undefined) row.birth_year = birthYear;
+    if (sex !== undefined) row.sex = sex;
+    if (activityLevel !== undefined) row.activity_level = activityLevel;
+    if (weightGoal !== undefined) row.weight_goal = weightGoal;
+    if (weeklyRateKg !== undefined) row.weekly_rate_kg = weeklyRateKg;
+  }
+  return row;
+}
+
+// The profiles table, one row per user, protected by row level security like meals
+export function createSupabaseProfileRepository(client: SupabaseClient<Database>): ProfileRepository {
+  const requireUserId = async (): Promise<string> => {
+    const { data: { session } } = await client.auth.getSession();
+    if (!session) {
+      throw new Error('You need to be signed in to use your profile');
+    }
+    return session.user.id;
+  };
+
+  return {
+    async get(): Promise<Profile> {
+      const userId = await requireUserId();
+      const { data, error } = await client.from('profiles').select('*').eq('user_id', userId).maybeSingle();
+      if (error) throw error;
+      return data ? profileFromRow(data) : EMPTY_PROFILE;
+    },
+
+    async update(changes: ProfileChanges): Promise<Profile> {
+      // The row is created by the first save
+      const userId = await requireUserId();
+      const { data, error } = await client
+        .from('profiles')
+        .upsert(changesToRow(userId, changes), { onConflict: 'user_id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return profileFromRow(data);
+    },
+
+    async listWeights({ limit }: { limit?: number } = {}): Promise<WeightEntry[]> {
+      let query = client.from('weight_entries').select('*').order('measured_at', { ascending: false });
+      if (limit) query = query.limit(limit);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data.map(weightEntryFromRow);
+    },
+
+    async logWeight(weightKg: number, measuredAt?: string, clientId?: string): Promise<WeightEntry> {
+      const userId = await requireUserId();
+      const { data, error } = await client
+        .from('weight_entries')
+        .upsert(
+          { user_id: userId, weight_kg: weightKg, measured_at: measuredAt, client_id: clientId ?? null },
+          { onConflict: 'user_id,client_id', ignoreDuplicates: true }
+        )
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      if (data) return weightEntryFromRow(data);
+
+      // Already logged with this client id
+      const { data: existing, error: existingError } = await client
+        .from('weight_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('client_id', clientId as string)
+        .single();
+      if (existingError) throw existingError;
+      return weightEntryFromRow(existing);
+    },
+
+    async deleteWeight(id: string): Promise<void> {
+      const { error } = await client.from('weight_entries').delete().eq('id', id);
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { CoreNutrientKey } from '@/services/nutrients';
+
+// Daily targets for calories (kcal) and each macro (g)
+export type DailyGoals = Record<CoreNutrientKey, number>;
+
+// Used until the user sets their own goals
+export const DEFAULT_DAILY_GOALS: DailyGoals = {
+  calories: 2000,
+  protein: 100,
+  carbs: 250,
+  fat: 65,
+};
+
+export type Sex = 'male' | 'female';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+export type WeightGoal = 'lose' | 'maintain' | 'gain';
+
+// What the goal calculator needs besides the current weight, which comes from the weight log.
+// Every field stays null until the user fills it in.
+export interface BodyMetrics {
+  heightCm: number | null;
+  birthYear: number | null;
+  sex: Sex | null;
+  activityLevel: ActivityLevel | null;
+  weightGoal: WeightGoal | null;
+  weeklyRateKg: number | null; // kg per week to lose or gain
+}
+
+export const EMPTY_BODY_METRICS: BodyMetrics = {
+  heightCm: null,
+  birthYear: null,
+  sex: null,
+  activityLevel: null,
+  weightGoal: null,
+  weeklyRateKg: null,
+};
+
+export interface Profile {
+  timeZone: string | null; // IANA name; the device's time zone is used when unset
+  goals: DailyGoals | null; // null until the user sets them
+  body: BodyMetrics;
+  updatedAt: string | null;
+}
+
+export const EMPTY_PROFILE: Profile = { timeZone: null, goals: null, body: EMPTY_BODY_METRICS, updatedAt: null };
+
+export type ProfileChanges = Partial<Pick<Profile, 'timeZone' | 'goals'>> & { body?: Partial<BodyMetrics> };
+
+export interface WeightEntry {
+  id: string;
+  weightKg: number;
+  measuredAt: string; // ISO timestamp
+}
+
+// The signed in user's profile and weight log. A user without a saved profile gets an empty one.
+export interface ProfileRepository {
+  get(): Promise<Profile>;
+  update(changes: ProfileChanges): Promise<Profile>;
+  listWeights(options?: { limit?: number }): Promise<WeightEntry[]>; // Newest first
+  // Logging again with a client id that was already used returns the existing entry
+  logWeight(weightKg: number, measuredAt?: string, clientId?: string): Promise<WeightEntry>;
+  deleteWeight(id: string): Promise<void>;
+}
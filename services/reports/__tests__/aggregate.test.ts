@@ -0,0 +1,141 @@
+import { MealDayTotals } from '@/services/meals/types';
+import { buildNutritionReport, dayStatus, frequentFoods, macroSplit, ReportInput } from '../aggregate';
+import { reportPeriod } from '../period';
+
+const GOALS = { calories: 2000, protein: 100, carbs: 250, fat: 65 };
+
+function totals(day: string, mealCount: number, calories: number): MealDayTotals {
+  return { day, mealCount, nutrients: { calories, protein: 100, carbs: 250, fat: 65 } };
+}
+
+function food(name: string, calories: number) {
+  return {
+    name,
+    portion: '1 serving',
+    grams: 100,
+    nutrients: { calories, protein: 0, carbs: 0, fat: 0 },
+    ranges: {
+      calories: { low: calories, high: calories },
+      protein: { low: 0, high: 0 },
+      carbs: { low: 0, high: 0 },
+      fat: { low: 0, high: 0 },
+    },
+  };
+}
+
+function meal(name: string, items: ReturnType<typeof food>[], calories = 0): ReportInput['meals'][number] {
+  return { name, items, nutrients: { calories, protein: 0, carbs: 0, fat: 0 } };
+}
+
+describe('dayStatus', () => {
+  it('counts days within 10% of the calorie goal as on target', () => {
+    expect(dayStatus(1799, 2, 2000)).toBe('under');
+    expect(dayStatus(1800, 2, 2000)).toBe('onTarget');
+    expect(dayStatus(2200, 2, 2000)).toBe('onTarget');
+    expect(dayStatus(2201, 2, 2000)).toBe('over');
+  });
+
+  it('does not judge days without meals', () => {
+    expect(dayStatus(0, 0, 2000)).toBe('notLogged');
+  });
+});
+
+describe('macroSplit', () => {
+  it('gives whole percentages of calories that add up to 100', () => {
+    // 400, 800 and 450 kcal: 24.2%, 48.5% and 27.3%
+    expect(macroSplit({ protein: 100, carbs: 200, fat: 50 })).toEqual({ protein: 24, carbs: 49, fat: 27 });
+    const split = macroSplit({ protein: 33, carbs: 33, fat: 33 });
+    expect(split && split.protein + split.carbs + split.fat).toBe(100);
+  });
+
+  it('has no split without calories', () => {
+    expect(macroSplit({ protein: 0, carbs: 0, fat: 0 })).toBeNull();
+  });
+});
+
+describe('frequentFoods', () => {
+  it('counts a food once per meal, ignoring case and extra spaces', () => {
+    const foods = frequentFoods([
+      meal('Lunch', [food('Rice', 200), food('rice ', 100)]),
+      meal('Dinner', [food('Rice', 200), food('Chicken', 250)]),
+      meal('Dinner', [food('  Chicken', 250)]),
+      meal('Banana', [], 105),
+    ]);
+    expect(foods).toEqual([
+      { name: 'Chicken', count: 2, averageCalories: 250 },
+      { name: 'Rice', count: 2, averageCalories: 250 },
+      { name: 'Banana', count: 1, averageCalories: 105 },
+    ]);
+  });
+
+  it('keeps the most frequent ones up to the limit', () => {
+    const meals = ['A', 'B', 'C'].map(name => meal(name, [], 100));
+    expect(frequentFoods([...meals, meal('C', [], 100)], 1)).toEqual([{ name: 'C', count: 2, averageCalories: 100 }]);
+  });
+});
+
+describe('buildNutritionReport', () => {
+  // Thursday of the week 2025-06-09 to 2025-06-15
+  const today = '2025-06-12';
+  const input: ReportInput = {
+    period: reportPeriod('week', today),
+    goals: GOALS,
+    today,
+    dayTotals: [
+      totals('2025-06-06', 1, 2000),
+      totals('2025-06-07', 1, 1900),
+      totals('2025-06-08', 1, 2100),
+      totals('2025-06-09', 2, 2000),
+      totals('2025-06-10', 1, 1000),
+      totals('2025-06-11', 3, 2500),
+    ],
+    meals: [],
+  };
+
+  it('reports every day of the period with its status', () => {
+    const report = buildNutritionReport(input);
+    expect(report.days.map(day => [day.day, day.status])).toEqual([
+      ['2025-06-09', 'onTarget'],
+      ['2025-06-10', 'under'],
+      ['2025-06-11', 'over'],
+      ['2025-06-12', 'notLogged'],
+      ['2025-06-13', 'upcoming'],
+      ['2025-06-14', 'upcoming'],
+      ['2025-06-15', 'upcoming'],
+    ]);
+    expect(report.statusCounts).toEqual({ under: 1, onTarget: 1, over: 1, notLogged: 1, upcoming: 3 });
+  });
+
+  it('averages over logged days only', () => {
+    const report = buildNutritionReport(input);
+    expect(report.loggedDays).toBe(3);
+    // (2000 + 1000 + 2500) / 3
+    expect(report.averages).toEqual({ calories: 1833, protein: 100, carbs: 250, fat: 65 });
+    // The week before only has 2025-06-06 to 2025-06-08 logged
+    expect(report.previousAverages).toEqual({ calories: 2000, protein: 100, carbs: 250, fat: 65 });
+  });
+
+  it('counts streaks from before the period and does not break them on today', () => {
+    const { streaks } = buildNutritionReport(input);
+    expect(streaks.logging).toBe(6);
+    expect(streaks.onTarget).toBe(0);
+    expect(streaks.longestOnTarget).toBe(1);
+  });
+
+  it('counts today once it is on target', () => {
+    const { streaks } = buildNutritionReport({
+      ...input,
+      dayTotals: [...input.dayTotals.slice(0, 4), totals('2025-06-12', 2, 2050)],
+    });
+    // 2025-06-10 and 2025-06-11 are missing, so only today counts
+    expect(streaks.logging).toBe(1);
+    expect(streaks.onTarget).toBe(1);
+  });
+
+  it('has no averages or split when nothing was logged', () => {
+    const report = buildNutritionReport({ ...input, dayTotals: [] });
+    expect(report.averages).toBeNull();
+    expect(report.macroSplit).toBeNull();
+    expect(report.streaks).toEqual({ logging: 0, onTarget: 0, longestOnTarget: 0 });
+  });
+});
@@ -0,0 +1,56 @@
+import { dayBounds } from '@/services/timeZone';
+import { periodDays, reportPeriod, shiftReportPeriod } from '../period';
+
+describe('reportPeriod', () => {
+  it('starts weeks on Monday', () => {
+    expect(reportPeriod('week', '2025-06-11')).toEqual({ kind: 'week', fromDay: '2025-06-09', toDay: '2025-06-15' });
+    expect(reportPeriod('week', '2025-06-09')).toEqual({ kind: 'week', fromDay: '2025-06-09', toDay: '2025-06-15' });
+    // A Sunday belongs to the week that started the Monday before
+    expect(reportPeriod('week', '2025-06-15')).toEqual({ kind: 'week', fromDay: '2025-06-09', toDay: '2025-06-15' });
+  });
+
+  it('lets a week run across a month and year end', () => {
+    expect(reportPeriod('week', '2025-01-01')).toEqual({ kind: 'week', fromDay: '2024-12-30', toDay: '2025-01-05' });
+  });
+
+  it('ends months on their last day', () => {
+    expect(reportPeriod('month', '2025-06-11')).toEqual({ kind: 'month', fromDay: '2025-06-01', toDay: '2025-06-30' });
+    expect(reportPeriod('month', '2025-12-31')).toEqual({ kind: 'month', fromDay: '2025-12-01', toDay: '2025-12-31' });
+    expect(reportPeriod('month', '2024-02-10').toDay).toBe('2024-02-29');
+    expect(reportPeriod('month', '2025-02-10').toDay).toBe('2025-02-28');
+  });
+});
+
+describe('shiftReportPeriod', () => {
+  it('moves weeks by seven days', () => {
+    const week = reportPeriod('week', '2025-06-11');
+    expect(shiftReportPeriod(week, -1)).toEqual({ kind: 'week', fromDay: '2025-06-02', toDay: '2025-06-08' });
+    expect(shiftReportPeriod(week, 3)).toEqual({ kind: 'week', fromDay: '2025-06-30', toDay: '2025-07-06' });
+  });
+
+  it('moves months without skipping short ones', () => {
+    const january = reportPeriod('month', '2025-01-31');
+    expect(shiftReportPeriod(january, 1)).toEqual({ kind: 'month', fromDay: '2025-02-01', toDay: '2025-02-28' });
+    expect(shiftReportPeriod(january, -1)).toEqual({ kind: 'month', fromDay: '2024-12-01', toDay: '2024-12-31' });
+    expect(shiftReportPeriod(reportPeriod('month', '2025-12-15'), 1).fromDay).toBe('2026-01-01');
+  });
+});
+
+describe('periodDays', () => {
+  it('lists every day of the period once, including around clock changes', () => {
+    // Paris changes to summer time on Sunday 2025-03-30 and back on Sunday 2025-10-26
+    const springWeek = periodDays(reportPeriod('week', '2025-03-30'));
+    expect(springWeek).toEqual([
+      '2025-03-24', '2025-03-25', '2025-03-26', '2025-03-27', '2025-03-28', '2025-03-29', '2025-03-30',
+    ]);
+    expect(periodDays(reportPeriod('month', '2025-10-26'))).toHaveLength(31);
+    expect(periodDays(reportPeriod('month', '2024-02-01'))).toHaveLength(29);
+  });
+
+  it('covers the whole period in local time when a day is an hour short', () => {
+    const week = reportPeriod('week', '2025-03-30');
+    const from = Date.parse(dayBounds(week.fromDay, 'Europe/Paris').from);
+    const to = Date.parse(dayBounds(week.toDay, 'Europe/Paris').to);
+    expect((to - from) / (60 * 60 * 1000)).toBe(7 * 24 - 1);
+  });
+});
@@ -0,0 +1,216 @@
+import { Meal, MealDayTotals } from '@/services/meals/types';
+import { CORE_NUTRIENT_KEYS, CoreNutrientKey } from '@/services/nutrients';
+import { DailyGoals } from '@/services/profile/types';
+import { periodDays, ReportPeriod, shiftReportPeriod } from './period';
+
+// Weekly and monthly reports built from saved meals. Everything here is plain data in and
+// out, with no React Native or Supabase imports, so it can be unit tested on its own.
+
+// A day within this share of the calorie goal counts as on target
+export const ON_TARGET_TOLERANCE = 0.1;
+export const FREQUENT_FOODS_LIMIT = 5;
+
+// Energy per gram, for the share of calories each macro provides
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+// upcoming: after today, so neither logged nor missed yet
+export type DayStatus = 'under' | 'onTarget' | 'over' | 'notLogged' | 'upcoming';
+
+export type CoreNutrients = Record<CoreNutrientKey, number>;
+
+export interface ReportDay {
+  day: string; // YYYY-MM-DD
+  mealCount: number;
+  nutrients: CoreNutrients;
+  status: DayStatus;
+}
+
+// Percentages of calories, adding up to 100
+export interface MacroSplit {
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface FrequentFood {
+  name: string;
+  count: number; // Meals it was part of
+  averageCalories: number; // Per time it was eaten
+}
+
+export interface ReportStreaks {
+  logging: number; // Days in a row with at least one meal, up to the end of the period
+  onTarget: number; // Days in a row on target, up to the end of the period
+  longestOnTarget: number; // Longest run on target within the period
+}
+
+export interface NutritionReport {
+  period: ReportPeriod;
+  goals: DailyGoals;
+  days: ReportDay[]; // Every day of the period, oldest first
+  loggedDays: number;
+  averages: CoreNutrients | null; // Per logged day; null when nothing was logged
+  previousAverages: CoreNutrients | null; // The same for the period before, for the trend
+  statusCounts: Record<DayStatus, number>;
+  macroSplit: MacroSplit | null;
+  goalMacroSplit: MacroSplit;
+  frequentFoods: FrequentFood[];
+  streaks: ReportStreaks;
+}
+
+export interface ReportInput {
+  period: ReportPeriod;
+  goals: DailyGoals;
+  today: string; // YYYY-MM-DD in the user's time zone
+  // Per-day totals for the period and the days before it; streaks and the previous
+  // period's averages reach back as far as these go
+  dayTotals: MealDayTotals[];
+  meals: Pick<Meal, 'name' | 'items' | 'nutrients'>[]; // The meals eaten in the period, for frequent foods
+}
+
+const ZERO_NUTRIENTS: CoreNutrients = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+export function dayStatus(calories: number, mealCount: number, calorieGoal: number): Exclude<DayStatus, 'upcoming'> {
+  if (mealCount === 0) return 'notLogged';
+  if (calories < calorieGoal * (1 - ON_TARGET_TOLERANCE)) return 'under';
+  if (calories > calorieGoal * (1 + ON_TARGET_TOLERANCE)) return 'over';
+  return 'onTarget';
+}
+
+function averageOf(days: Pick<ReportDay, 'mealCount' | 'nutrients'>[]): CoreNutrients | null {
+  const logged = days.filter(day => day.mealCount > 0);
+  if (logged.length === 0) return null;
+  const averages = { ...ZERO_NUTRIENTS };
+  for (const key of CORE_NUTRIENT_KEYS) {
+    averages[key] = Math.round(logged.reduce((sum, day) => sum + day.nutrients[key], 0) / logged.length);
+  }
+  return averages;
+}
+
+// Rounds to whole percentages that still add up to 100 (largest remainder first)
+function toPercentages(values: MacroSplit): MacroSplit | null {
+  const keys = Object.keys(values) as (keyof MacroSplit)[];
+  const total = keys.reduce((sum, key) => sum + values[key], 0);
+  if (total <= 0) return null;
+
+  const exact = keys.map(key => ({ key, value: (values[key] / total) * 100 }));
+  const split: MacroSplit = { protein: 0, carbs: 0, fat: 0 };
+  exact.forEach(({ key, value }) => (split[key] = Math.floor(value)));
+  let missing = 100 - keys.reduce((sum, key) => sum + split[key], 0);
+  for (const { key } of [...exact].sort((a, b) => (b.value % 1) - (a.value % 1))) {
+    if (missing <= 0) break;
+    split[key] += 1;
+    missing -= 1;
+  }
+  return split;
+}
+
+// Share of calories from each macro, from grams
+export function macroSplit(grams: Pick<CoreNutrients, 'protein' | 'carbs' | 'fat'>): MacroSplit | null {
+  return toPercentages({
+    protein: grams.protein * KCAL_PER_GRAM.protein,
+    carbs: grams.carbs * KCAL_PER_GRAM.carbs,
+    fat: grams.fat * KCAL_PER_GRAM.fat,
+  });
+}
+
+// Foods eaten most often, counted once per meal. Meals with detected items count each item;
+// others count as the meal itself. Names are matched ignoring case and extra spaces.
+export function frequentFoods(meals: ReportInput['meals'], limit = FREQUENT_FOODS_LIMIT): FrequentFood[] {
+  const foods = new Map<string, { name: string; count: number; calories: number }>();
+
+  for (const meal of meals) {
+    const entries = meal.items.length > 0 ? meal.items : [{ name: meal.name, nutrients: meal.nutrients }];
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      const name = entry.name.trim().replace(/\s+/g, ' ');
+      const key = name.toLowerCase();
+      if (!key) continue;
+      const food = foods.get(key) ?? { name, count: 0, calories: 0 };
+      if (!seen.has(key)) {
+        food.count += 1;
+        seen.add(key);
+      }
+      food.calories += entry.nutrients.calories;
+      foods.set(key, food);
+    }
+  }
+
+  return [...foods.values()]
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(food => ({ name: food.name, count: food.count, averageCalories: Math.round(food.calories / food.count) }));
+}
+
+// Days in a row meeting the condition, counting back from the last day. Today is still
+// going, so it only counts once it qualifies.
+function runEndingAt(lastDay: string, today: string, dayList: string[], qualifies: (day: string) => boolean): number {
+  let count = 0;
+  for (let index = dayList.lastIndexOf(lastDay); index >= 0; index--) {
+    const day = dayList[index];
+    if (qualifies(day)) {
+      count++;
+    } else if (day !== today) {
+      break;
+    }
+  }
+  return count;
+}
+
+function longestRun(days: ReportDay[], qualifies: (day: ReportDay) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const day of days) {
+    current = qualifies(day) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+export function buildNutritionReport({ period, goals, today, dayTotals, meals }: ReportInput): NutritionReport {
+  const totalsByDay = new Map(dayTotals.map(totals => [totals.day, totals]));
+  const toReportDay = (day: string): ReportDay => {
+    const totals = totalsByDay.get(day);
+    const mealCount = totals?.mealCount ?? 0;
+    const nutrients = totals?.nutrients ?? ZERO_NUTRIENTS;
+    return {
+      day,
+      mealCount,
+      nutrients,
+      status: day > today ? 'upcoming' : dayStatus(nutrients.calories, mealCount, goals.calories),
+    };
+  };
+
+  const days = periodDays(period).map(toReportDay);
+  const previousDays = periodDays(shiftReportPeriod(period, -1)).map(toReportDay);
+
+  const statusCounts: Record<DayStatus, number> = { under: 0, onTarget: 0, over: 0, notLogged: 0, upcoming: 0 };
+  days.forEach(day => statusCounts[day.status]++);
+
+  const averages = averageOf(days);
+
+  // Streaks may have started before the period, as far back as the totals we were given
+  const earliest = dayTotals.reduce((first, totals) => (totals.day < first ? totals.day : first), period.fromDay);
+  const lastDay = today < period.toDay ? today : period.toDay;
+  const history = lastDay >= earliest ? periodDays({ fromDay: earliest, toDay: lastDay }) : [];
+  const isLogged = (day: string) => (totalsByDay.get(day)?.mealCount ?? 0) > 0;
+  const isOnTarget = (day: string) => toReportDay(day).status === 'onTarget';
+
+  return {
+    period,
+    goals,
+    days,
+    loggedDays: days.filter(day => day.mealCount > 0).length,
+    averages,
+    previousAverages: averageOf(previousDays),
+    statusCounts,
+    macroSplit: averages ? macroSplit(averages) : null,
+    goalMacroSplit: macroSplit(goals) ?? { protein: 0, carbs: 0, fat: 0 },
+    frequentFoods: frequentFoods(meals),
+    streaks: {
+      logging: runEndingAt(lastDay, today, history, isLogged),
+      onTarget: runEndingAt(lastDay, today, history, isOnTarget),
+      longestOnTarget: longestRun(days, day => day.status === 'onTarget'),
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { DayStatus, MacroSplit } from './aggregate';
+
+// Labels and colors shared by the reports screen and the exported PDF, so both read the same
+
+export const DAY_STATUS_DISPLAY: Record<DayStatus, { label: string; color: string }> = {
+  onTarget: { label: 'On target', color: '#4CD964' },
+  under: { label: 'Under', color: '#F5A623' },
+  over: { label: 'Over', color: '#FF6B6B' },
+  notLogged: { label: 'Not logged', color: '#C7C7CC' },
+  upcoming: { label: 'Upcoming', color: '#E5E5EA' },
+};
+
+export const MACRO_DISPLAY: Record<keyof MacroSplit, { label: string; color: string }> = {
+  protein: { label: 'Protein', color: '#4CD964' },
+  carbs: { label: 'Carbs', color: '#F5A623' },
+  fat: { label: 'Fat', color: '#AF52DE' },
+};
+
+export const MACRO_KEYS: (keyof MacroSplit)[] = ['protein', 'carbs', 'fat'];
+
+// e.g. "+120" or "−35" against the previous period; null when there is nothing to compare with
+export function formatChange(current: number, previous: number | undefined): string | null {
+  if (previous === undefined) return null;
+  const change = Math.round(current - previous);
+  return change === 0 ? '±0' : `${change > 0 ? '+' : '−'}${Math.abs(change)}`;
+}
+
+export function formatStreak(days: number): string {
+  return days === 1 ? '1 day' : `${days} days`;
+}
@@ -0,0 +1,47 @@
+import { getMealRepository } from '@/services/meals';
+import { DEFAULT_DAILY_GOALS, getProfileRepository } from '@/services/profile';
+import { addDays, dayBounds, getDeviceTimeZone, todayKey } from '@/services/timeZone';
+import { buildNutritionReport, NutritionReport } from './aggregate';
+import { periodDays, reportPeriod, ReportPeriodKind, shiftReportPeriod } from './period';
+
+export * from './aggregate';
+export * from './display';
+export * from './period';
+export { renderReportHtml } from './reportHtml';
+export { shareReportImage, shareReportPdf } from './reportExport';
+
+// How far before a period streaks are followed back. Also covers the previous period,
+// which the averages are compared with.
+export const STREAK_LOOKBACK_DAYS = 62;
+
+// The report for the current week or month (offset 0) or one before it (offset -1, -2, ...)
+export async function loadNutritionReport(kind: ReportPeriodKind, offset = 0): Promise<NutritionReport> {
+  // Without the profile (e.g. offline) the defaults and the device's time zone still work
+  const profile = await getProfileRepository()
+    .get()
+    .catch(error => {
+      console.error('Error loading goals for report:', error);
+      return null;
+    });
+  const timeZone = profile?.timeZone || getDeviceTimeZone();
+  const today = todayKey(timeZone);
+  const period = shiftReportPeriod(reportPeriod(kind, today), offset);
+
+  const repository = getMealRepository();
+  const [meals, dayTotals] = await Promise.all([
+    repository.list({ from: dayBounds(period.fromDay, timeZone).from, to: dayBounds(period.toDay, timeZone).to }),
+    repository.dayTotals(
+      {},
+      periodDays({ fromDay: addDays(period.fromDay, -STREAK_LOOKBACK_DAYS), toDay: period.toDay }),
+      timeZone
+    ),
+  ]);
+
+  return buildNutritionReport({
+    period,
+    goals: profile?.goals ?? DEFAULT_DAILY_GOALS,
+    today,
+    dayTotals,
+    meals,
+  });
+}
@@ -0,0 +1,69 @@
+import { addDays } from '@/services/timeZone';
+
+export type ReportPeriodKind = 'week' | 'month';
+
+// A calendar week (Monday to Sunday) or month, as YYYY-MM-DD days in the user's time zone
+export interface ReportPeriod {
+  kind: ReportPeriodKind;
+  fromDay: string; // inclusive
+  toDay: string; // inclusive
+}
+
+function utcDate(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date));
+}
+
+// The week or month the day falls in
+export function reportPeriod(kind: ReportPeriodKind, day: string): ReportPeriod {
+  if (kind === 'week') {
+    // getUTCDay() counts from Sunday; weeks here start on Monday
+    const fromDay = addDays(day, -((utcDate(day).getUTCDay() + 6) % 7));
+    return { kind, fromDay, toDay: addDays(fromDay, 6) };
+  }
+  const fromDay = `${day.slice(0, 8)}01`;
+  const nextMonth = utcDate(fromDay);
+  nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+  return { kind, fromDay, toDay: addDays(nextMonth.toISOString().slice(0, 10), -1) };
+}
+
+// The period steps before (negative) or after (positive) this one
+export function shiftReportPeriod(period: ReportPeriod, steps: number): ReportPeriod {
+  if (period.kind === 'week') {
+    return reportPeriod('week', addDays(period.fromDay, steps * 7));
+  }
+  const shifted = utcDate(period.fromDay);
+  shifted.setUTCMonth(shifted.getUTCMonth() + steps);
+  return reportPeriod('month', shifted.toISOString().slice(0, 10));
+}
+
+export function periodDays({ fromDay, toDay }: Pick<ReportPeriod, 'fromDay' | 'toDay'>): string[] {
+  const days: string[] = [];
+  for (let day = fromDay; day <= toDay; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// e.g. "Jun 9 – 15, 2025" or "June 2025"
+export function formatPeriodLabel(period: ReportPeriod): string {
+  const from = utcDate(period.fromDay);
+  const to = utcDate(period.toDay);
+  if (period.kind === 'month') {
+    return from.toLocaleDateString([], { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+  const fromLabel = from.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const toLabel =
+    from.getUTCMonth() === to.getUTCMonth()
+      ? String(to.getUTCDate())
+      : to.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return `${fromLabel} – ${toLabel}, ${to.getUTCFullYear()}`;
+}
+
+// Short chart label for a day: "Mon" in a week, the day of the month in a month
+export function formatDayTick(day: string, kind: ReportPeriodKind): string {
+  const date = utcDate(day);
+  return kind === 'week'
+    ? date.toLocaleDateString([], { weekday: 'short', timeZone: 'UTC' })
+    : String(date.getUTCDate());
+}
@@ -0,0 +1,31 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { RefObject } from 'react';
+import { View } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import { NutritionReport } from './aggregate';
+import { formatPeriodLabel } from './period';
+import { renderReportHtml } from './reportHtml';
+
+async function share(uri: string, mimeType: string, report: NutritionReport, uti: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType,
+    UTI: uti,
+    dialogTitle: `Nutrition report, ${formatPeriodLabel(report.period)}`,
+  });
+}
+
+// Shares a PNG of the report exactly as it is shown on screen
+export async function shareReportImage(view: RefObject<View | null>, report: NutritionReport): Promise<void> {
+  const uri = await captureRef(view, { format: 'png', quality: 1, result: 'tmpfile' });
+  await share(uri, 'image/png', report, 'public.png');
+}
+
+// Shares a printable PDF of the report, laid out for paper rather than the phone screen
+export async function shareReportPdf(report: NutritionReport): Promise<void> {
+  const { uri } = await Print.printToFileAsync({ html: renderReportHtml(report) });
+  await share(uri, 'application/pdf', report, 'com.adobe.pdf');
+}
@@ -0,0 +1,130 @@
+import { CORE_NUTRIENT_KEYS, NUTRIENTS } from '@/services/nutrients';
+import { DayStatus, NutritionReport } from './aggregate';
+import { DAY_STATUS_DISPLAY, formatChange, formatStreak, MACRO_DISPLAY, MACRO_KEYS } from './display';
+import { formatDayTick, formatPeriodLabel } from './period';
+
+// The report as a standalone HTML page, printed to PDF for sharing with a dietitian.
+// Charts are plain blocks so the page needs no scripts or network access.
+
+const CHART_HEIGHT = 160;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function averagesTable(report: NutritionReport): string {
+  const { averages, previousAverages, goals } = report;
+  if (!averages) {
+    return '<p class="muted">No meals logged in this period.</p>';
+  }
+  const rows = CORE_NUTRIENT_KEYS.map(key => {
+    const { label, unit } = NUTRIENTS[key];
+    const change = formatChange(averages[key], previousAverages?.[key]);
+    return `<tr><td>${label}</td><td>${averages[key]} ${unit}</td><td>${goals[key]} ${unit}</td><td>${change ?? '–'}</td></tr>`;
+  }).join('');
+  return `<table><tr><th></th><th>Daily average</th><th>Goal</th><th>vs. previous</th></tr>${rows}</table>`;
+}
+
+function calorieChart(report: NutritionReport): string {
+  const { days, goals } = report;
+  const max = Math.max(goals.calories, ...days.map(day => day.nutrients.calories)) || 1;
+  const goalBottom = Math.round((goals.calories / max) * CHART_HEIGHT);
+  const bars = days
+    .map(day => {
+      const height = Math.round((day.nutrients.calories / max) * CHART_HEIGHT);
+      const color = DAY_STATUS_DISPLAY[day.status].color;
+      return (
+        `<div class="bar-column"><div class="bar" style="height:${height}px;background:${color}"></div>` +
+        `<div class="tick">${formatDayTick(day.day, report.period.kind)}</div></div>`
+      );
+    })
+    .join('');
+  return (
+    `<div class="chart" style="height:${CHART_HEIGHT}px">` +
+    `<div class="goal-line" style="bottom:${goalBottom}px"></div>${bars}</div>`
+  );
+}
+
+function statusSummary(report: NutritionReport): string {
+  const statuses: DayStatus[] = ['onTarget', 'under', 'over', 'notLogged'];
+  return statuses
+    .map(status => {
+      const { label, color } = DAY_STATUS_DISPLAY[status];
+      return `<span class="legend"><span class="swatch" style="background:${color}"></span>${label}: ${report.statusCounts[status]}</span>`;
+    })
+    .join('');
+}
+
+function macroTable(report: NutritionReport): string {
+  const rows = MACRO_KEYS.map(key => {
+    const { label, color } = MACRO_DISPLAY[key];
+    const actual = report.macroSplit ? `${report.macroSplit[key]}%` : '–';
+    return `<tr><td><span class="swatch" style="background:${color}"></span>${label}</td><td>${actual}</td><td>${report.goalMacroSplit[key]}%</td></tr>`;
+  }).join('');
+  return `<table><tr><th></th><th>Eaten</th><th>Goal</th></tr>${rows}</table>`;
+}
+
+function foodsTable(report: NutritionReport): string {
+  if (report.frequentFoods.length === 0) {
+    return '<p class="muted">No foods yet.</p>';
+  }
+  const rows = report.frequentFoods
+    .map(food => `<tr><td>${escapeHtml(food.name)}</td><td>${food.count}×</td><td>${food.averageCalories} kcal</td></tr>`)
+    .join('');
+  return `<table><tr><th>Food</th><th>Times</th><th>Avg. per time</th></tr>${rows}</table>`;
+}
+
+export function renderReportHtml(report: NutritionReport): string {
+  const title = `${report.period.kind === 'week' ? 'Weekly' : 'Monthly'} nutrition report`;
+  const { streaks } = report;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${title}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .muted { color: #666; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; }
+  th { color: #666; font-weight: 500; }
+  .chart { position: relative; display: flex; align-items: flex-end; gap: 2px; margin-bottom: 24px; border-bottom: 1px solid #ccc; }
+  .bar-column { flex: 1; display: flex; flex-direction: column; align-items: stretch; justify-content: flex-end; height: 100%; position: relative; }
+  .bar { border-radius: 2px 2px 0 0; }
+  .tick { position: absolute; bottom: -18px; width: 100%; text-align: center; font-size: 9px; color: #666; }
+  .goal-line { position: absolute; left: 0; right: 0; border-top: 1px dashed #4A90E2; }
+  .legend { display: inline-block; margin-right: 16px; font-size: 13px; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; }
+</style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p class="muted">${formatPeriodLabel(report.period)} · ${report.loggedDays} of ${report.days.length} days logged</p>
+
+  <h2>Averages</h2>
+  ${averagesTable(report)}
+
+  <h2>Calories per day</h2>
+  ${calorieChart(report)}
+  <p>${statusSummary(report)}</p>
+
+  <h2>Streaks</h2>
+  <p>Logging: ${formatStreak(streaks.logging)} · On target: ${formatStreak(streaks.onTarget)} · Longest on target this period: ${formatStreak(streaks.longestOnTarget)}</p>
+
+  <h2>Macro split (share of calories)</h2>
+  ${macroTable(report)}
+
+  <h2>Most frequent foods</h2>
+  ${foodsTable(report)}
+</body>
+</html>`;
+}
@@ -0,0 +1,108 @@
+// Calendar days in the user's time zone. A "day" is a YYYY-MM-DD key, so meals logged at
+// 23:30 in Paris count for that evening even though it is already the next day in UTC.
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// The wall clock time of an instant in a time zone
+function zonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+}
+
+// How far the time zone is ahead of UTC at that instant, DST included
+function offsetMs(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function dayKey(date: Date | string, timeZone: string): string {
+  const { year, month, day } = zonedParts(new Date(date), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// 0–23 on the wall clock in the time zone
+export function hourOf(date: Date | string, timeZone: string): number {
+  return zonedParts(new Date(date), timeZone).hour;
+}
+
+export function todayKey(timeZone: string): string {
+  return dayKey(new Date(), timeZone);
+}
+
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, date + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+// The instant a wall clock time on a day happens in the time zone
+export function zonedTime(day: string, hour: number, minute: number, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const wallClockUtc = Date.UTC(year, month - 1, date, hour, minute);
+  const guess = wallClockUtc - offsetMs(new Date(wallClockUtc), timeZone);
+  // The offset at that time differs from the one at the same time in UTC when DST changes in between
+  const offsetAtGuess = offsetMs(new Date(guess), timeZone);
+  return new Date(wallClockUtc - offsetAtGuess);
+}
+
+// The instant the day starts in the time zone
+export function startOfDay(day: string, timeZone: string): Date {
+  return zonedTime(day, 0, 0, timeZone);
+}
+
+// HH:MM on the wall clock in the time zone
+export function timeOfDay(date: Date | string, timeZone: string): string {
+  const { hour, minute } = zonedParts(new Date(date), timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+// ISO bounds for MealRepository.list: from is inclusive, to is exclusive
+export function dayBounds(day: string, timeZone: string): { from: string; to: string } {
+  return {
+    from: startOfDay(day, timeZone).toISOString(),
+    to: startOfDay(addDays(day, 1), timeZone).toISOString(),
+  };
+}
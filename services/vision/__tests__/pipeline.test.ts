@@ -0,0 +1,90 @@
+import { AnalysisValidationError } from '../errors';
+import { FOOD_ANALYSIS_FIXTURES } from '../fixtures';
+import { runVisionPipeline } from '../pipeline';
+import { createStubProvider } from '../stubProvider';
+import { VisionProvider, VisionRequest } from '../types';
+
+const PHOTO = { imageDataUrl: 'data:image/jpeg;base64,AAAA' };
+
+// Answers with each response in turn and keeps the requests it was sent
+function scriptedProvider(responses: string[]): VisionProvider & { requests: VisionRequest[] } {
+  const requests: VisionRequest[] = [];
+  return {
+    name: 'scripted',
+    model: 'scripted-model',
+    requests,
+    async analyze(request) {
+      requests.push(request);
+      return { content: responses[Math.min(requests.length, responses.length) - 1], model: 'scripted-model' };
+    },
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('runVisionPipeline with the stub provider', () => {
+  it('analyzes a photo end to end', async () => {
+    const result = await runVisionPipeline(createStubProvider('chicken-rice-salad'), 'photo', PHOTO);
+
+    expect(result.name).toBe('Chicken, Rice and Salad');
+    expect(result.source).toBe('photo');
+    expect(result.confidence).toBe('high');
+    expect(result.items.map(item => item.name)).toEqual([
+      'Grilled chicken breast',
+      'Steamed white rice',
+      'Side salad with vinaigrette',
+    ]);
+    // Totals come from the items: 248 + 234 + 158 kcal, 5 + 0.4 + 14 g fat
+    expect(result.nutrients).toMatchObject({ calories: 640, protein: 52, carbs: 66, fat: 19.4 });
+    expect(result.ranges.calories.low).toBeLessThan(640);
+    expect(result.ranges.calories.high).toBeGreaterThan(640);
+  });
+
+  it('reads a nutrition label with its serving', async () => {
+    const result = await runVisionPipeline(createStubProvider('granola-bar'), 'label', PHOTO);
+
+    expect(result.source).toBe('label');
+    expect(result.serving).toEqual({ size: '2 bars (42 g)', grams: 42, servingsPerContainer: 6 });
+    expect(result.nutrients.calories).toBe(190);
+  });
+
+  it('gives the same answer for the same input', async () => {
+    const provider = createStubProvider();
+    const first = await runVisionPipeline(provider, 'text', { text: 'a bowl of oatmeal' });
+    const second = await runVisionPipeline(provider, 'text', { text: 'a bowl of oatmeal' });
+
+    expect(second).toEqual(first);
+    expect(Object.values(FOOD_ANALYSIS_FIXTURES).map(fixture => fixture.name)).toContain(first.name);
+  });
+
+  it('rejects unknown fixture names', () => {
+    expect(() => createStubProvider('no-such-fixture')).toThrow('Unknown stub fixture "no-such-fixture"');
+  });
+});
+
+describe('runVisionPipeline repairs', () => {
+  const valid = JSON.stringify(FOOD_ANALYSIS_FIXTURES['chicken-rice-salad']);
+
+  it('re-asks with the errors after an invalid answer', async () => {
+    const provider = scriptedProvider(['not json', valid]);
+    const result = await runVisionPipeline(provider, 'photo', PHOTO);
+
+    expect(result.nutrients.calories).toBe(640);
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].repair?.previousContent).toBe('not json');
+    expect(provider.requests[1].repair?.errors).toEqual([expect.stringMatching(/^\$: response is not valid JSON/)]);
+  });
+
+  it('gives up after two repair attempts', async () => {
+    const provider = scriptedProvider(['{}']);
+
+    await expect(runVisionPipeline(provider, 'photo', PHOTO)).rejects.toBeInstanceOf(AnalysisValidationError);
+    expect(provider.requests).toHaveLength(3);
+  });
+});
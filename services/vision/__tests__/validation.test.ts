@@ -0,0 +1,144 @@
+import { FOOD_ANALYSIS_FIXTURES, NUTRITION_LABEL_FIXTURES } from '../fixtures';
+import { hasBlockingIssues, parseAndValidate, validateAnalysis, validateLabel } from '../validation';
+
+function analysisWith(item: object, extra: object = {}) {
+  return { name: 'Test meal', description: 'A test meal.', confidence: 'high', items: [item], ...extra };
+}
+
+function itemWith(nutrients: object, extra: object = {}) {
+  return { name: 'Food', portion: '1 serving', grams: 100, nutrients, ...extra };
+}
+
+function paths(issues: { path: string }[]): string[] {
+  return issues.map(issue => issue.path);
+}
+
+describe('validateAnalysis', () => {
+  it('accepts the stub fixtures', () => {
+    for (const fixture of Object.values(FOOD_ANALYSIS_FIXTURES)) {
+      const { payload, issues } = validateAnalysis(fixture);
+      expect(hasBlockingIssues(issues)).toBe(false);
+      expect(payload?.items).toHaveLength(fixture.items.length);
+    }
+  });
+
+  it('requires the core nutrients', () => {
+    const { payload, issues } = validateAnalysis(analysisWith(itemWith({ calories: 200, carbs: 20, fat: 10 })));
+    expect(payload).toBeNull();
+    expect(issues).toContainEqual({ severity: 'error', path: 'items[0].nutrients.protein', message: 'is required' });
+  });
+
+  it('rejects negative amounts and drops unknown nutrients with a warning', () => {
+    const negative = validateAnalysis(analysisWith(itemWith({ calories: 200, protein: -1, carbs: 20, fat: 10 })));
+    expect(negative.payload).toBeNull();
+    expect(paths(negative.issues)).toContain('items[0].nutrients.protein');
+
+    const unknown = validateAnalysis(analysisWith(itemWith({ calories: 170, protein: 10, carbs: 20, fat: 5, taurine: 3 })));
+    expect(unknown.payload?.items[0].nutrients).not.toHaveProperty('taurine');
+    expect(unknown.issues).toEqual([expect.objectContaining({ severity: 'warning', path: 'items[0].nutrients.taurine' })]);
+  });
+
+  it('rejects parts larger than the whole', () => {
+    const { payload, issues } = validateAnalysis(analysisWith(itemWith({ calories: 170, protein: 10, carbs: 20, fat: 5, sugar: 25 })));
+    expect(payload).toBeNull();
+    expect(paths(issues)).toEqual(['items[0].nutrients.sugar']);
+  });
+
+  it('rejects calories far from the macros and warns about moderate gaps', () => {
+    // The macros add up to 170 kcal
+    const farOff = validateAnalysis(analysisWith(itemWith({ calories: 500, protein: 10, carbs: 20, fat: 5 })));
+    expect(farOff.payload).toBeNull();
+    expect(farOff.issues).toEqual([expect.objectContaining({ severity: 'error', path: 'items[0].nutrients.calories' })]);
+
+    // 400 kcal against 272 from the macros is 32% off
+    const moderate = validateAnalysis(analysisWith(itemWith({ calories: 400, protein: 20, carbs: 30, fat: 8 })));
+    expect(moderate.payload).not.toBeNull();
+    expect(moderate.issues).toEqual([expect.objectContaining({ severity: 'warning', path: 'items[0].nutrients.calories' })]);
+
+    // Small gaps are rounding
+    expect(validateAnalysis(analysisWith(itemWith({ calories: 200, protein: 10, carbs: 20, fat: 5 }))).issues).toEqual([]);
+  });
+
+  it('accepts zero calorie items but not a meal that adds up to 0 kcal', () => {
+    const water = itemWith({ calories: 0, protein: 0, carbs: 0, fat: 0 }, { name: 'Water' });
+    const toast = itemWith({ calories: 170, protein: 10, carbs: 20, fat: 5 }, { name: 'Toast' });
+
+    const meal = validateAnalysis({ ...analysisWith(toast), items: [toast, water] });
+    expect(meal.issues).toEqual([]);
+    expect(meal.payload?.items.map(item => item.name)).toEqual(['Toast', 'Water']);
+
+    const { payload, issues } = validateAnalysis(analysisWith(water));
+    expect(payload).toBeNull();
+    expect(issues).toEqual([{ severity: 'error', path: 'items', message: 'must add up to more than 0 kcal' }]);
+  });
+
+  it('fills in missing ranges from the confidence level', () => {
+    const nutrients = { calories: 200, protein: 10, carbs: 25, fat: 6.7 };
+    const high = validateAnalysis(analysisWith(itemWith(nutrients)));
+    expect(high.payload?.items[0].ranges.calories).toEqual({ low: 180, high: 220 });
+
+    // Without a confidence level the estimate is treated as low confidence
+    const { payload, issues } = validateAnalysis(analysisWith(itemWith(nutrients), { confidence: undefined }));
+    expect(payload?.confidence).toBe('low');
+    expect(payload?.items[0].ranges.calories).toEqual({ low: 130, high: 270 });
+    expect(issues).toEqual([expect.objectContaining({ severity: 'warning', path: 'confidence' })]);
+  });
+
+  it('rejects ranges that do not contain the value', () => {
+    const nutrients = { calories: 200, protein: 10, carbs: 25, fat: 6.7 };
+    const { payload, issues } = validateAnalysis(
+      analysisWith(itemWith(nutrients, { ranges: { calories: [210, 250], protein: [8, 12, 14] } }))
+    );
+    expect(payload).toBeNull();
+    expect(paths(issues)).toEqual(['items[0].ranges.calories', 'items[0].ranges.protein']);
+  });
+
+  it('requires a name, a description and at least one item', () => {
+    const { payload, issues } = validateAnalysis({ name: ' ', items: [] });
+    expect(payload).toBeNull();
+    expect(paths(issues)).toEqual(['name', 'description', 'confidence', 'items']);
+  });
+});
+
+describe('validateLabel', () => {
+  it('reads a label as a single high confidence serving', () => {
+    const { payload, issues } = validateLabel(NUTRITION_LABEL_FIXTURES['granola-bar']);
+    expect(hasBlockingIssues(issues)).toBe(false);
+    expect(payload?.confidence).toBe('high');
+    expect(payload?.serving).toEqual({ size: '2 bars (42 g)', grams: 42, servingsPerContainer: 6 });
+    expect(payload?.items).toHaveLength(1);
+    expect(payload?.items[0].ranges.calories).toEqual({ low: 190, high: 190 });
+  });
+
+  it('describes the serving when the label has no description', () => {
+    const { description, ...label } = NUTRITION_LABEL_FIXTURES['greek-yogurt'];
+    expect(validateLabel(label).payload?.description).toBe('Nutrition facts per serving (3/4 cup (170 g))');
+  });
+
+  it('only warns when printed calories do not match the macros', () => {
+    const label = { ...NUTRITION_LABEL_FIXTURES['greek-yogurt'], nutrients: { calories: 200, protein: 18, carbs: 5, fat: 0 } };
+    const { payload, issues } = validateLabel(label);
+    expect(payload).not.toBeNull();
+    expect(issues).toEqual([expect.objectContaining({ severity: 'warning', path: 'nutrients.calories' })]);
+  });
+
+  it('requires a serving size', () => {
+    const { payload, issues } = validateLabel({ ...NUTRITION_LABEL_FIXTURES['greek-yogurt'], serving: { grams: -1 } });
+    expect(payload).toBeNull();
+    expect(paths(issues)).toEqual(['serving.size', 'serving.grams']);
+  });
+});
+
+describe('parseAndValidate', () => {
+  it('reports text that is not JSON', () => {
+    const { payload, issues } = parseAndValidate('Here is your analysis: {', validateAnalysis);
+    expect(payload).toBeNull();
+    expect(issues).toEqual([expect.objectContaining({ severity: 'error', path: '$' })]);
+  });
+
+  it('rejects JSON that is not an object', () => {
+    expect(parseAndValidate('[]', validateAnalysis).issues).toEqual([
+      { severity: 'error', path: '$', message: 'response must be a JSON object' },
+    ]);
+  });
+});
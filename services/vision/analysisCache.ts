@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { FoodAnalysisResult } from '@/services/aiVisionService';
+import { VisionTask } from './types';
+
+const CACHE_STORAGE_KEY = 'analysisCache:v1';
+// Enough for a few days of meals while keeping AsyncStorage small
+const MAX_CACHE_ENTRIES = 50;
+
+interface CacheEntry {
+  key: string;
+  result: FoodAnalysisResult;
+  storedAt: string;
+}
+
+// Hash of the processed image bytes or meal description; identical inputs share one cache entry
+export async function hashAnalysisInput(input: string): Promise<string> {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, input);
+}
+
+// Results are only reusable for the same input, task, prompt and model
+export function buildCacheKey(inputHash: string, task: VisionTask, promptVersion: string, model: string): string {
+  return `${inputHash}:${task}:${promptVersion}:${model}`;
+}
+
+async function readEntries(): Promise<CacheEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading analysis cache:', error);
+    return [];
+  }
+}
+
+async function writeEntries(entries: CacheEntry[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error writing analysis cache:', error);
+  }
+}
+
+export async function getCachedAnalysis(key: string): Promise<FoodAnalysisResult | null> {
+  const entries = await readEntries();
+  const entry = entries.find(item => item.key === key);
+  if (!entry) {
+    return null;
+  }
+
+  // Move the hit to the front so the least recently used entries are evicted first
+  await writeEntries([entry, ...entries.filter(item => item.key !== key)]);
+  return entry.result;
+}
+
+export async function setCachedAnalysis(key: string, result: FoodAnalysisResult): Promise<void> {
+  const entries = await readEntries();
+  const updated = [
+    { key, result, storedAt: new Date().toISOString() },
+    ...entries.filter(item => item.key !== key),
+  ].slice(0, MAX_CACHE_ENTRIES);
+  await writeEntries(updated);
+}
+
+export async function clearAnalysisCache(): Promise<void> {
+  await AsyncStorage.removeItem(CACHE_STORAGE_KEY);
+}
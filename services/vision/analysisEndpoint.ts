@@ -0,0 +1,119 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnalysisAuthError,
+  AnalysisNetworkError,
+  AnalysisQuotaError,
+  AnalysisRateLimitError,
+  AnalysisValidationError,
+} from './errors';
+import { errorForStatus, fetchWithRetry, readJson, RequestOptions } from './http';
+import { FoodAnalysisResult } from './result';
+import { AnalysisVersion, FoodAnalyzer, VisionRequest, VisionTask } from './types';
+import { UsageSummary } from './usage';
+
+const VERSION_STORAGE_KEY = 'analysisEndpoint:version';
+// Until the backend has answered once, no cached analysis can be matched to it
+const UNKNOWN_VERSION: AnalysisVersion = { model: 'backend', promptVersion: 'unknown' };
+
+function isAnalysisVersion(value: any): value is AnalysisVersion {
+  return typeof value?.model === 'string' && typeof value?.promptVersion === 'string';
+}
+
+export interface AnalysisEndpointOptions {
+  url: string; // e.g. https://<project>.supabase.co/functions/v1/analyze-food
+  anonKey?: string; // Required by the Supabase functions gateway, not a secret
+  getAccessToken: () => Promise<string | null>; // The signed in user's Supabase JWT
+  // Defaults for every call; a call's own options take precedence
+  requestDefaults?: Omit<RequestOptions, 'signal'>;
+}
+
+// Calls our analysis backend, which holds the OpenAI key and runs the prompt and
+// validation pipeline server-side, so no model credentials ship in the app
+export function createAnalysisEndpoint({
+  url,
+  anonKey,
+  getAccessToken,
+  requestDefaults = {},
+}: AnalysisEndpointOptions): FoodAnalyzer {
+  // The model and prompt the backend last answered with, kept across launches
+  let version: AnalysisVersion | null = null;
+
+  const rememberVersion = async (reported: unknown): Promise<void> => {
+    if (!isAnalysisVersion(reported)) return;
+    version = { model: reported.model, promptVersion: reported.promptVersion };
+    await AsyncStorage.setItem(VERSION_STORAGE_KEY, JSON.stringify(version)).catch(error =>
+      console.error('Error saving analysis version:', error)
+    );
+  };
+
+  const request = async (init: RequestInit, options: RequestOptions = {}): Promise<any> => {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      throw new AnalysisAuthError('You need to be signed in to analyze food');
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+    };
+    if (anonKey) {
+      headers.apikey = anonKey;
+    }
+
+    // A 429 from the backend means the user's quota is used up, which no retry will fix;
+    // the model provider rate limiting the backend comes back as a 503 instead
+    const res = await fetchWithRetry(url, { ...init, headers }, { ...requestDefaults, ...options }, status => status >= 500);
+    if (res.ok) {
+      return readJson(res);
+    }
+    const data = await res.json().catch(() => ({}));
+
+    // The quota is enforced by the backend before the model is called
+    if (res.status === 429 && data.error === 'quota_exceeded') {
+      throw new AnalysisQuotaError(data.period, data.usage);
+    }
+    // The backend ran out of repair attempts; surface it like a local validation failure
+    if (res.status === 422 && Array.isArray(data.issues)) {
+      throw new AnalysisValidationError(data.issues);
+    }
+    if (res.status === 503 && data.error === 'rate_limited') {
+      throw new AnalysisRateLimitError(data.retryAfterMs);
+    }
+    if (res.status === 504) {
+      throw new AnalysisNetworkError('The analysis provider timed out', true);
+    }
+    console.error('Analysis backend error:', data);
+    throw errorForStatus(res, `Analysis backend error ${res.status}: ${data.error || 'Unknown error'}`);
+  };
+
+  return {
+    name: 'backend',
+    model: 'backend',
+    async analyze(
+      task: VisionTask,
+      input: Pick<VisionRequest, 'imageDataUrl' | 'text'>,
+      options?: RequestOptions
+    ): Promise<FoodAnalysisResult> {
+      const data = await request({ method: 'POST', body: JSON.stringify({ task, ...input }) }, options);
+      await rememberVersion(data.version);
+      return data.result as FoodAnalysisResult;
+    },
+    async getVersion(): Promise<AnalysisVersion> {
+      if (!version) {
+        try {
+          const stored = await AsyncStorage.getItem(VERSION_STORAGE_KEY);
+          const parsed = stored ? JSON.parse(stored) : null;
+          if (isAnalysisVersion(parsed)) version = parsed;
+        } catch (error) {
+          console.error('Error reading analysis version:', error);
+        }
+      }
+      return version ?? UNKNOWN_VERSION;
+    },
+    async getUsage(options?: RequestOptions): Promise<UsageSummary> {
+      const data = await request({ method: 'GET' }, options);
+      await rememberVersion(data.version);
+      return data.usage as UsageSummary;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { UsagePeriod, UsageSummary } from './usage';
+import { AnalysisIssue, formatIssues } from './validation';
+
+// Thrown when the model keeps returning data that fails schema validation,
+// so callers never end up saving a made-up "0 kcal" meal.
+export class AnalysisValidationError extends Error {
+  issues: AnalysisIssue[];
+
+  constructor(issues: AnalysisIssue[]) {
+    super(`The analysis response failed validation:\n${formatIssues(issues)}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+// Thrown before calling the model when the user has used up their daily or monthly analyses
+export class AnalysisQuotaError extends Error {
+  period: UsagePeriod;
+  usage: UsageSummary;
+
+  constructor(period: UsagePeriod, usage: UsageSummary) {
+    super(`The ${period === 'day' ? 'daily' : 'monthly'} analysis quota has been reached`);
+    this.name = 'AnalysisQuotaError';
+    this.period = period;
+    this.usage = usage;
+  }
+}
+
+// The request never got a response: offline, DNS failure, connection reset or a timeout
+export class AnalysisNetworkError extends Error {
+  timedOut: boolean;
+
+  constructor(message: string, timedOut: boolean = false) {
+    super(message);
+    this.name = 'AnalysisNetworkError';
+    this.timedOut = timedOut;
+  }
+}
+
+// The service kept answering 429 after every retry
+export class AnalysisRateLimitError extends Error {
+  retryAfterMs?: number; // From the Retry-After header, when the service sent one
+
+  constructor(retryAfterMs?: number) {
+    super('The analysis service is rate limiting requests');
+    this.name = 'AnalysisRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Missing, expired or rejected credentials (401/403)
+export class AnalysisAuthError extends Error {
+  constructor(message: string = 'Not authorized to analyze food') {
+    super(message);
+    this.name = 'AnalysisAuthError';
+  }
+}
+
+// The service answered, but not with something we can use: a 5xx after every retry,
+// an unexpected status or a body that is not the expected JSON
+export class AnalysisResponseError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AnalysisResponseError';
+    this.status = status;
+  }
+}
+
+// The caller cancelled the request, e.g. the user left the results screen
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
@@ -0,0 +1,107 @@
+import { ModelAnalysisResponse, ModelLabelResponse } from './validation';
+
+// Canned analyses returned by the stub provider so the camera → results → save
+// flow can run without network access or an API key.
+export const FOOD_ANALYSIS_FIXTURES: Record<string, ModelAnalysisResponse> = {
+  'chicken-rice-salad': {
+    name: 'Chicken, Rice and Salad',
+    description: 'Grilled chicken breast with steamed white rice and a side salad with vinaigrette.',
+    confidence: 'high',
+    items: [
+      {
+        name: 'Grilled chicken breast',
+        portion: '1 breast',
+        grams: 150,
+        nutrients: {
+          calories: 248, protein: 46, carbs: 0, fat: 5, fiber: 0, sugar: 0, saturatedFat: 1.5,
+          sodium: 110, cholesterol: 125, potassium: 385, iron: 1.6,
+        },
+      },
+      {
+        name: 'Steamed white rice',
+        portion: '1 cup',
+        grams: 180,
+        nutrients: {
+          calories: 234, protein: 4, carbs: 52, fat: 0.4, fiber: 0.7, sugar: 0.1, saturatedFat: 0.1,
+          sodium: 2, cholesterol: 0, potassium: 63, iron: 0.3,
+        },
+      },
+      {
+        name: 'Side salad with vinaigrette',
+        portion: '1 bowl',
+        grams: 120,
+        nutrients: {
+          calories: 158, protein: 2, carbs: 14, fat: 14, fiber: 2.5, sugar: 6, saturatedFat: 2,
+          sodium: 290, cholesterol: 0, potassium: 250, iron: 0.8, vitaminA: 250, vitaminC: 12,
+        },
+      },
+    ],
+  },
+  'oatmeal-berries': {
+    name: 'Oatmeal with Berries',
+    description: 'Rolled oats cooked with milk, topped with mixed berries and honey.',
+    confidence: 'medium',
+    items: [
+      {
+        name: 'Oatmeal cooked with milk',
+        portion: '1 bowl',
+        grams: 250,
+        nutrients: { calories: 280, protein: 12, carbs: 42, fat: 8, fiber: 4, sugar: 12, saturatedFat: 3, sodium: 110, calcium: 290 },
+      },
+      {
+        name: 'Mixed berries',
+        portion: '1/2 cup',
+        grams: 75,
+        nutrients: { calories: 45, protein: 1, carbs: 10, fat: 0, fiber: 3, sugar: 6, saturatedFat: 0, sodium: 1, vitaminC: 20 },
+      },
+      {
+        name: 'Honey',
+        portion: '1 tbsp',
+        grams: 21,
+        nutrients: { calories: 65, protein: 0, carbs: 16, fat: 0, fiber: 0, sugar: 16, saturatedFat: 0, sodium: 1 },
+      },
+    ],
+  },
+  'pepperoni-pizza': {
+    name: 'Pepperoni Pizza',
+    description: 'Two slices of pepperoni pizza on a regular crust.',
+    confidence: 'low',
+    items: [
+      {
+        name: 'Pepperoni pizza slice',
+        portion: '2 slices',
+        grams: 214,
+        nutrients: { calories: 600, protein: 26, carbs: 66, fat: 26, fiber: 4, sugar: 7, saturatedFat: 11, sodium: 1360, cholesterol: 50 },
+        ranges: {
+          calories: [480, 760],
+          protein: [20, 32],
+          carbs: [52, 82],
+          fat: [18, 36],
+          sodium: [1000, 1800],
+        },
+      },
+    ],
+  },
+};
+
+// Canned nutrition facts labels returned by the stub provider in label mode
+export const NUTRITION_LABEL_FIXTURES: Record<string, ModelLabelResponse> = {
+  'granola-bar': {
+    name: 'Oats & Honey Granola Bar',
+    description: 'Crunchy granola bar made with whole grain oats and honey.',
+    serving: { size: '2 bars (42 g)', grams: 42, servingsPerContainer: 6 },
+    nutrients: {
+      calories: 190, protein: 3, carbs: 29, fat: 7, fiber: 2, sugar: 11, saturatedFat: 1,
+      sodium: 180, cholesterol: 0, potassium: 115, calcium: 10, iron: 1.1,
+    },
+  },
+  'greek-yogurt': {
+    name: 'Plain Greek Yogurt',
+    description: 'Nonfat plain Greek yogurt.',
+    serving: { size: '3/4 cup (170 g)', grams: 170, servingsPerContainer: 4 },
+    nutrients: {
+      calories: 90, protein: 18, carbs: 5, fat: 0, fiber: 0, sugar: 4, saturatedFat: 0,
+      sodium: 65, cholesterol: 10, potassium: 240, calcium: 200, vitaminD: 0,
+    },
+  },
+};
@@ -0,0 +1,142 @@
+import {
+  AnalysisAuthError,
+  AnalysisNetworkError,
+  AnalysisRateLimitError,
+  AnalysisResponseError,
+  isAbortError,
+} from './errors';
+
+// Per-call controls shared by every request the vision services make
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request and any pending retry
+  timeoutMs?: number; // Per attempt
+  maxRetries?: number; // Extra attempts after a 429, 5xx or network failure
+}
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+export const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+function abortError(): Error {
+  const error = new Error('The request was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Exponential backoff with full jitter so many clients don't retry in lockstep
+export function retryDelayMs(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return Math.round(Math.random() * ceiling);
+}
+
+function parseRetryAfter(res: Response): number | undefined {
+  const header = res.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// One attempt, aborted by either the caller's signal or the timeout
+async function fetchOnce(url: string, init: RequestInit, signal: AbortSignal | undefined, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error: any) {
+    if (signal?.aborted) throw abortError();
+    if (timedOut) throw new AnalysisNetworkError(`The request timed out after ${timeoutMs / 1000}s`, true);
+    throw new AnalysisNetworkError(error?.message || 'Network request failed');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// fetch with a timeout per attempt and retries on 429, 5xx and network failures.
+// Other statuses are returned for the caller to interpret.
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RequestOptions = {},
+  isRetryable: (status: number) => boolean = isRetryableStatus
+): Promise<Response> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+    const isLastAttempt = attempt >= maxRetries;
+
+    let res: Response;
+    try {
+      res = await fetchOnce(url, init, signal, timeoutMs);
+    } catch (error) {
+      if (isAbortError(error) || isLastAttempt) throw error;
+      console.warn(`Request failed, retrying (attempt ${attempt + 1}):`, error);
+      await sleep(retryDelayMs(attempt), signal);
+      continue;
+    }
+
+    if (!isRetryable(res.status) || isLastAttempt) {
+      return res;
+    }
+
+    const retryAfterMs = parseRetryAfter(res);
+    console.warn(`Request got ${res.status}, retrying (attempt ${attempt + 1})`);
+    await sleep(retryDelayMs(attempt, retryAfterMs), signal);
+  }
+}
+
+// Turn an unsuccessful status into the matching typed error
+export function errorForStatus(res: Response, message?: string): Error {
+  if (res.status === 401 || res.status === 403) {
+    return new AnalysisAuthError(message);
+  }
+  if (res.status === 429) {
+    return new AnalysisRateLimitError(parseRetryAfter(res));
+  }
+  return new AnalysisResponseError(message || `Unexpected response ${res.status}`, res.status);
+}
+
+// Parse a JSON body, treating anything else as an invalid response
+export async function readJson(res: Response): Promise<any> {
+  try {
+    return await res.json();
+  } catch {
+    throw new AnalysisResponseError(`The response from ${res.url || 'the service'} was not valid JSON`, res.status);
+  }
+}
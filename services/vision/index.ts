@@ -0,0 +1,59 @@
+import { getAppConfig } from '@/services/config';
+import { supabase } from '@/src/services/supabase';
+import { createAnalysisEndpoint } from './analysisEndpoint';
+import { runVisionPipeline } from './pipeline';
+import { PROMPT_VERSION } from './prompts';
+import { createVisionProvider } from './providers';
+import { FoodAnalyzer, VisionConfig } from './types';
+
+export * from './types';
+export { createVisionProvider } from './providers';
+
+let cachedAnalyzer: FoodAnalyzer | null = null;
+
+async function getAccessToken(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+export function createFoodAnalyzer(config: VisionConfig): FoodAnalyzer {
+  switch (config.provider ?? 'backend') {
+    case 'backend':
+      if (!config.endpointUrl) {
+        throw new Error('The backend vision provider requires extra.vision.endpointUrl');
+      }
+      return createAnalysisEndpoint({
+        url: config.endpointUrl,
+        anonKey: getAppConfig().supabase.anonKey,
+        getAccessToken,
+        requestDefaults: { timeoutMs: config.timeoutMs, maxRetries: config.maxRetries },
+      });
+    case 'openai':
+      // Anything in the app bundle can be extracted, so the key stays on the backend
+      throw new Error('The openai provider only runs on the analysis backend; use "backend" in the app');
+    default: {
+      // Local models and fixtures run the pipeline on the device
+      const provider = createVisionProvider(config);
+      return {
+        name: provider.name,
+        model: provider.model,
+        analyze: (task, input, options) => runVisionPipeline(provider, task, input, options),
+        getVersion: async () => ({ model: provider.model, promptVersion: PROMPT_VERSION }),
+      };
+    }
+  }
+}
+
+// The analyzer is chosen once from the app configuration
+export function getFoodAnalyzer(): FoodAnalyzer {
+  if (!cachedAnalyzer) {
+    cachedAnalyzer = createFoodAnalyzer(getAppConfig().vision);
+    console.log(`Using ${cachedAnalyzer.name} food analyzer (${cachedAnalyzer.model})`);
+  }
+  return cachedAnalyzer;
+}
+
+// Allows tests and dev tooling to swap the analyzer at runtime
+export function setFoodAnalyzer(analyzer: FoodAnalyzer | null): void {
+  cachedAnalyzer = analyzer;
+}
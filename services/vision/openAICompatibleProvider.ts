@@ -0,0 +1,77 @@
+import { AnalysisResponseError } from './errors';
+import { errorForStatus, fetchWithRetry, readJson, RequestOptions } from './http';
+import { buildChatMessages } from './prompts';
+import { VisionProvider, VisionRequest, VisionResponse } from './types';
+
+export interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+  maxTokens?: number;
+  // Not every local server understands response_format, so it can be switched off
+  jsonMode?: boolean;
+  // Defaults for every call; a call's own options take precedence
+  requestDefaults?: Omit<RequestOptions, 'signal'>;
+}
+
+export function createOpenAICompatibleProvider({
+  name = 'openai-compatible',
+  baseUrl,
+  model,
+  apiKey,
+  maxTokens = 1000,
+  jsonMode = true,
+  requestDefaults = {},
+}: OpenAICompatibleOptions): VisionProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name,
+    model,
+    async analyze(request: VisionRequest, options: RequestOptions = {}): Promise<VisionResponse> {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const res = await fetchWithRetry(
+        url,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model,
+            max_tokens: maxTokens,
+            ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+            messages: buildChatMessages(request),
+          }),
+        },
+        { ...requestDefaults, ...options }
+      );
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        console.error(`${name} API error:`, errorData);
+        throw errorForStatus(res, `${name} error ${res.status}: ${errorData.error?.message || 'Unknown error'}`);
+      }
+
+      const data = await readJson(res);
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new AnalysisResponseError(`${name} returned no message content`, res.status);
+      }
+      return {
+        content,
+        model: data.model || model,
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.prompt_tokens ?? 0,
+              completionTokens: data.usage.completion_tokens ?? 0,
+              totalTokens: data.usage.total_tokens ?? 0,
+            }
+          : undefined,
+      };
+    },
+  };
+}
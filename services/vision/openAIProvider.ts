@@ -0,0 +1,24 @@
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { RequestOptions } from './http';
+import { VisionProvider } from './types';
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o"; // Latest model with vision capabilities
+
+export function createOpenAIProvider(
+  apiKey: string | undefined,
+  model: string = DEFAULT_OPENAI_MODEL,
+  requestDefaults?: Omit<RequestOptions, 'signal'>
+): VisionProvider {
+  if (!apiKey) {
+    console.warn('No OpenAI API key configured; requests to OpenAI will be rejected');
+  }
+
+  return createOpenAICompatibleProvider({
+    name: 'openai',
+    baseUrl: OPENAI_BASE_URL,
+    model,
+    apiKey,
+    requestDefaults,
+  });
+}
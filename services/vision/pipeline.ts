@@ -0,0 +1,65 @@
+import { AnalysisValidationError } from './errors';
+import { RequestOptions } from './http';
+import { FoodAnalysisResult, sumFoodItems } from './result';
+import { VisionProvider, VisionRequest, VisionTask } from './types';
+import {
+  formatIssues,
+  parseAndValidate,
+  validateAnalysis,
+  validateLabel,
+  ValidationOutcome,
+} from './validation';
+
+// How many times the model is re-asked after returning an invalid answer
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const VALIDATORS: Record<VisionTask, (raw: unknown) => ValidationOutcome> = {
+  photo: validateAnalysis,
+  label: validateLabel,
+  text: validateAnalysis,
+};
+
+// The photo or description being analyzed
+export type AnalysisInput = Pick<VisionRequest, 'imageDataUrl' | 'text'>;
+
+// Ask the provider, validate its answer and re-ask with the errors until it passes.
+// Runs in the app for direct providers and on the analysis backend for everyone else.
+export async function runVisionPipeline(
+  provider: VisionProvider,
+  task: VisionTask,
+  input: AnalysisInput,
+  options: RequestOptions = {}
+): Promise<FoodAnalysisResult> {
+  const validate = VALIDATORS[task];
+
+  let response = await provider.analyze({ task, ...input }, options);
+  let outcome = parseAndValidate(response.content, validate);
+
+  // Re-ask with the validation errors until the answer passes or we run out of attempts
+  for (let attempt = 1; !outcome.payload && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`Invalid ${task} analysis response (attempt ${attempt}):\n${formatIssues(outcome.issues)}`);
+    response = await provider.analyze({
+      task,
+      ...input,
+      repair: {
+        previousContent: response.content,
+        errors: outcome.issues
+          .filter(issue => issue.severity === 'error')
+          .map(issue => `${issue.path}: ${issue.message}`),
+      },
+    }, options);
+    outcome = parseAndValidate(response.content, validate);
+  }
+
+  if (!outcome.payload) {
+    throw new AnalysisValidationError(outcome.issues);
+  }
+
+  // The meal total is always computed from the items rather than trusted from the model
+  return {
+    ...outcome.payload,
+    ...sumFoodItems(outcome.payload.items),
+    issues: outcome.issues,
+    source: task,
+  };
+}
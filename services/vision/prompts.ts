@@ -0,0 +1,73 @@
+import { CORE_NUTRIENT_KEYS, NUTRIENT_KEYS, NUTRIENTS } from '@/services/nutrients';
+import { VisionRequest } from './types';
+
+// Bump whenever the prompts change so cached analyses from older prompts are not reused
+export const PROMPT_VERSION = '5';
+
+// e.g. "calories (kcal), protein (g), ..., sodium (mg)"
+const NUTRIENT_LIST = NUTRIENT_KEYS.map(key => `${key} (${NUTRIENTS[key].unit})`).join(', ');
+const CORE_NUTRIENT_LIST = CORE_NUTRIENT_KEYS.join(', ');
+
+export const FOOD_IMAGE_SYSTEM_PROMPT =
+  `You are a helpful nutritionist that analyzes food images. A plate often holds several foods, so identify EVERY distinct food item separately and estimate its portion and nutrition. ALWAYS respond in JSON format with the following structure EXACTLY: {"name": "Short meal name", "description": "Brief description with additional nutrition info", "confidence": "low" | "medium" | "high", "items": [{"name": "Food item name", "portion": "Estimated portion, e.g. 1 cup", "grams": number, "nutrients": {"<nutrient>": number}, "ranges": {"<nutrient>": [low, high]}}]}. Nutrient keys and units: ${NUTRIENT_LIST}. ${CORE_NUTRIENT_LIST} are required for every item; include the other nutrients whenever you can estimate them and leave them out otherwise. Photos only allow estimates, so set confidence to how sure you are overall and give a plausible low/high range around every nutrient value (low ≤ value ≤ high). All numbers must be non-negative, calories must be consistent with the macros (4 kcal per gram of protein and carbs, 9 kcal per gram of fat), parts cannot exceed their whole (sugar and fiber ≤ carbs, saturatedFat ≤ fat), and you must give your best estimate instead of 0 when unsure; use 0 only for foods that really have none, such as water or black coffee.`;
+
+export const FOOD_IMAGE_USER_PROMPT =
+  "What foods are in this image? Return a JSON object with a meal name, a brief description, your confidence, and an items array with each food's name, portion, weight (g), nutrients and a low/high range for each nutrient.";
+
+export const NUTRITION_LABEL_SYSTEM_PROMPT =
+  `You read nutrition facts labels from photos of packaged food. Transcribe the PER SERVING column of the facts table exactly as printed; do not estimate values that are not on the label. ALWAYS respond in JSON format with the following structure EXACTLY: {"name": "Product name if visible, otherwise a short description", "description": "Brief description of the product", "serving": {"size": "Serving size as printed, e.g. 2/3 cup (55 g)", "grams": number or null, "servingsPerContainer": number or null}, "nutrients": {"<nutrient>": number}}. Nutrient keys and units: ${NUTRIENT_LIST}. ${CORE_NUTRIENT_LIST} are required; include every other listed nutrient that the label shows and leave out the rest. Convert %DV-only entries to amounts when the label gives no amount. All numbers must be non-negative.`;
+
+export const NUTRITION_LABEL_USER_PROMPT =
+  "Read the nutrition facts label in this image. Return a JSON object with the product name, a brief description, the serving size and the per-serving nutrients.";
+
+export const MEAL_TEXT_SYSTEM_PROMPT =
+  `You are a helpful nutritionist that estimates meals from a written description, such as "two eggs and toast with butter". Identify EVERY food mentioned separately. Use the quantities the user gives; when none is given assume a typical single portion and say so in the portion. ALWAYS respond in JSON format with the following structure EXACTLY: {"name": "Short meal name", "description": "Brief description with additional nutrition info", "confidence": "low" | "medium" | "high", "items": [{"name": "Food item name", "portion": "Portion, e.g. 2 large eggs", "grams": number, "nutrients": {"<nutrient>": number}, "ranges": {"<nutrient>": [low, high]}}]}. Nutrient keys and units: ${NUTRIENT_LIST}. ${CORE_NUTRIENT_LIST} are required for every item; include the other nutrients whenever you can estimate them and leave them out otherwise. Set confidence to how specific the description is and give a plausible low/high range around every nutrient value (low ≤ value ≤ high). All numbers must be non-negative, calories must be consistent with the macros (4 kcal per gram of protein and carbs, 9 kcal per gram of fat), parts cannot exceed their whole (sugar and fiber ≤ carbs, saturatedFat ≤ fat), and you must give your best estimate instead of 0 when unsure; use 0 only for foods that really have none, such as water or black coffee.`;
+
+export const MEAL_TEXT_USER_PROMPT =
+  "Estimate the nutrition of this meal. Return a JSON object with a meal name, a brief description, your confidence, and an items array with each food's name, portion, weight (g), nutrients and a low/high range for each nutrient. Meal:";
+
+const PROMPTS = {
+  photo: { system: FOOD_IMAGE_SYSTEM_PROMPT, user: FOOD_IMAGE_USER_PROMPT },
+  label: { system: NUTRITION_LABEL_SYSTEM_PROMPT, user: NUTRITION_LABEL_USER_PROMPT },
+  text: { system: MEAL_TEXT_SYSTEM_PROMPT, user: MEAL_TEXT_USER_PROMPT },
+};
+
+// The user message carries either the photo or the meal description
+function buildUserContent(request: VisionRequest, prompt: string) {
+  if (request.task === 'text') {
+    return `${prompt}\n${request.text ?? ''}`;
+  }
+  return [
+    { type: "text", text: prompt },
+    { type: "image_url", image_url: { url: request.imageDataUrl } }
+  ];
+}
+
+// Build the chat messages sent to any OpenAI-style chat completions endpoint
+export function buildChatMessages(request: VisionRequest) {
+  const prompt = PROMPTS[request.task];
+  const messages: any[] = [
+    {
+      role: "system",
+      content: prompt.system
+    },
+    {
+      role: "user",
+      content: buildUserContent(request, prompt.user)
+    }
+  ];
+
+  // When re-asking, show the model its rejected answer and what was wrong with it
+  if (request.repair) {
+    messages.push(
+      { role: "assistant", content: request.repair.previousContent },
+      { role: "user", content: buildRepairPrompt(request.repair.errors) }
+    );
+  }
+
+  return messages;
+}
+
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous answer failed validation:\n- ${errors.join('\n- ')}\nReturn the corrected JSON object only, using exactly the structure described above.`;
+}
@@ -0,0 +1,29 @@
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from './openAIProvider';
+import { createStubProvider } from './stubProvider';
+import { VisionConfig, VisionProvider } from './types';
+
+// Model providers; free of app-only imports so the analysis backend can use them as well
+export function createVisionProvider(config: VisionConfig): VisionProvider {
+  switch (config.provider ?? 'openai') {
+    case 'stub':
+      return createStubProvider(config.stubFixture);
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('The openai-compatible vision provider requires a baseUrl');
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        model: config.model || DEFAULT_OPENAI_MODEL,
+        apiKey: config.apiKey,
+        requestDefaults: { timeoutMs: config.timeoutMs, maxRetries: config.maxRetries },
+      });
+    case 'openai':
+      return createOpenAIProvider(config.apiKey, config.model || DEFAULT_OPENAI_MODEL, {
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+      });
+    default:
+      throw new Error(`Unknown vision provider "${config.provider}"`);
+  }
+}
@@ -0,0 +1,46 @@
+import { NutrientMap, NutrientRanges, sumNutrientRanges, sumNutrients } from '@/services/nutrients';
+import { AnalysisIssue } from './validation';
+
+// The analysis result shared by the app and the analysis backend. This module and the
+// rest of the pipeline stay free of React Native imports so the server can run them too.
+
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+// Where the numbers came from: a photo of the food, its printed nutrition label,
+// a product database entry found by barcode or a typed/dictated description
+export type AnalysisSource = 'photo' | 'label' | 'barcode' | 'text';
+
+// Serving information printed on a nutrition label or stored in a product database
+export interface ServingInfo {
+  size: string; // As printed, e.g. "2/3 cup (55 g)"
+  grams?: number;
+  servingsPerContainer?: number;
+}
+
+export interface FoodItem {
+  name: string;
+  portion: string; // Human readable portion, e.g. "1 cup" or "150 g"
+  grams: number;
+  nutrients: NutrientMap;
+  ranges: NutrientRanges;
+}
+
+export interface FoodAnalysisResult {
+  name: string;
+  description: string;
+  nutrients: NutrientMap; // Meal total, always computed from the items
+  items: FoodItem[];
+  confidence: ConfidenceLevel; // How sure the model is about the whole estimate
+  ranges: NutrientRanges; // Uncertainty around the meal totals
+  issues: AnalysisIssue[]; // Non-blocking validation warnings
+  source: AnalysisSource;
+  serving?: ServingInfo; // Per-serving basis of a label or barcode analysis; nutrients are for 1 serving
+}
+
+// Add up the nutrients and ranges of every detected item to get the meal total
+export function sumFoodItems(items: FoodItem[]): Pick<FoodAnalysisResult, 'nutrients' | 'ranges'> {
+  return {
+    nutrients: sumNutrients(items.map(item => item.nutrients)),
+    ranges: sumNutrientRanges(items.map(item => item.ranges)),
+  };
+}
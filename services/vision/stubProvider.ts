@@ -0,0 +1,43 @@
+import { FOOD_ANALYSIS_FIXTURES, NUTRITION_LABEL_FIXTURES } from './fixtures';
+import { VisionProvider, VisionRequest, VisionResponse, VisionTask } from './types';
+
+export const STUB_MODEL = 'stub-fixtures';
+
+// Cheap deterministic string hash so the same input always maps to the same fixture
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+const FIXTURES_BY_TASK: Record<VisionTask, Record<string, object>> = {
+  photo: FOOD_ANALYSIS_FIXTURES,
+  label: NUTRITION_LABEL_FIXTURES,
+  text: FOOD_ANALYSIS_FIXTURES,
+};
+
+// fixtureName pins the answer for the task it belongs to; other tasks still pick by hash
+export function createStubProvider(fixtureName?: string): VisionProvider {
+  if (fixtureName && !Object.values(FIXTURES_BY_TASK).some(fixtures => fixtureName in fixtures)) {
+    const available = Object.values(FIXTURES_BY_TASK).flatMap(fixtures => Object.keys(fixtures));
+    throw new Error(`Unknown stub fixture "${fixtureName}". Available: ${available.join(', ')}`);
+  }
+
+  return {
+    name: 'stub',
+    model: STUB_MODEL,
+    async analyze(request: VisionRequest): Promise<VisionResponse> {
+      const fixtures = FIXTURES_BY_TASK[request.task];
+      const fixtureNames = Object.keys(fixtures);
+      const selected = fixtureName && fixtures[fixtureName]
+        ? fixtureName
+        : fixtureNames[hashString(request.imageDataUrl ?? request.text ?? '') % fixtureNames.length];
+      return {
+        content: JSON.stringify(fixtures[selected]),
+        model: STUB_MODEL,
+      };
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import type { FoodAnalysisResult } from './result';
+import type { RequestOptions } from './http';
+import type { UsageSummary } from './usage';
+
+// Shared contract for every backend that can turn a food photo or description into nutrition data.
+// Providers return the raw JSON text produced by the model; parsing it into a
+// FoodAnalysisResult is handled in one place by the vision pipeline.
+
+export interface VisionRepairContext {
+  previousContent: string; // The rejected model answer
+  errors: string[]; // Validation errors the model should fix
+}
+
+// "photo" estimates a plate of food, "label" reads a printed nutrition facts table,
+// "text" estimates a meal from a written or dictated description
+export type VisionTask = 'photo' | 'label' | 'text';
+
+export interface VisionRequest {
+  task: VisionTask;
+  imageDataUrl?: string; // data:image/...;base64,... string, for the photo and label tasks
+  text?: string; // Meal description, for the text task
+  repair?: VisionRepairContext; // Set when re-asking after an invalid answer
+}
+
+export interface VisionResponse {
+  content: string; // Raw JSON text returned by the model
+  model: string;
+  // Token counts reported by the provider, when it reports them
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+}
+
+export interface VisionProvider {
+  name: string;
+  model: string;
+  analyze(request: VisionRequest, options?: RequestOptions): Promise<VisionResponse>;
+}
+
+// What produced an analysis; cached results are only reused for the same model and prompt
+export interface AnalysisVersion {
+  model: string;
+  promptVersion: string;
+}
+
+// What the app calls to analyze food: either our analysis backend, which runs the
+// pipeline server-side, or a provider wrapped in the pipeline on the device
+export interface FoodAnalyzer {
+  name: string;
+  model: string;
+  analyze(
+    task: VisionTask,
+    input: Pick<VisionRequest, 'imageDataUrl' | 'text'>,
+    options?: RequestOptions
+  ): Promise<FoodAnalysisResult>;
+  // The model and prompt analyses come from. The backend picks its own, so this is the
+  // version it last reported.
+  getVersion(): Promise<AnalysisVersion>;
+  // Analyses, tokens and cost used against the quota; only the backend keeps track
+  getUsage?(options?: RequestOptions): Promise<UsageSummary>;
+}
+
+// "backend" is the analysis endpoint holding the OpenAI key; "openai" talks to OpenAI
+// directly and is only meant for that endpoint, never for the app
+export type VisionProviderName = 'backend' | 'openai' | 'openai-compatible' | 'stub';
+
+export interface VisionConfig {
+  provider?: VisionProviderName;
+  model?: string;
+  baseUrl?: string; // Only used by the OpenAI-compatible provider
+  apiKey?: string;
+  stubFixture?: string; // Force the stub provider to always return one fixture
+  endpointUrl?: string; // Analysis backend, defaults to the analyze-food Supabase edge function
+  timeoutMs?: number; // Per request attempt
+  maxRetries?: number; // Retries after a 429, 5xx or network failure
+}
@@ -0,0 +1,101 @@
+import { RequestOptions } from './http';
+import { VisionProvider, VisionRequest, VisionResponse } from './types';
+
+// Token usage and cost accounting for analyses. Shared by the app and the analysis backend.
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// One analysis as recorded against a user, including any repair attempts
+export interface AnalysisUsageRecord extends TokenUsage {
+  task: VisionRequest['task'];
+  model: string;
+  requests: number; // Provider calls, more than one when the answer had to be repaired
+  costUsd: number;
+  latencyMs: number;
+  status: 'ok' | 'invalid' | 'error';
+}
+
+export type UsagePeriod = 'day' | 'month';
+
+export interface UsagePeriodSummary {
+  analyses: number; // Every attempt, including ones that failed or were rejected
+  limit: number | null; // null when the period is not limited
+  totalTokens: number;
+  costUsd: number;
+  resetsAt: string; // ISO timestamp when the period's quota starts over
+}
+
+export type UsageSummary = Record<UsagePeriod, UsagePeriodSummary>;
+
+// USD per million tokens. Unknown models are costed as gpt-4o so estimates err high.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'stub-fixtures': { input: 0, output: 0 },
+};
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+export function estimateCostUsd(model: string, usage: TokenUsage): number {
+  // Dated snapshots such as gpt-4o-2024-08-06 are priced like their base model
+  const pricing = MODEL_PRICING[model] ?? MODEL_PRICING[model.replace(/-\d{4}-\d{2}-\d{2}$/, '')] ?? MODEL_PRICING['gpt-4o'];
+  const cost = (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export interface UsageMeter {
+  provider: VisionProvider;
+  totals(): TokenUsage & { model: string; requests: number };
+}
+
+// Wrap a provider so the token usage of every call, including failed repairs, is added up
+export function createUsageMeter(provider: VisionProvider): UsageMeter {
+  const usage = { ...EMPTY_USAGE };
+  let model = provider.model;
+  let requests = 0;
+
+  return {
+    provider: {
+      ...provider,
+      async analyze(request: VisionRequest, options?: RequestOptions): Promise<VisionResponse> {
+        requests++;
+        const response = await provider.analyze(request, options);
+        model = response.model;
+        usage.promptTokens += response.usage?.promptTokens ?? 0;
+        usage.completionTokens += response.usage?.completionTokens ?? 0;
+        usage.totalTokens += response.usage?.totalTokens ?? 0;
+        return response;
+      },
+    },
+    totals: () => ({ ...usage, model, requests }),
+  };
+}
+
+export function startOfPeriod(period: UsagePeriod, now: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function endOfPeriod(period: UsagePeriod, now: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+// The first period whose quota is used up, if any
+export function exceededPeriod(summary: UsageSummary): UsagePeriod | null {
+  for (const period of ['day', 'month'] as UsagePeriod[]) {
+    const { analyses, limit } = summary[period];
+    if (limit !== null && analyses >= limit) {
+      return period;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,404 @@
+import { ConfidenceLevel, FoodItem, ServingInfo } from './result';
+import {
+  CORE_NUTRIENT_KEYS,
+  isNutrientKey,
+  NUTRIENTS,
+  NutrientKey,
+  NutrientMap,
+  NutrientRanges,
+  presentNutrientKeys,
+  roundNutrient,
+} from '@/services/nutrients';
+
+// Validated analysis. Meal totals are never taken from the model;
+// they are computed from the validated items.
+export interface ModelAnalysisPayload {
+  name: string;
+  description: string;
+  confidence: ConfidenceLevel;
+  items: FoodItem[];
+  serving?: ServingInfo; // Only set when read from a nutrition label
+}
+
+// What the model is asked to send: ranges are [low, high] pairs and may be left out
+export interface ModelFoodItem extends Omit<FoodItem, 'ranges'> {
+  ranges?: Partial<Record<NutrientKey, [number, number]>>;
+}
+
+export interface ModelAnalysisResponse {
+  name: string;
+  description: string;
+  confidence?: ConfidenceLevel;
+  items: ModelFoodItem[];
+}
+
+// What the model is asked to send for a nutrition facts label (values per serving)
+export interface ModelLabelResponse {
+  name: string;
+  description?: string;
+  serving: { size: string; grams?: number | null; servingsPerContainer?: number | null };
+  nutrients: Partial<Record<NutrientKey, number>>;
+}
+
+export type AnalysisIssueSeverity = 'error' | 'warning';
+
+export interface AnalysisIssue {
+  severity: AnalysisIssueSeverity;
+  path: string; // e.g. "items[1].nutrients.protein"
+  message: string;
+}
+
+export interface ValidationOutcome {
+  payload: ModelAnalysisPayload | null; // null when any error was found
+  issues: AnalysisIssue[];
+}
+
+// Atwater factors: kcal per gram of protein, carbs and fat
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+// Fibre, alcohol and rounding make small gaps normal; larger ones mean the numbers are made up
+const CALORIE_WARNING_TOLERANCE = 0.25;
+const CALORIE_ERROR_TOLERANCE = 0.5;
+const CALORIE_ABSOLUTE_SLACK = 40;
+
+const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['low', 'medium', 'high'];
+// Relative spread used when the model gives a confidence level but no range for a value
+const DEFAULT_RANGE_SPREAD: Record<ConfidenceLevel, number> = { low: 0.35, medium: 0.2, high: 0.1 };
+
+export function caloriesFromMacros(protein: number, carbs: number, fat: number): number {
+  return protein * KCAL_PER_GRAM.protein + carbs * KCAL_PER_GRAM.carbs + fat * KCAL_PER_GRAM.fat;
+}
+
+export function hasBlockingIssues(issues: AnalysisIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+export function formatIssues(issues: AnalysisIssue[]): string {
+  return issues.map(issue => `${issue.path}: ${issue.message}`).join('\n');
+}
+
+// Warnings such as an ignored unknown nutrient never reject what they are found in
+function countErrors(issues: AnalysisIssue[]): number {
+  return issues.filter(issue => issue.severity === 'error').length;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function defaultRange(value: number, confidence: ConfidenceLevel): [number, number] {
+  const spread = DEFAULT_RANGE_SPREAD[confidence];
+  return [value * (1 - spread), value * (1 + spread)];
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Core nutrients are required; other known nutrients are optional; unknown keys are dropped
+function validateNutrients(rawNutrients: any, path: string, issues: AnalysisIssue[]): NutrientMap | null {
+  if (!rawNutrients || typeof rawNutrients !== 'object' || Array.isArray(rawNutrients)) {
+    issues.push({ severity: 'error', path, message: 'must be an object of nutrient amounts' });
+    return null;
+  }
+
+  const errorCount = countErrors(issues);
+  const nutrients: Partial<Record<NutrientKey, number>> = {};
+
+  for (const [key, value] of Object.entries(rawNutrients)) {
+    if (!isNutrientKey(key)) {
+      issues.push({ severity: 'warning', path: `${path}.${key}`, message: 'is not a known nutrient and was ignored' });
+      continue;
+    }
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (!isNumber(value)) {
+      issues.push({ severity: 'error', path: `${path}.${key}`, message: `must be a number in ${NUTRIENTS[key].unit}` });
+    } else if (value < 0) {
+      issues.push({ severity: 'error', path: `${path}.${key}`, message: 'must not be negative' });
+    } else {
+      nutrients[key] = value;
+    }
+  }
+
+  for (const key of CORE_NUTRIENT_KEYS) {
+    if (rawNutrients[key] === undefined || rawNutrients[key] === null) {
+      issues.push({ severity: 'error', path: `${path}.${key}`, message: 'is required' });
+    }
+  }
+
+  if (countErrors(issues) > errorCount) {
+    return null;
+  }
+
+  // Parts can never be larger than the whole, e.g. sugar within carbs
+  for (const key of presentNutrientKeys(nutrients)) {
+    const whole = NUTRIENTS[key].partOf;
+    if (whole && (nutrients[key] as number) > (nutrients[whole] as number)) {
+      issues.push({
+        severity: 'error',
+        path: `${path}.${key}`,
+        message: `${NUTRIENTS[key].label.toLowerCase()} cannot exceed ${NUTRIENTS[whole].label.toLowerCase()}`,
+      });
+    }
+  }
+
+  return countErrors(issues) > errorCount ? null : (nutrients as NutrientMap);
+}
+
+// Check the [low, high] ranges of an item, filling in missing ones from the confidence level
+function validateRanges(
+  rawRanges: any,
+  nutrients: NutrientMap,
+  confidence: ConfidenceLevel,
+  path: string,
+  issues: AnalysisIssue[]
+): NutrientRanges | null {
+  if (rawRanges !== undefined && (typeof rawRanges !== 'object' || rawRanges === null)) {
+    issues.push({ severity: 'error', path, message: 'must be an object of [low, high] pairs' });
+    return null;
+  }
+
+  const errorCount = countErrors(issues);
+  const ranges: Partial<NutrientRanges> = {};
+
+  for (const key of presentNutrientKeys(nutrients)) {
+    const value = nutrients[key] as number;
+    const rawRange = rawRanges?.[key];
+    const [low, high] = rawRange === undefined ? defaultRange(value, confidence) : rawRange;
+
+    if (rawRange !== undefined) {
+      const isPair = Array.isArray(rawRange) && rawRange.length === 2 && rawRange.every(isNumber);
+      if (!isPair) {
+        issues.push({ severity: 'error', path: `${path}.${key}`, message: 'must be a [low, high] pair of numbers' });
+        continue;
+      }
+      if (low < 0 || low > value || high < value) {
+        issues.push({ severity: 'error', path: `${path}.${key}`, message: `must satisfy 0 ≤ low ≤ ${value} ≤ high` });
+        continue;
+      }
+    }
+
+    ranges[key] = { low: roundNutrient(key, low), high: roundNutrient(key, high) };
+  }
+
+  return countErrors(issues) > errorCount ? null : (ranges as NutrientRanges);
+}
+
+// Check the stated calories against what the macros add up to. Returns false when the gap
+// is big enough to be an error; with strict off a gap is only ever reported as a warning.
+function checkCalorieConsistency(nutrients: NutrientMap, path: string, issues: AnalysisIssue[], strict: boolean): boolean {
+  const expected = caloriesFromMacros(nutrients.protein, nutrients.carbs, nutrients.fat);
+  const difference = Math.abs(nutrients.calories - expected);
+  if (difference <= CALORIE_ABSOLUTE_SLACK) {
+    return true;
+  }
+
+  const relative = difference / Math.max(nutrients.calories, expected);
+  if (strict && relative > CALORIE_ERROR_TOLERANCE) {
+    issues.push({
+      severity: 'error',
+      path,
+      message: `${nutrients.calories} kcal does not match the macros (${Math.round(expected)} kcal at 4/4/9 kcal per gram)`,
+    });
+    return false;
+  }
+  if (relative > CALORIE_WARNING_TOLERANCE) {
+    issues.push({
+      severity: 'warning',
+      path,
+      message: `${nutrients.calories} kcal differs from the macros (${Math.round(expected)} kcal at 4/4/9 kcal per gram)`,
+    });
+  }
+  return true;
+}
+
+function validateItem(rawItem: any, path: string, confidence: ConfidenceLevel, issues: AnalysisIssue[]): FoodItem | null {
+  if (!rawItem || typeof rawItem !== 'object') {
+    issues.push({ severity: 'error', path, message: 'must be an object' });
+    return null;
+  }
+
+  const errorCount = countErrors(issues);
+
+  if (!isNonEmptyString(rawItem.name)) {
+    issues.push({ severity: 'error', path: `${path}.name`, message: 'is required' });
+  }
+  if (!isNonEmptyString(rawItem.portion)) {
+    issues.push({ severity: 'error', path: `${path}.portion`, message: 'is required' });
+  }
+  if (!isNumber(rawItem.grams)) {
+    issues.push({ severity: 'error', path: `${path}.grams`, message: 'must be a number' });
+  } else if (rawItem.grams < 0) {
+    issues.push({ severity: 'error', path: `${path}.grams`, message: 'must not be negative' });
+  }
+
+  const nutrients = validateNutrients(rawItem.nutrients, `${path}.nutrients`, issues);
+  if (!nutrients || countErrors(issues) > errorCount) {
+    return null;
+  }
+
+  const ranges = validateRanges(rawItem.ranges, nutrients, confidence, `${path}.ranges`, issues);
+  if (!ranges) {
+    return null;
+  }
+
+  if (!checkCalorieConsistency(nutrients, `${path}.nutrients.calories`, issues, true)) {
+    return null;
+  }
+
+  return {
+    name: rawItem.name.trim(),
+    portion: rawItem.portion.trim(),
+    grams: rawItem.grams,
+    nutrients,
+    ranges,
+  };
+}
+
+// Check a parsed model response against the analysis schema
+export function validateAnalysis(raw: unknown): ValidationOutcome {
+  const issues: AnalysisIssue[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { payload: null, issues: [{ severity: 'error', path: '$', message: 'response must be a JSON object' }] };
+  }
+
+  const data = raw as Record<string, any>;
+
+  if (!isNonEmptyString(data.name)) {
+    issues.push({ severity: 'error', path: 'name', message: 'is required' });
+  }
+  if (!isNonEmptyString(data.description)) {
+    issues.push({ severity: 'error', path: 'description', message: 'is required' });
+  }
+
+  let confidence: ConfidenceLevel = 'low';
+  if (data.confidence === undefined) {
+    issues.push({ severity: 'warning', path: 'confidence', message: 'was not given, so this estimate is treated as low confidence' });
+  } else if (!CONFIDENCE_LEVELS.includes(data.confidence)) {
+    issues.push({ severity: 'error', path: 'confidence', message: `must be one of ${CONFIDENCE_LEVELS.join(', ')}` });
+  } else {
+    confidence = data.confidence;
+  }
+
+  const items: FoodItem[] = [];
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    issues.push({ severity: 'error', path: 'items', message: 'must list at least one food item' });
+  } else {
+    data.items.forEach((rawItem: unknown, index: number) => {
+      const item = validateItem(rawItem, `items[${index}]`, confidence, issues);
+      if (item) {
+        items.push(item);
+      }
+    });
+  }
+
+  // Water or black coffee can honestly be 0 kcal, but a whole meal of nothing is a failed estimate
+  if (!hasBlockingIssues(issues) && items.every(item => item.nutrients.calories === 0)) {
+    issues.push({ severity: 'error', path: 'items', message: 'must add up to more than 0 kcal' });
+  }
+
+  if (hasBlockingIssues(issues)) {
+    return { payload: null, issues };
+  }
+
+  return {
+    payload: {
+      name: data.name.trim(),
+      description: data.description.trim(),
+      confidence,
+      items,
+    },
+    issues,
+  };
+}
+
+function isOptionalNumber(value: unknown, allowZero: boolean): boolean {
+  return value === undefined || value === null || (isNumber(value) && (allowZero ? value >= 0 : value > 0));
+}
+
+// Check a parsed nutrition label against the label schema. Label values are printed
+// facts rather than estimates, so the ranges collapse to the values and confidence is high.
+export function validateLabel(raw: unknown): ValidationOutcome {
+  const issues: AnalysisIssue[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { payload: null, issues: [{ severity: 'error', path: '$', message: 'response must be a JSON object' }] };
+  }
+
+  const data = raw as Record<string, any>;
+
+  if (!isNonEmptyString(data.name)) {
+    issues.push({ severity: 'error', path: 'name', message: 'is required' });
+  }
+
+  const serving = data.serving;
+  if (!serving || typeof serving !== 'object') {
+    issues.push({ severity: 'error', path: 'serving', message: 'is required' });
+  } else {
+    if (!isNonEmptyString(serving.size)) {
+      issues.push({ severity: 'error', path: 'serving.size', message: 'is required' });
+    }
+    if (!isOptionalNumber(serving.grams, true)) {
+      issues.push({ severity: 'error', path: 'serving.grams', message: 'must be a non-negative number or null' });
+    }
+    if (!isOptionalNumber(serving.servingsPerContainer, false)) {
+      issues.push({ severity: 'error', path: 'serving.servingsPerContainer', message: 'must be a positive number or null' });
+    }
+  }
+
+  const nutrients = validateNutrients(data.nutrients, 'nutrients', issues);
+
+  if (!nutrients || hasBlockingIssues(issues)) {
+    return { payload: null, issues };
+  }
+
+  // Labels round their values and may count fibre or sugar alcohols differently
+  checkCalorieConsistency(nutrients, 'nutrients.calories', issues, false);
+
+  const ranges: Partial<NutrientRanges> = {};
+  for (const key of presentNutrientKeys(nutrients)) {
+    const value = nutrients[key] as number;
+    ranges[key] = { low: value, high: value };
+  }
+
+  const servingInfo: ServingInfo = {
+    size: serving.size.trim(),
+    grams: isNumber(serving.grams) ? serving.grams : undefined,
+    servingsPerContainer: isNumber(serving.servingsPerContainer) ? serving.servingsPerContainer : undefined,
+  };
+
+  return {
+    payload: {
+      name: data.name.trim(),
+      description: isNonEmptyString(data.description)
+        ? data.description.trim()
+        : `Nutrition facts per serving (${servingInfo.size})`,
+      confidence: 'high',
+      items: [{
+        name: data.name.trim(),
+        portion: servingInfo.size,
+        grams: servingInfo.grams ?? 0,
+        nutrients,
+        ranges: ranges as NutrientRanges,
+      }],
+      serving: servingInfo,
+    },
+    issues,
+  };
+}
+
+// Parse raw model text as JSON and validate it in one step
+export function parseAndValidate(content: string, validate: (raw: unknown) => ValidationOutcome): ValidationOutcome {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (parseError) {
+    return {
+      payload: null,
+      issues: [{ severity: 'error', path: '$', message: `response is not valid JSON (${(parseError as Error).message})` }],
+    };
+  }
+  return validate(parsed);
+}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { StyleSheet, View, TouchableOpacity, Text } from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+export type CaptureMode = 'photo' | 'label' | 'barcode';
+
+interface CaptureModeSelectorProps {
+  mode: CaptureMode;
+  onModeChange: (mode: CaptureMode) => void;
+}
+
+const MODES: { mode: CaptureMode; label: string; accessibilityLabel: string }[] = [
+  { mode: 'photo', label: 'Food', accessibilityLabel: 'Food photo' },
+  { mode: 'label', label: 'Label', accessibilityLabel: 'Nutrition label' },
+  { mode: 'barcode', label: 'Barcode', accessibilityLabel: 'Barcode scanner' },
+];
+
+// Switch between photographing a plate of food, a packaged food's nutrition label or scanning its barcode
+export function CaptureModeSelector({ mode, onModeChange }: CaptureModeSelectorProps) {
+  const handlePress = (nextMode: CaptureMode) => {
+    if (nextMode === mode) return;
+    Haptics.selectionAsync();
+    onModeChange(nextMode);
+  };
+
+  return (
+    <View style={styles.container} accessibilityRole="tablist">
+      {MODES.map(option => {
+        const isSelected = option.mode === mode;
+        return (
+          <TouchableOpacity
+            key={option.mode}
+            style={[styles.option, isSelected && styles.optionSelected]}
+            onPress={() => handlePress(option.mode)}
+            accessibilityRole="tab"
+            accessibilityLabel={option.accessibilityLabel}
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text style={[styles.optionText, isSelected && styles.optionTextSelected]} maxFontSizeMultiplier={1.5}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 60,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 20,
+    padding: 4,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+  },
+  optionSelected: {
+    backgroundColor: '#fff',
+  },
+  optionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionTextSelected: {
+    color: '#000',
+  },
+});
@@ -1,53 +1,86 @@
-import { supabase as dbSupabase } from '@/services/db';
-import { supabase as mainSupabase } from '@/src/services/supabase';
-import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
-import { getCurrentSession, getCurrentUser, signInWithEmail, signUpWithEmail, supabase, signOut as supabaseSignOut } from './supabase';
-
-// Add the syncSupabaseAuth function here
-/**
- * Synchronizes the session between different Supabase client instances
- * This helps ensure that authentication state is consistent across the app
- */
-export const syncSupabaseAuth = async (): Promise<void> => {
-  try {
-    // Get the current session from the main client
-    const { data: { session } } = await mainSupabase.auth.getSession();
-    
-    if (session) {
-      // If we have a session, set it on the db client as well
-      await dbSupabase.auth.setSession({
-        access_token: session.access_token,
-        refresh_token: session.refresh_token
-      });
-      console.log('Supabase auth synchronized successfully');
-    } else {
-      console.log('No active session to synchronize');
-    }
-  } catch (error) {
-    console.error('Error synchronizing Supabase auth:', error);
-  }
-};
+import { Session, User } from '@supabase/supabase-js';
+import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  AUTH_CALLBACK_PATH,
+  AuthRedirectParams,
+  AuthRedirectResult,
+  buildAuthRedirectUrl,
+  completeAuthRedirect,
+  RESET_PASSWORD_PATH,
+} from './authRedirect';
+import {
+  sendEmailOtp,
+  signInAsGuest,
+  signInWithEmail,
+  signUpWithEmail,
+  supabase,
+  signOut as supabaseSignOut,
+  updatePassword as supabaseUpdatePassword,
+  verifyEmailOtp,
+} from './supabase';
+
+// Where the user is in the auth lifecycle. "expired" means the session could not be
+// refreshed: the last user is kept so they can sign back in without losing unsaved work.
+// "guest" is an anonymous user whose meals stay on the device until they sign up.
+export type AuthStatus = 'loading' | 'signedIn' | 'guest' | 'signedOut' | 'expired';
+
+export type AuthState =
+  | { status: 'loading'; user: null; session: null }
+  | { status: 'signedIn'; user: User; session: Session }
+  | { status: 'guest'; user: User; session: Session }
+  | { status: 'signedOut'; user: null; session: null }
+  | { status: 'expired'; user: User; session: null };
+
+const LOADING: AuthState = { status: 'loading', user: null, session: null };
+const SIGNED_OUT: AuthState = { status: 'signedOut', user: null, session: null };
+
+function stateFromSession(session: Session): AuthState {
+  return session.user.is_anonymous
+    ? { status: 'guest', user: session.user, session }
+    : { status: 'signedIn', user: session.user, session };
+}
+
+// Supabase's AuthError, or whatever was thrown while calling it
+type AuthActionResult = { error: Error | null };
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
 
 // Define the shape of our auth context
-interface AuthContextType {
-  user: any | null;
-  session: any | null;
+type AuthContextType = AuthState & {
   isLoading: boolean;
-  signIn: (email: string, password: string) => Promise<{ error: any | null }>;
-  signUp: (email: string, password: string, metadata?: { name?: string }) => Promise<{ error: any | null }>;
+  signIn: (email: string, password: string) => Promise<AuthActionResult>;
+  signUp: (email: string, password: string, metadata?: { name?: string }) => Promise<AuthActionResult>;
   signOut: () => Promise<void>;
-  resetPassword: (email: string) => Promise<{ error: any | null }>;
-}
+  // Try the app without an account
+  continueAsGuest: () => Promise<AuthActionResult>;
+  resetPassword: (email: string) => Promise<AuthActionResult>;
+  // Passwordless: one email carries both a magic link and a 6-digit code
+  sendSignInEmail: (email: string) => Promise<AuthActionResult>;
+  verifySignInCode: (email: string, code: string) => Promise<AuthActionResult>;
+  // Finish a sign-in, email confirmation or password reset from an emailed link
+  completeEmailLink: (params: AuthRedirectParams) => Promise<{ result: AuthRedirectResult | null; error: Error | null }>;
+  updatePassword: (password: string) => Promise<AuthActionResult>;
+  // Try to renew the session after a request was rejected; false when the user has to sign in again
+  refreshSession: () => Promise<boolean>;
+};
 
 // Create the context with default values
 const AuthContext = createContext<AuthContextType>({
-  user: null,
-  session: null,
+  ...LOADING,
   isLoading: true,
   signIn: async () => ({ error: null }),
   signUp: async () => ({ error: null }),
   signOut: async () => {},
+  continueAsGuest: async () => ({ error: null }),
   resetPassword: async () => ({ error: null }),
+  sendSignInEmail: async () => ({ error: null }),
+  verifySignInCode: async () => ({ error: null }),
+  completeEmailLink: async () => ({ result: null, error: null }),
+  updatePassword: async () => ({ error: null }),
+  refreshSession: async () => false,
 });
 
 // Custom hook to use the auth context
@@ -55,72 +88,83 @@ export const useAuth = () => useContext(AuthContext);
 
 // Provider component that wraps the app and makes auth object available
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<any | null>(null);
-  const [session, setSession] = useState<any | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [state, setState] = useState<AuthState>(LOADING);
+  // Set while the user signs out, so that SIGNED_OUT is not mistaken for an expired session
+  const isSigningOut = useRef(false);
+  // The listener below is registered once and needs the latest state
+  const stateRef = useRef(state);
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // A guest has no credentials to sign back in with, so a lost session is replaced with a new
+  // anonymous one. Their meals are stored on the device and are not affected.
+  const renewGuestSession = async () => {
+    const { error } = await signInAsGuest();
+    if (error) {
+      console.error('Error renewing guest session:', error.message);
+    }
+    return !error;
+  };
 
-  // Check if user is logged in on mount and set up auth state listener
   useEffect(() => {
-    // Get the current user and session asynchronously
-    const fetchUserAndSession = async () => {
-      try {
-        const currentUser = await getCurrentUser();
-        console.log('Current user on mount:', currentUser);
-        
-        const currentSession = await getCurrentSession();
-        console.log('Current session on mount:', currentSession);
-        
-        setUser(currentUser);
-        setSession(currentSession);
-      } catch (error) {
-        console.error('Error fetching auth state:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    fetchUserAndSession();
-
-    // Set up a listener for auth state changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
-      console.log('Auth state changed:', { event, session });
-      setSession(session);
-      setUser(session?.user ?? null);
-      
-      // Synchronize auth state with other Supabase clients
+    // INITIAL_SESSION reports the stored session (refreshed if needed) once on startup
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // Never log the session itself: it contains the access and refresh tokens
+      console.log('Auth state changed:', event);
+
       if (session) {
-        await syncSupabaseAuth();
-        console.log('Auth state synchronized after change');
+        setState(stateFromSession(session));
+        return;
       }
+
+      if (event === 'SIGNED_OUT' && !isSigningOut.current && stateRef.current.status === 'guest') {
+        renewGuestSession();
+        return;
+      }
+
+      // Without a session the user either signed out, or the refresh token was rejected.
+      // Keep the last user in the second case so the app can ask them to sign in again.
+      setState(previous =>
+        event === 'SIGNED_OUT' && !isSigningOut.current && previous.user
+          ? { status: 'expired', user: previous.user, session: null }
+          : SIGNED_OUT
+      );
     });
 
-    // Clean up the subscription when the component unmounts
-    return () => {
-      if (subscription) {
-        subscription.unsubscribe();
+    // Tokens are only refreshed in the background while the app is in the foreground
+    supabase.auth.startAutoRefresh();
+    const appStateSubscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') {
+        supabase.auth.startAutoRefresh();
+      } else {
+        supabase.auth.stopAutoRefresh();
       }
+    });
+
+    // Clean up the subscriptions when the component unmounts
+    return () => {
+      subscription.unsubscribe();
+      appStateSubscription.remove();
+      supabase.auth.stopAutoRefresh();
     };
   }, []);
 
   // Sign in function using our helper function
   const signIn = async (email: string, password: string) => {
     try {
-      console.log('Attempting sign in with:', email);
-      const { user, session, error } = await signInWithEmail(email, password);
+      const { error } = await signInWithEmail(email, password);
       
       if (error) {
-        console.error('Sign in error:', error);
+        console.error('Sign in error:', error.message);
         return { error };
       }
       
-      // Synchronize auth state with other Supabase clients
-      await syncSupabaseAuth();
-      
-      console.log('Sign in successful:', { user, session });
+      console.log('Sign in successful');
       return { error: null };
     } catch (error) {
       console.error('Sign in error:', error);
-      return { error };
+      return { error: toError(error) };
     }
   };
 
@@ -128,7 +172,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signUp = async (email: string, password: string, metadata?: { name?: string }) => {
     try {
       console.log('Attempting sign up with:', { email });
-      const { user, error, session } = await signUpWithEmail(email, password, metadata);
+      // The confirmation email links back to the app, which signs the user in
+      const { user, error, session } = await signUpWithEmail(email, password, metadata, buildAuthRedirectUrl(AUTH_CALLBACK_PATH));
       
       console.log('Sign up response:', { 
         user: user ? 'User exists' : 'No user', 
@@ -136,16 +181,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         session: session ? 'Session exists' : 'No session'
       });
       
-      if (user) {
-        // Manually update the state
-        setUser(user);
-        setSession(session);
-      }
-      
+      // With email confirmation on there is no session yet; the user is signed in once they
+      // open the confirmation link, and onAuthStateChange picks that up
       return { error };
     } catch (error) {
       console.error('Sign up error:', error);
-      return { error };
+      return { error: toError(error) };
     }
   };
 
@@ -153,43 +194,121 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     try {
       console.log('Attempting sign out');
+      isSigningOut.current = true;
       const { error } = await supabaseSignOut();
       
-      if (!error) {
-        // Manually clear the state
-        setUser(null);
-        setSession(null);
-        console.log('Sign out successful');
-      } else {
-        console.error('Sign out error:', error);
+      if (error) {
+        console.error('Sign out error:', error.message);
+        return;
       }
+      setState(SIGNED_OUT);
+      console.log('Sign out successful');
     } catch (error) {
       console.error('Sign out error:', error);
+    } finally {
+      isSigningOut.current = false;
+    }
+  };
+
+  const continueAsGuest = async () => {
+    try {
+      const { error } = await signInAsGuest();
+      if (error) {
+        console.error('Error starting guest mode:', error.message);
+      }
+      return { error };
+    } catch (error) {
+      console.error('Error starting guest mode:', error);
+      return { error: toError(error) };
     }
   };
 
+  const refreshSession = async () => {
+    const { data, error } = await supabase.auth.refreshSession();
+    if ((error || !data.session) && stateRef.current.status === 'guest') {
+      return renewGuestSession();
+    }
+    if (error || !data.session) {
+      console.error('Error refreshing session:', error?.message ?? 'No session');
+      // A rejected refresh token also emits SIGNED_OUT; this covers a refresh that fails without one
+      setState(previous => (previous.user ? { status: 'expired', user: previous.user, session: null } : SIGNED_OUT));
+      return false;
+    }
+    return true;
+  };
+
   // Reset password function using Supabase v2
   const resetPassword = async (email: string) => {
     try {
       const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: 'foodnsap://reset-password',
+        redirectTo: buildAuthRedirectUrl(RESET_PASSWORD_PATH),
       });
       return { error };
     } catch (error) {
+      return { error: toError(error) };
+    }
+  };
+
+  const sendSignInEmail = async (email: string) => {
+    try {
+      const { error } = await sendEmailOtp(email.trim(), buildAuthRedirectUrl(AUTH_CALLBACK_PATH));
+      if (error) {
+        console.error('Error sending sign-in email:', error.message);
+      }
       return { error };
+    } catch (error) {
+      console.error('Error sending sign-in email:', error);
+      return { error: toError(error) };
+    }
+  };
+
+  // The session arrives through onAuthStateChange like every other sign-in
+  const verifySignInCode = async (email: string, code: string) => {
+    try {
+      const { error } = await verifyEmailOtp(email.trim(), code.trim());
+      if (error) {
+        console.error('Error verifying sign-in code:', error.message);
+      }
+      return { error };
+    } catch (error) {
+      console.error('Error verifying sign-in code:', error);
+      return { error: toError(error) };
+    }
+  };
+
+  const completeEmailLink = async (params: AuthRedirectParams) => {
+    try {
+      return { result: await completeAuthRedirect(params), error: null };
+    } catch (error) {
+      console.error('Error completing email link:', error);
+      return { result: null, error: toError(error) };
+    }
+  };
+
+  const updatePassword = async (password: string) => {
+    try {
+      const { error } = await supabaseUpdatePassword(password);
+      return { error };
+    } catch (error) {
+      return { error: toError(error) };
     }
   };
 
   return (
     <AuthContext.Provider
       value={{
-        user,
-        session,
-        isLoading,
+        ...state,
+        isLoading: state.status === 'loading',
         signIn,
         signUp,
         signOut,
+        continueAsGuest,
         resetPassword,
+        sendSignInEmail,
+        verifySignInCode,
+        completeEmailLink,
+        updatePassword,
+        refreshSession,
       }}
     >
       {children}
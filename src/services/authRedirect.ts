@@ -0,0 +1,76 @@
+import { EmailOtpType } from '@supabase/supabase-js';
+import * as Linking from 'expo-linking';
+import { getAppConfig } from '@/services/config';
+import { supabase } from './supabase';
+
+// Routes that emailed links open; both live in the (auth) group
+export const AUTH_CALLBACK_PATH = 'auth-callback';
+export const RESET_PASSWORD_PATH = 'reset-password';
+
+// What an auth link carries. With the PKCE flow Supabase appends ?code=...; custom email
+// templates can send ?token_hash=...&type=...; older links put tokens in the #fragment.
+export interface AuthRedirectParams {
+  code?: string;
+  token_hash?: string;
+  type?: string;
+  access_token?: string;
+  refresh_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+// magiclink and signup links sign the user in; recovery links also need a new password
+export type AuthRedirectResult = 'signedIn' | 'recovery';
+
+const EMAIL_OTP_TYPES: EmailOtpType[] = ['signup', 'invite', 'magiclink', 'recovery', 'email_change', 'email'];
+
+// e.g. foodnsap://auth-callback, or the exp:// equivalent when running in Expo Go
+export function buildAuthRedirectUrl(path: string): string {
+  return Linking.createURL(path, { scheme: getAppConfig().linking.scheme });
+}
+
+// Read the auth parameters from both the query string and the fragment of a link
+export function parseAuthRedirectUrl(url: string): AuthRedirectParams {
+  const [withoutFragment, fragment = ''] = url.split('#');
+  const query = withoutFragment.split('?')[1] ?? '';
+  const params: Record<string, string> = {};
+  for (const part of [query, fragment]) {
+    new URLSearchParams(part).forEach((value, key) => {
+      params[key] = value;
+    });
+  }
+  return params;
+}
+
+export function hasAuthRedirectParams(params: AuthRedirectParams): boolean {
+  return !!(params.code || params.token_hash || params.access_token || params.error || params.error_description);
+}
+
+// Turn the link into a session on the app's Supabase client. Throws with a message the
+// screens can show when the link is expired, already used or opened on another device.
+export async function completeAuthRedirect(params: AuthRedirectParams): Promise<AuthRedirectResult> {
+  if (params.error || params.error_description) {
+    throw new Error(params.error_description?.replace(/\+/g, ' ') || params.error);
+  }
+
+  const isRecovery = params.type === 'recovery';
+
+  if (params.code) {
+    const { error } = await supabase.auth.exchangeCodeForSession(params.code);
+    if (error) throw error;
+  } else if (params.token_hash) {
+    const type = EMAIL_OTP_TYPES.includes(params.type as EmailOtpType) ? (params.type as EmailOtpType) : 'email';
+    const { error } = await supabase.auth.verifyOtp({ token_hash: params.token_hash, type });
+    if (error) throw error;
+  } else if (params.access_token && params.refresh_token) {
+    const { error } = await supabase.auth.setSession({
+      access_token: params.access_token,
+      refresh_token: params.refresh_token,
+    });
+    if (error) throw error;
+  } else {
+    throw new Error('This link is missing its sign-in details. Request a new one.');
+  }
+
+  return isRecovery ? 'recovery' : 'signedIn';
+}
@@ -1,13 +1,22 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Platform } from 'react-native';
 import 'react-native-url-polyfill/auto';
+import { loadAppConfig } from '@/services/config';
+import { Database } from '@/services/database.types';
 
-// Supabase URL and anon key
-const supabaseUrl = 'your_supabase_url_here';
-const supabaseAnonKey = 'your_supabase_anon_key_here';
+export type AppSupabaseClient = SupabaseClient<Database>;
 
-// Initialize the Supabase client with v2 API
-export const supabase = createClient(
+// Supabase URL and anon key of the active profile; point them at `supabase start` to run locally.
+// With an invalid configuration only the configuration error screen renders, so the client
+// is created with a placeholder that is never called.
+const { config } = loadAppConfig();
+const supabaseUrl = config?.supabase.url ?? 'http://localhost';
+const supabaseAnonKey = config?.supabase.anonKey ?? 'invalid-configuration';
+
+// The app's only Supabase client: auth, meals, storage and the analysis backend all share
+// its session, so nothing has to be copied between instances
+export const supabase: AppSupabaseClient = createClient<Database>(
   supabaseUrl, 
   supabaseAnonKey, 
   {
@@ -15,7 +24,11 @@ export const supabase = createClient(
       storage: AsyncStorage,
       autoRefreshToken: true,
       persistSession: true,
-      detectSessionInUrl: false
+      // Emailed links come back as ?code=... and are exchanged on this device (see authRedirect.ts)
+      flowType: 'pkce',
+      // Only a browser has a page URL to read the session from; native apps receive links
+      // through expo-router, which opens the auth-callback and reset-password screens
+      detectSessionInUrl: Platform.OS === 'web'
     }
   }
 );
@@ -29,15 +42,44 @@ export const signInWithEmail = async (email: string, password: string) => {
   return { user: data?.user || null, session: data?.session || null, error };
 };
 
-export const signUpWithEmail = async (email: string, password: string, metadata?: object) => {
+export const signUpWithEmail = async (email: string, password: string, metadata?: object, emailRedirectTo?: string) => {
   const { data, error } = await supabase.auth.signUp({
     email,
     password,
-    options: { data: metadata }
+    options: { data: metadata, emailRedirectTo }
+  });
+  return { user: data?.user || null, session: data?.session || null, error };
+};
+
+// Emails a magic link that also contains a 6-digit code, creating the account if needed
+export const sendEmailOtp = async (email: string, emailRedirectTo: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo, shouldCreateUser: true }
+  });
+  return { error };
+};
+
+export const verifyEmailOtp = async (email: string, token: string) => {
+  const { data, error } = await supabase.auth.verifyOtp({
+    email,
+    token,
+    type: 'email',
   });
   return { user: data?.user || null, session: data?.session || null, error };
 };
 
+// A guest gets an anonymous user, so the analysis backend can meter them like anyone else
+export const signInAsGuest = async () => {
+  const { data, error } = await supabase.auth.signInAnonymously();
+  return { user: data?.user || null, session: data?.session || null, error };
+};
+
+export const updatePassword = async (password: string) => {
+  const { data, error } = await supabase.auth.updateUser({ password });
+  return { user: data?.user || null, error };
+};
+
 export const signOut = async () => {
   const { error } = await supabase.auth.signOut();
   return { error };
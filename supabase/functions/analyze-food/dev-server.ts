@@ -0,0 +1,51 @@
+// Local stand-in for the analyze-food edge function, for development and tests.
+//   deno run --allow-net --allow-env --allow-read supabase/functions/analyze-food/dev-server.ts
+// and point the app at it with EXPO_PUBLIC_ANALYSIS_ENDPOINT_URL=http://<your-ip>:8787/analyze-food
+//
+// VISION_PROVIDER picks the model: "stub" (default, offline fixtures), "openai" or "openai-compatible",
+// configured with VISION_MODEL, VISION_BASE_URL, VISION_API_KEY / OPENAI_API_KEY and VISION_STUB_FIXTURE.
+// Any bearer token is accepted unless SUPABASE_URL and SUPABASE_ANON_KEY point at a (local) Supabase
+// project, in which case tokens are verified against it like the real function does.
+// Usage is kept in memory with the same ANALYSIS_DAILY_LIMIT / ANALYSIS_MONTHLY_LIMIT quotas
+// (ANALYSIS_GUEST_* for anonymous guests).
+import { createClient } from '@supabase/supabase-js';
+import { createVisionProvider } from '@/services/vision/providers';
+import { VisionProviderName } from '@/services/vision/types';
+import { AuthenticatedUser, guestNetworkIdentifier, handleAnalyzeRequest } from './handler';
+import { createMemoryUsageStore, readDefaultLimits, readGuestLimits } from './usageStore';
+
+const PORT = Number(Deno.env.get('PORT') ?? 8787);
+
+const provider = createVisionProvider({
+  provider: (Deno.env.get('VISION_PROVIDER') ?? 'stub') as VisionProviderName,
+  model: Deno.env.get('VISION_MODEL'),
+  baseUrl: Deno.env.get('VISION_BASE_URL'),
+  apiKey: Deno.env.get('VISION_API_KEY') ?? Deno.env.get('OPENAI_API_KEY'),
+  stubFixture: Deno.env.get('VISION_STUB_FIXTURE'),
+  timeoutMs: Number(Deno.env.get('VISION_TIMEOUT_MS')) || undefined,
+});
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+const supabase = supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
+const usageStore = createMemoryUsageStore(readDefaultLimits(name => Deno.env.get(name)));
+const guestLimits = readGuestLimits(name => Deno.env.get(name));
+const identifyGuestNetwork = guestNetworkIdentifier(Deno.env.get('GUEST_NETWORK_SALT') ?? 'local-dev');
+
+async function authenticate(accessToken: string): Promise<AuthenticatedUser | null> {
+  if (!supabase) {
+    return { id: 'local-dev-user', isAnonymous: false };
+  }
+  const { data, error } = await supabase.auth.getUser(accessToken);
+  if (error || !data.user) return null;
+  return { id: data.user.id, isAnonymous: !!data.user.is_anonymous };
+}
+
+console.log(`analyze-food dev server using ${provider.name} (${provider.model}) on http://localhost:${PORT}/analyze-food`);
+
+Deno.serve({ port: PORT }, req => {
+  if (new URL(req.url).pathname !== '/analyze-food') {
+    return new Response('Not found', { status: 404 });
+  }
+  return handleAnalyzeRequest(req, { provider, authenticate, usageStore, guestLimits, identifyGuestNetwork });
+});
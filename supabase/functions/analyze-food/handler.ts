@@ -0,0 +1,160 @@
+import { AnalysisNetworkError, AnalysisRateLimitError, AnalysisValidationError } from '@/services/vision/errors';
+import { AnalysisInput, runVisionPipeline } from '@/services/vision/pipeline';
+import { PROMPT_VERSION } from '@/services/vision/prompts';
+import { VisionProvider, VisionTask } from '@/services/vision/types';
+import { createUsageMeter, estimateCostUsd, exceededPeriod } from '@/services/vision/usage';
+import { getUsageSummary, guestUsageStore, QuotaLimits, UsageStore } from './usageStore';
+
+// Shared by the Supabase edge function and the local development server
+
+const TASKS: VisionTask[] = ['photo', 'label', 'text'];
+// A processed photo is well under this; anything bigger is not worth sending to the model
+const MAX_INPUT_LENGTH = 8 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+export interface AuthenticatedUser {
+  id: string;
+  isAnonymous: boolean; // A guest signed in with Supabase anonymous sign-in
+}
+
+export interface AnalyzeHandlerOptions {
+  provider: VisionProvider;
+  // Resolves the user behind a Supabase access token, or null when it is invalid
+  authenticate: (accessToken: string) => Promise<AuthenticatedUser | null>;
+  usageStore: UsageStore;
+  guestLimits: QuotaLimits;
+  // Identifies the network a guest is on, so new anonymous accounts share one guest quota;
+  // without it (or without a client address) guests are only limited per account
+  identifyGuestNetwork?: (req: Request) => Promise<string | null>;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+// The address the platform's proxy saw. It appends that hop to x-forwarded-for, so only the
+// last entry can be trusted; anything before it was sent by the client.
+function clientAddress(req: Request): string | undefined {
+  const forwardedFor = req.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwardedFor || req.headers.get('x-real-ip')?.trim() || undefined;
+}
+
+// Hashes the client address with a secret salt, so usage rows never hold a readable IP
+export function guestNetworkIdentifier(salt: string): (req: Request) => Promise<string | null> {
+  return async req => {
+    const address = clientAddress(req);
+    if (!address) return null;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${address}`));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  };
+}
+
+// Check the request body and pick out the task and its input
+function parseBody(body: any): { task: VisionTask; input: AnalysisInput } | string {
+  if (!body || !TASKS.includes(body.task)) {
+    return `task must be one of ${TASKS.join(', ')}`;
+  }
+  if (body.task === 'text') {
+    if (typeof body.text !== 'string' || !body.text.trim()) return 'text is required for the text task';
+    if (body.text.length > 2000) return 'text is too long';
+    return { task: body.task, input: { text: body.text.trim() } };
+  }
+  if (typeof body.imageDataUrl !== 'string' || !body.imageDataUrl.startsWith('data:image')) {
+    return 'imageDataUrl must be a data:image URL';
+  }
+  if (body.imageDataUrl.length > MAX_INPUT_LENGTH) return 'image is too large';
+  return { task: body.task, input: { imageDataUrl: body.imageDataUrl } };
+}
+
+// GET returns the user's usage summary; POST runs an analysis within their quota.
+// Both include the model and prompt version the analyses come from.
+export async function handleAnalyzeRequest(
+  req: Request,
+  { provider, authenticate, usageStore, guestLimits, identifyGuestNetwork }: AnalyzeHandlerOptions
+): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const accessToken = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const user = accessToken ? await authenticate(accessToken) : null;
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+  const userId = user.id;
+  // Lets the app key its cache by what actually produced an analysis
+  const version = { model: provider.model, promptVersion: PROMPT_VERSION };
+
+  // The quota is checked before the model is called so a user over it costs nothing
+  const guestNetwork = user.isAnonymous && identifyGuestNetwork ? await identifyGuestNetwork(req) : null;
+  const usage = await getUsageSummary(
+    user.isAnonymous ? guestUsageStore(usageStore, guestLimits, guestNetwork) : usageStore,
+    userId
+  );
+  if (req.method === 'GET') {
+    return json({ usage, version });
+  }
+
+  const period = exceededPeriod(usage);
+  if (period) {
+    return json({ error: 'quota_exceeded', period, usage }, 429);
+  }
+
+  const parsed = parseBody(await req.json().catch(() => null));
+  if (typeof parsed === 'string') {
+    return json({ error: parsed }, 400);
+  }
+
+  // Every provider call is metered, including repairs of answers that end up rejected
+  const meter = createUsageMeter(provider);
+  const startedAt = Date.now();
+  let status: 'ok' | 'invalid' | 'error' = 'ok';
+
+  try {
+    // Stop calling the model once the client has gone away
+    const result = await runVisionPipeline(meter.provider, parsed.task, parsed.input, { signal: req.signal });
+    return json({ result, version });
+  } catch (error: any) {
+    if (error instanceof AnalysisValidationError) {
+      status = 'invalid';
+      return json({ error: 'The analysis failed validation', issues: error.issues }, 422);
+    }
+    status = 'error';
+    // 429 is reserved for the user's own quota, so provider rate limiting is a retryable 503
+    if (error instanceof AnalysisRateLimitError) {
+      const headers: Record<string, string> = {};
+      if (error.retryAfterMs !== undefined) {
+        headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+      }
+      return json({ error: 'rate_limited', retryAfterMs: error.retryAfterMs }, 503, headers);
+    }
+    if (error instanceof AnalysisNetworkError) {
+      console.error(`Analysis provider unreachable for ${userId}:`, error);
+      return json({ error: error.timedOut ? 'The analysis provider timed out' : 'The analysis provider is unreachable' }, 504);
+    }
+    console.error(`Error analyzing ${parsed.task} for ${userId}:`, error);
+    return json({ error: 'The analysis provider failed' }, 502);
+  } finally {
+    const totals = meter.totals();
+    await usageStore
+      .record(userId, {
+        ...totals,
+        task: parsed.task,
+        costUsd: estimateCostUsd(totals.model, totals),
+        latencyMs: Date.now() - startedAt,
+        status,
+      }, guestNetwork ?? undefined)
+      .catch(error => console.error('Error recording analysis usage:', error));
+  }
+}
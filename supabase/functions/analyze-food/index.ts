@@ -0,0 +1,36 @@
+// Supabase edge function: analyzes food for signed in users with the OpenAI key kept server-side.
+//   supabase secrets set OPENAI_API_KEY=sk-...
+//   supabase secrets set ANALYSIS_DAILY_LIMIT=20 ANALYSIS_MONTHLY_LIMIT=300   (optional)
+//   supabase secrets set ANALYSIS_GUEST_DAILY_LIMIT=3 ANALYSIS_GUEST_MONTHLY_LIMIT=10   (optional)
+//   supabase secrets set GUEST_NETWORK_SALT=<random string>   (guests share these limits per network)
+//   supabase functions deploy analyze-food
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/services/database.types';
+import { createVisionProvider } from '@/services/vision/providers';
+import { AuthenticatedUser, guestNetworkIdentifier, handleAnalyzeRequest } from './handler';
+import { createSupabaseUsageStore, readDefaultLimits, readGuestLimits } from './usageStore';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!);
+// Usage rows are written with the service role; users can only read their own
+const admin = createClient<Database>(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+const usageStore = createSupabaseUsageStore(admin, readDefaultLimits(name => Deno.env.get(name)));
+const guestLimits = readGuestLimits(name => Deno.env.get(name));
+// Any secret works as the salt; the service role key is one every project already has
+const identifyGuestNetwork = guestNetworkIdentifier(
+  Deno.env.get('GUEST_NETWORK_SALT') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const provider = createVisionProvider({
+  provider: 'openai',
+  apiKey: Deno.env.get('OPENAI_API_KEY'),
+  model: Deno.env.get('OPENAI_MODEL'),
+  timeoutMs: Number(Deno.env.get('VISION_TIMEOUT_MS')) || undefined,
+});
+
+async function authenticate(accessToken: string): Promise<AuthenticatedUser | null> {
+  const { data, error } = await supabase.auth.getUser(accessToken);
+  if (error || !data.user) return null;
+  return { id: data.user.id, isAnonymous: !!data.user.is_anonymous };
+}
+
+Deno.serve(req => handleAnalyzeRequest(req, { provider, authenticate, usageStore, guestLimits, identifyGuestNetwork }));
@@ -0,0 +1,155 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/services/database.types';
+import {
+  AnalysisUsageRecord,
+  endOfPeriod,
+  startOfPeriod,
+  UsagePeriod,
+  UsagePeriodSummary,
+  UsageSummary,
+} from '@/services/vision/usage';
+
+export interface QuotaLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+type UsageTotals = { analyses: number; totalTokens: number; costUsd: number };
+
+// Where analysis usage is recorded and quotas are looked up
+export interface UsageStore {
+  getLimits(userId: string): Promise<QuotaLimits>;
+  // Failed and rejected analyses count towards the quota too, since they still cost provider calls
+  getUsageSince(userId: string, since: Date): Promise<UsageTotals>;
+  // The same for every guest on one network (see guestUsageStore)
+  getGuestUsageSince(guestNetwork: string, since: Date): Promise<UsageTotals>;
+  record(userId: string, record: AnalysisUsageRecord, guestNetwork?: string): Promise<void>;
+}
+
+function parseLimit(value: string | undefined, fallback: number): number | null {
+  if (value === undefined || value === '') return fallback;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+// Default quotas come from ANALYSIS_DAILY_LIMIT / ANALYSIS_MONTHLY_LIMIT; "0" or "none" disables one
+export function readDefaultLimits(env: (name: string) => string | undefined): QuotaLimits {
+  return {
+    daily: parseLimit(env('ANALYSIS_DAILY_LIMIT'), 20),
+    monthly: parseLimit(env('ANALYSIS_MONTHLY_LIMIT'), 300),
+  };
+}
+
+// Guests (anonymous Supabase users) get a small taste before they have to sign up;
+// ANALYSIS_GUEST_DAILY_LIMIT / ANALYSIS_GUEST_MONTHLY_LIMIT override it
+export function readGuestLimits(env: (name: string) => string | undefined): QuotaLimits {
+  return {
+    daily: parseLimit(env('ANALYSIS_GUEST_DAILY_LIMIT'), 3),
+    monthly: parseLimit(env('ANALYSIS_GUEST_MONTHLY_LIMIT'), 10),
+  };
+}
+
+// The store as guests see it: fixed guest limits, shared by every guest on the same network when
+// it is known, since signing in anonymously again starts a new account with an unused quota
+export function guestUsageStore(store: UsageStore, limits: QuotaLimits, guestNetwork: string | null): UsageStore {
+  return {
+    ...store,
+    getLimits: async () => limits,
+    getUsageSince: guestNetwork ? (_userId, since) => store.getGuestUsageSince(guestNetwork, since) : store.getUsageSince,
+  };
+}
+
+function sumUsage(rows: { totalTokens: number; costUsd: number }[]): UsageTotals {
+  return {
+    analyses: rows.length,
+    totalTokens: rows.reduce((sum, row) => sum + row.totalTokens, 0),
+    costUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+  };
+}
+
+export async function getUsageSummary(store: UsageStore, userId: string, now: Date = new Date()): Promise<UsageSummary> {
+  const limits = await store.getLimits(userId);
+
+  const summarize = async (period: UsagePeriod, limit: number | null): Promise<UsagePeriodSummary> => ({
+    ...(await store.getUsageSince(userId, startOfPeriod(period, now))),
+    limit,
+    resetsAt: endOfPeriod(period, now).toISOString(),
+  });
+
+  return {
+    day: await summarize('day', limits.daily),
+    month: await summarize('month', limits.monthly),
+  };
+}
+
+// Backed by the analysis_usage and analysis_quotas tables; needs a service role client
+// because users may read but never write their own usage
+export function createSupabaseUsageStore(supabase: SupabaseClient<Database>, defaults: QuotaLimits): UsageStore {
+  const usageSince = async (column: 'user_id' | 'guest_network', value: string, since: Date): Promise<UsageTotals> => {
+    const { data, error } = await supabase
+      .from('analysis_usage')
+      .select('total_tokens, cost_usd')
+      .eq(column, value)
+      .gte('created_at', since.toISOString());
+    if (error) throw error;
+    return sumUsage((data ?? []).map(row => ({ totalTokens: row.total_tokens, costUsd: Number(row.cost_usd) })));
+  };
+
+  return {
+    async getLimits(userId) {
+      const { data, error } = await supabase
+        .from('analysis_quotas')
+        .select('daily_limit, monthly_limit')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return {
+        daily: data?.daily_limit !== undefined ? data.daily_limit : defaults.daily,
+        monthly: data?.monthly_limit !== undefined ? data.monthly_limit : defaults.monthly,
+      };
+    },
+
+    getUsageSince: (userId, since) => usageSince('user_id', userId, since),
+    getGuestUsageSince: (guestNetwork, since) => usageSince('guest_network', guestNetwork, since),
+
+    async record(userId, record, guestNetwork) {
+      const { error } = await supabase.from('analysis_usage').insert({
+        user_id: userId,
+        guest_network: guestNetwork ?? null,
+        task: record.task,
+        model: record.model,
+        requests: record.requests,
+        prompt_tokens: record.promptTokens,
+        completion_tokens: record.completionTokens,
+        total_tokens: record.totalTokens,
+        cost_usd: record.costUsd,
+        latency_ms: record.latencyMs,
+        status: record.status,
+      });
+      if (error) throw error;
+    },
+  };
+}
+
+// In-memory store for the local dev server and tests
+export function createMemoryUsageStore(defaults: QuotaLimits): UsageStore {
+  const records: (AnalysisUsageRecord & { userId: string; guestNetwork?: string; createdAt: Date })[] = [];
+
+  return {
+    async getLimits() {
+      return defaults;
+    },
+
+    async getUsageSince(userId, since) {
+      return sumUsage(records.filter(row => row.userId === userId && row.createdAt >= since));
+    },
+
+    async getGuestUsageSince(guestNetwork, since) {
+      return sumUsage(records.filter(row => row.guestNetwork === guestNetwork && row.createdAt >= since));
+    },
+
+    async record(userId, record, guestNetwork) {
+      records.push({ ...record, userId, guestNetwork, createdAt: new Date() });
+    },
+  };
+}
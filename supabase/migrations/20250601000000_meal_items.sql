@@ -0,0 +1,44 @@
+-- Baseline: the meals table as it existed before its migrations were kept in this repository.
+-- "if not exists" leaves a database that already has it alone.
+create table if not exists public.meals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  image_url text,
+  calories integer not null default 0,
+  protein integer not null default 0,
+  carbs integer not null default 0,
+  fat integer not null default 0,
+  meal_time timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.meals enable row level security;
+
+-- Store the individual food items detected on a plate next to the meal total
+alter table public.meals
+  add column if not exists items jsonb not null default '[]'::jsonb;
+
+create or replace function public.insert_meal(
+  p_name text,
+  p_thumbnail_url text,
+  p_calories integer,
+  p_protein integer,
+  p_carbs integer,
+  p_fat integer,
+  p_items jsonb default '[]'::jsonb
+)
+returns public.meals
+language plpgsql
+security invoker
+as $$
+declare
+  new_meal public.meals;
+begin
+  insert into public.meals (user_id, name, image_url, calories, protein, carbs, fat, items, meal_time)
+  values (auth.uid(), p_name, p_thumbnail_url, p_calories, p_protein, p_carbs, p_fat, coalesce(p_items, '[]'::jsonb), now())
+  returning * into new_meal;
+
+  return new_meal;
+end;
+$$;
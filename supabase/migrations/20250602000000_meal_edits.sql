@@ -0,0 +1,38 @@
+-- Keep the AI estimate next to the values the user corrected before saving
+alter table public.meals
+  add column if not exists original_estimate jsonb,
+  add column if not exists portion_factor numeric not null default 1;
+
+drop function if exists public.insert_meal(text, text, integer, integer, integer, integer, jsonb);
+
+create or replace function public.insert_meal(
+  p_name text,
+  p_thumbnail_url text,
+  p_calories integer,
+  p_protein integer,
+  p_carbs integer,
+  p_fat integer,
+  p_items jsonb default '[]'::jsonb,
+  p_original_estimate jsonb default null,
+  p_portion_factor numeric default 1
+)
+returns public.meals
+language plpgsql
+security invoker
+as $$
+declare
+  new_meal public.meals;
+begin
+  insert into public.meals (
+    user_id, name, image_url, calories, protein, carbs, fat, items,
+    original_estimate, portion_factor, meal_time
+  )
+  values (
+    auth.uid(), p_name, p_thumbnail_url, p_calories, p_protein, p_carbs, p_fat,
+    coalesce(p_items, '[]'::jsonb), p_original_estimate, coalesce(p_portion_factor, 1), now()
+  )
+  returning * into new_meal;
+
+  return new_meal;
+end;
+$$;
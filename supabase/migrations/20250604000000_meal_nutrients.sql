@@ -0,0 +1,56 @@
+-- Full nutrient profile (fiber, sugar, sodium, vitamins, ...) keyed by nutrient name.
+-- The calories/protein/carbs/fat columns stay as the indexed core values.
+alter table public.meals
+  add column if not exists nutrients jsonb not null default '{}'::jsonb;
+
+update public.meals
+set nutrients = jsonb_build_object('calories', calories, 'protein', protein, 'carbs', carbs, 'fat', fat)
+where nutrients = '{}'::jsonb;
+
+drop function if exists public.insert_meal(text, text, integer, integer, integer, integer, jsonb, jsonb, numeric, uuid, timestamptz);
+
+create or replace function public.insert_meal(
+  p_name text,
+  p_thumbnail_url text,
+  p_calories integer,
+  p_protein integer,
+  p_carbs integer,
+  p_fat integer,
+  p_items jsonb default '[]'::jsonb,
+  p_original_estimate jsonb default null,
+  p_portion_factor numeric default 1,
+  p_client_id uuid default null,
+  p_meal_time timestamptz default now(),
+  p_nutrients jsonb default null
+)
+returns public.meals
+language plpgsql
+security invoker
+as $$
+declare
+  new_meal public.meals;
+begin
+  insert into public.meals (
+    user_id, client_id, name, image_url, calories, protein, carbs, fat, nutrients, items,
+    original_estimate, portion_factor, meal_time
+  )
+  values (
+    auth.uid(), coalesce(p_client_id, gen_random_uuid()), p_name, p_thumbnail_url,
+    p_calories, p_protein, p_carbs, p_fat,
+    coalesce(p_nutrients, jsonb_build_object('calories', p_calories, 'protein', p_protein, 'carbs', p_carbs, 'fat', p_fat)),
+    coalesce(p_items, '[]'::jsonb), p_original_estimate, coalesce(p_portion_factor, 1),
+    coalesce(p_meal_time, now())
+  )
+  on conflict (user_id, client_id) do nothing
+  returning * into new_meal;
+
+  -- A retry of an already stored meal returns the existing row
+  if new_meal is null then
+    select * into new_meal
+    from public.meals
+    where user_id = auth.uid() and client_id = p_client_id;
+  end if;
+
+  return new_meal;
+end;
+$$;
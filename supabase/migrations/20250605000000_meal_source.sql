@@ -0,0 +1,59 @@
+-- How a meal was logged: a food photo, a nutrition label photo, a scanned barcode
+-- or a typed/dictated description. Existing meals all came from photos.
+alter table public.meals
+  add column if not exists source text not null default 'photo';
+
+alter table public.meals
+  drop constraint if exists meals_source_check;
+
+alter table public.meals
+  add constraint meals_source_check check (source in ('photo', 'label', 'barcode', 'text'));
+
+drop function if exists public.insert_meal(text, text, integer, integer, integer, integer, jsonb, jsonb, numeric, uuid, timestamptz, jsonb);
+
+create or replace function public.insert_meal(
+  p_name text,
+  p_thumbnail_url text,
+  p_calories integer,
+  p_protein integer,
+  p_carbs integer,
+  p_fat integer,
+  p_items jsonb default '[]'::jsonb,
+  p_original_estimate jsonb default null,
+  p_portion_factor numeric default 1,
+  p_client_id uuid default null,
+  p_meal_time timestamptz default now(),
+  p_nutrients jsonb default null,
+  p_source text default 'photo'
+)
+returns public.meals
+language plpgsql
+security invoker
+as $$
+declare
+  new_meal public.meals;
+begin
+  insert into public.meals (
+    user_id, client_id, name, image_url, calories, protein, carbs, fat, nutrients, items,
+    original_estimate, portion_factor, meal_time, source
+  )
+  values (
+    auth.uid(), coalesce(p_client_id, gen_random_uuid()), p_name, p_thumbnail_url,
+    p_calories, p_protein, p_carbs, p_fat,
+    coalesce(p_nutrients, jsonb_build_object('calories', p_calories, 'protein', p_protein, 'carbs', p_carbs, 'fat', p_fat)),
+    coalesce(p_items, '[]'::jsonb), p_original_estimate, coalesce(p_portion_factor, 1),
+    coalesce(p_meal_time, now()), coalesce(p_source, 'photo')
+  )
+  on conflict (user_id, client_id) do nothing
+  returning * into new_meal;
+
+  -- A retry of an already stored meal returns the existing row
+  if new_meal is null then
+    select * into new_meal
+    from public.meals
+    where user_id = auth.uid() and client_id = p_client_id;
+  end if;
+
+  return new_meal;
+end;
+$$;
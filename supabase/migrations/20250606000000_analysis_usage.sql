@@ -0,0 +1,41 @@
+-- Every analysis run by the analyze-food function, with its token usage and estimated cost.
+-- Rows are written by the function with the service role; users can only read their own.
+create table if not exists public.analysis_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  task text not null check (task in ('photo', 'label', 'text')),
+  model text not null,
+  requests integer not null default 1,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  latency_ms integer not null,
+  status text not null check (status in ('ok', 'invalid', 'error')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists analysis_usage_user_created_idx
+  on public.analysis_usage (user_id, created_at desc);
+
+alter table public.analysis_usage enable row level security;
+
+drop policy if exists "Users can read their own analysis usage" on public.analysis_usage;
+create policy "Users can read their own analysis usage"
+  on public.analysis_usage for select
+  using (auth.uid() = user_id);
+
+-- Per-user overrides of the function's default quotas; a null limit means unlimited
+create table if not exists public.analysis_quotas (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  daily_limit integer check (daily_limit > 0),
+  monthly_limit integer check (monthly_limit > 0),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.analysis_quotas enable row level security;
+
+drop policy if exists "Users can read their own analysis quota" on public.analysis_quotas;
+create policy "Users can read their own analysis quota"
+  on public.analysis_quotas for select
+  using (auth.uid() = user_id);
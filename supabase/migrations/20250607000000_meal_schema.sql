@@ -0,0 +1,77 @@
+-- One canonical meals schema for every client: the row types in services/database.types.ts
+-- are generated from it, and the app only reads and writes meals through MealRepository.
+
+-- Every meal gets an idempotency key, not just the ones created through insert_meal
+update public.meals set client_id = gen_random_uuid() where client_id is null;
+
+alter table public.meals
+  alter column client_id set default gen_random_uuid(),
+  alter column client_id set not null,
+  add column if not exists updated_at timestamptz not null default now();
+
+create index if not exists meals_user_meal_time_idx
+  on public.meals (user_id, meal_time desc);
+
+create or replace function public.touch_meal_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists meals_touch_updated_at on public.meals;
+create trigger meals_touch_updated_at
+  before update on public.meals
+  for each row execute function public.touch_meal_updated_at();
+
+-- Users own their meals; the policies replace whatever was set up by hand on the dashboard
+drop policy if exists "Users can read their own meals" on public.meals;
+create policy "Users can read their own meals"
+  on public.meals for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own meals" on public.meals;
+create policy "Users can insert their own meals"
+  on public.meals for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own meals" on public.meals;
+create policy "Users can update their own meals"
+  on public.meals for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own meals" on public.meals;
+create policy "Users can delete their own meals"
+  on public.meals for delete
+  using (auth.uid() = user_id);
+
+-- Meal photos, stored under <user id>/<client id>.jpg
+insert into storage.buckets (id, name, public)
+values ('meal-thumbnails', 'meal-thumbnails', true)
+on conflict (id) do nothing;
+
+-- Uploads with upsert and removals look the object up first, so they need select as well
+drop policy if exists "Users can read their own meal thumbnails" on storage.objects;
+create policy "Users can read their own meal thumbnails"
+  on storage.objects for select
+  using (bucket_id = 'meal-thumbnails' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can upload their own meal thumbnails" on storage.objects;
+create policy "Users can upload their own meal thumbnails"
+  on storage.objects for insert
+  with check (bucket_id = 'meal-thumbnails' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can replace their own meal thumbnails" on storage.objects;
+create policy "Users can replace their own meal thumbnails"
+  on storage.objects for update
+  using (bucket_id = 'meal-thumbnails' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'meal-thumbnails' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can delete their own meal thumbnails" on storage.objects;
+create policy "Users can delete their own meal thumbnails"
+  on storage.objects for delete
+  using (bucket_id = 'meal-thumbnails' and (storage.foldername(name))[1] = auth.uid()::text);
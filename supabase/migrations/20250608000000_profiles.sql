@@ -0,0 +1,46 @@
+-- One profile row per user with their daily goals. The app creates it on the first save,
+-- so users without a row simply have no goals yet.
+create table if not exists public.profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  -- IANA time zone (e.g. Europe/Paris) that decides where the user's day starts and ends
+  time_zone text,
+  calorie_goal integer check (calorie_goal > 0),
+  protein_goal numeric check (protein_goal >= 0),
+  carbs_goal numeric check (carbs_goal >= 0),
+  fat_goal numeric check (fat_goal >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.touch_profile_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_touch_updated_at on public.profiles;
+create trigger profiles_touch_updated_at
+  before update on public.profiles
+  for each row execute function public.touch_profile_updated_at();
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "Users can read their own profile" on public.profiles;
+create policy "Users can read their own profile"
+  on public.profiles for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own profile" on public.profiles;
+create policy "Users can insert their own profile"
+  on public.profiles for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own profile" on public.profiles;
+create policy "Users can update their own profile"
+  on public.profiles for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
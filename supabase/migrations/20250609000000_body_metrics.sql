@@ -0,0 +1,44 @@
+-- Body metrics for the goal calculator, and a log of the user's weight over time.
+-- The current weight is the latest entry in weight_entries.
+alter table public.profiles
+  add column if not exists height_cm numeric check (height_cm > 0),
+  add column if not exists birth_year integer check (birth_year between 1900 and 2100),
+  add column if not exists sex text check (sex in ('male', 'female')),
+  add column if not exists activity_level text
+    check (activity_level in ('sedentary', 'light', 'moderate', 'active', 'very_active')),
+  add column if not exists weight_goal text check (weight_goal in ('lose', 'maintain', 'gain')),
+  -- kg per week to lose or gain; ignored when maintaining
+  add column if not exists weekly_rate_kg numeric check (weekly_rate_kg >= 0 and weekly_rate_kg <= 1);
+
+create table if not exists public.weight_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  weight_kg numeric not null check (weight_kg > 0 and weight_kg < 700),
+  measured_at timestamptz not null default now(),
+  -- Idempotency key from the device, so a weigh-in moved from guest mode is only logged once
+  client_id uuid,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists weight_entries_user_measured_at_idx
+  on public.weight_entries (user_id, measured_at desc);
+
+create unique index if not exists weight_entries_user_client_id_key
+  on public.weight_entries (user_id, client_id);
+
+alter table public.weight_entries enable row level security;
+
+drop policy if exists "Users can read their own weight entries" on public.weight_entries;
+create policy "Users can read their own weight entries"
+  on public.weight_entries for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own weight entries" on public.weight_entries;
+create policy "Users can insert their own weight entries"
+  on public.weight_entries for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own weight entries" on public.weight_entries;
+create policy "Users can delete their own weight entries"
+  on public.weight_entries for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,133 @@
+-- Meal history: full-text search on meal names, filters, and keyset pagination on
+-- (meal_time, id) so scrolling stays fast however many meals a user has.
+
+alter table public.meals
+  add column if not exists name_search tsvector
+    generated always as (to_tsvector('simple', coalesce(name, ''))) stored;
+
+create index if not exists meals_name_search_idx
+  on public.meals using gin (name_search);
+
+-- Matches the search_meals ordering, so each page is a single index range scan
+create index if not exists meals_user_meal_time_id_idx
+  on public.meals (user_id, meal_time desc, id desc);
+
+-- Meal types follow the local time the meal was eaten at; services/meals/mealType.ts uses the same hours
+create or replace function public.meal_type_at(p_meal_time timestamptz, p_time_zone text)
+returns text
+language sql
+stable
+as $$
+  select case
+    when local_hour between 5 and 10 then 'breakfast'
+    when local_hour between 11 and 15 then 'lunch'
+    when local_hour between 17 and 21 then 'dinner'
+    else 'snack'
+  end
+  from (select extract(hour from p_meal_time at time zone p_time_zone)::integer as local_hour) as local_time;
+$$;
+
+-- "chick sal" finds "Chicken Caesar Salad": every word is a prefix that must match
+create or replace function public.meal_name_query(p_text text)
+returns tsquery
+language sql
+immutable
+as $$
+  select to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  from regexp_split_to_table(lower(coalesce(p_text, '')), '[^[:alnum:]]+') as word
+  where word <> '';
+$$;
+
+-- The signed in user's meals matching the history filters. Every argument is optional.
+create or replace function public.filtered_meals(
+  p_time_zone text,
+  p_query text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_meal_types text[] default null,
+  p_min_calories integer default null,
+  p_max_calories integer default null
+)
+returns setof public.meals
+language sql
+stable
+security invoker
+as $$
+  select m.*
+  from public.meals m
+  where m.user_id = auth.uid()
+    and (public.meal_name_query(p_query) is null or m.name_search @@ public.meal_name_query(p_query))
+    and (p_from is null or m.meal_time >= p_from)
+    and (p_to is null or m.meal_time < p_to)
+    and (p_meal_types is null or public.meal_type_at(m.meal_time, p_time_zone) = any (p_meal_types))
+    and (p_min_calories is null or m.calories >= p_min_calories)
+    and (p_max_calories is null or m.calories <= p_max_calories);
+$$;
+
+-- One page of the history, newest first. Pass the meal_time and id of the last meal of the
+-- previous page as the cursor to get the next one.
+create or replace function public.search_meals(
+  p_time_zone text,
+  p_query text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_meal_types text[] default null,
+  p_min_calories integer default null,
+  p_max_calories integer default null,
+  p_cursor_time timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 30
+)
+returns setof public.meals
+language sql
+stable
+security invoker
+as $$
+  select m.*
+  from public.filtered_meals(p_time_zone, p_query, p_from, p_to, p_meal_types, p_min_calories, p_max_calories) m
+  where p_cursor_time is null or (m.meal_time, m.id) < (p_cursor_time, p_cursor_id)
+  order by m.meal_time desc, m.id desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+$$;
+
+-- Subtotals for whole days of the history, with the same filters, so a day split across two
+-- pages still shows its full total
+create or replace function public.meal_day_totals(
+  p_time_zone text,
+  p_days date[],
+  p_query text default null,
+  p_meal_types text[] default null,
+  p_min_calories integer default null,
+  p_max_calories integer default null
+)
+returns table (
+  day date,
+  meal_count integer,
+  calories numeric,
+  protein numeric,
+  carbs numeric,
+  fat numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    (m.meal_time at time zone p_time_zone)::date as day,
+    count(*)::integer as meal_count,
+    sum(coalesce((m.nutrients ->> 'calories')::numeric, m.calories)) as calories,
+    sum(coalesce((m.nutrients ->> 'protein')::numeric, m.protein)) as protein,
+    sum(coalesce((m.nutrients ->> 'carbs')::numeric, m.carbs)) as carbs,
+    sum(coalesce((m.nutrients ->> 'fat')::numeric, m.fat)) as fat
+  from public.filtered_meals(
+    p_time_zone,
+    p_query,
+    (select min(d) from unnest(p_days) as d)::timestamp at time zone p_time_zone,
+    ((select max(d) from unnest(p_days) as d) + 1)::timestamp at time zone p_time_zone,
+    p_meal_types,
+    p_min_calories,
+    p_max_calories
+  ) m
+  where (m.meal_time at time zone p_time_zone)::date = any (p_days)
+  group by 1;
+$$;
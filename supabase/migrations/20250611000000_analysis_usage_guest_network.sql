@@ -0,0 +1,8 @@
+-- Guests are limited per network as well as per account, because signing in anonymously
+-- again starts a new account. Holds a salted hash of the client address, never the address.
+alter table public.analysis_usage
+  add column if not exists guest_network text;
+
+create index if not exists analysis_usage_guest_network_created_idx
+  on public.analysis_usage (guest_network, created_at desc)
+  where guest_network is not null;